@@ -54,6 +54,7 @@ export function GlobalHeader() {
   const isAuthenticated = Boolean(email);
   const isWishlistsActive = pathname.startsWith("/wishlists");
   const isActivityActive = pathname.startsWith("/me/activity");
+  const isShoppingListActive = pathname.startsWith("/me/shopping-list");
   const shortAccountName = email ? email.split("@")[0] || email : "";
 
   async function handleSignOut() {
@@ -101,6 +102,12 @@ export function GlobalHeader() {
               <Link className={`header-nav-link ${isActivityActive ? "header-nav-link--active" : ""}`} href="/me/activity">
                 My activity
               </Link>
+              <Link
+                className={`header-nav-link ${isShoppingListActive ? "header-nav-link--active" : ""}`}
+                href="/me/shopping-list"
+              >
+                My shopping list
+              </Link>
               <button
                 className="header-nav-link header-nav-link--danger header-nav-link--logout"
                 onClick={() => void handleSignOut()}
@@ -154,6 +161,13 @@ export function GlobalHeader() {
                   >
                     My activity
                   </Link>
+                  <Link
+                    className={`header-nav-link ${isShoppingListActive ? "header-nav-link--active" : ""}`}
+                    href="/me/shopping-list"
+                    onClick={closeMenu}
+                  >
+                    My shopping list
+                  </Link>
                   <button
                     className="header-nav-link header-nav-link--danger header-nav-link--logout text-left"
                     onClick={() => void handleSignOut()}
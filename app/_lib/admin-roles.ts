@@ -0,0 +1,148 @@
+import { insertAuditEvent, listAuditEvents } from "@/app/_lib/audit-events";
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+import { fetchUserEmailsByIds, resolveUserIdByEmail } from "@/app/_lib/user-directory";
+
+export type ProfileRole = "user" | "admin";
+
+export type RoleAuditAction = "grant_admin_role" | "revoke_admin_role";
+
+export type SetProfileRoleError = "TARGET_NOT_FOUND" | "SELF_REVOKE";
+
+export type AdminProfile = {
+  userId: string;
+  email: string | null;
+  displayName: string;
+};
+
+export type RoleAuditEvent = {
+  id: string;
+  action: RoleAuditAction;
+  targetUserId: string;
+  targetEmail: string | null;
+  actorEmail: string | null;
+  createdAt: string;
+};
+
+type ProfileRoleRow = {
+  user_id: string;
+  display_name: string;
+  role: ProfileRole;
+};
+
+function normalizeRole(value: unknown): ProfileRole {
+  return value === "admin" ? "admin" : "user";
+}
+
+export async function getProfileRole(userId: string): Promise<ProfileRole> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.from("profiles").select("role").eq("user_id", userId).maybeSingle();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return normalizeRole((data as { role?: string } | null)?.role);
+}
+
+export async function listAdminProfiles(): Promise<AdminProfile[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id,display_name,role")
+    .eq("role", "admin")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+
+  const rows = (data || []) as ProfileRoleRow[];
+  const emailsById = await fetchUserEmailsByIds(rows.map((row) => row.user_id));
+  return rows.map((row) => ({
+    userId: row.user_id,
+    email: emailsById.get(row.user_id) || null,
+    displayName: row.display_name,
+  }));
+}
+
+export async function setProfileRole(input: {
+  targetEmail: string;
+  role: ProfileRole;
+  actorUserId: string;
+}) {
+  const targetUserId = await resolveUserIdByEmail(input.targetEmail);
+  if (!targetUserId) {
+    return { error: "TARGET_NOT_FOUND" as SetProfileRoleError };
+  }
+
+  if (targetUserId === input.actorUserId && input.role !== "admin") {
+    return { error: "SELF_REVOKE" as SetProfileRoleError };
+  }
+
+  const previousRole = await getProfileRole(targetUserId);
+  if (previousRole === input.role) {
+    return {
+      ok: true as const,
+      alreadyApplied: true as const,
+      targetUserId,
+      role: input.role,
+      auditEventId: null as string | null,
+    };
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("profiles")
+    .upsert({ user_id: targetUserId, role: input.role }, { onConflict: "user_id" });
+
+  if (error) throw error;
+
+  const action: RoleAuditAction = input.role === "admin" ? "grant_admin_role" : "revoke_admin_role";
+  let auditEventId: string | null = null;
+  try {
+    const stored = await insertAuditEvent({
+      actorUserId: input.actorUserId,
+      wishlistId: null,
+      entityType: "profile",
+      entityId: targetUserId,
+      action,
+      after: {
+        role: input.role,
+        previousRole,
+      },
+    });
+    auditEventId = stored.id;
+  } catch (error) {
+    console.warn("audit_event_write_failed", {
+      action,
+      targetUserId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+
+  return {
+    ok: true as const,
+    alreadyApplied: false as const,
+    targetUserId,
+    role: input.role,
+    auditEventId,
+  };
+}
+
+export async function listRoleAuditEvents(input?: { limit?: number }): Promise<RoleAuditEvent[]> {
+  const events = await listAuditEvents({
+    entityType: "profile",
+    limit: input?.limit ?? 50,
+  });
+
+  const roleEvents = events.filter(
+    (event) => event.action === "grant_admin_role" || event.action === "revoke_admin_role",
+  );
+  const emailsById = await fetchUserEmailsByIds(
+    roleEvents.flatMap((event) => [event.entityId, event.actorUserId ?? ""]),
+  );
+
+  return roleEvents.map((event) => ({
+    id: event.id,
+    action: event.action as RoleAuditAction,
+    targetUserId: event.entityId,
+    targetEmail: emailsById.get(event.entityId) || null,
+    actorEmail: (event.actorUserId && emailsById.get(event.actorUserId)) || null,
+    createdAt: event.createdAt,
+  }));
+}
@@ -1,4 +1,6 @@
+import { insertAuditEvent, normalizeRetentionDays, retentionCutoffIso } from "@/app/_lib/audit-events";
 import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+import { fetchUserEmailById } from "@/app/_lib/user-directory";
 import {
   buildPublicShareUrl,
   getPublicShareTokenForWishlist,
@@ -11,6 +13,48 @@ type ActiveReservationRow = {
   user_id: string;
 };
 
+export type ArchiveNotificationKind = "archived" | "hold_reminder" | "hold_released" | "waitlist_available";
+
+type ReserverNotificationKind = Exclude<ArchiveNotificationKind, "archived">;
+
+type ExpiringHoldRow = {
+  id: string;
+  wishlist_id: string;
+  item_id: string;
+  user_id: string;
+  hold_expires_at: string;
+  items: { title: string; price_cents: number | null; archived_at: string | null } | null;
+};
+
+type ReleaseHoldFunctionRow = {
+  outcome: "RELEASED" | "SKIPPED" | "NOT_FOUND";
+  wishlist_id: string | null;
+  item_id: string | null;
+  user_id: string | null;
+  item_title: string | null;
+  item_price_cents: number | null;
+  item_updated_at: string | null;
+  head_starts: WaitlistHeadStartRow[] | null;
+};
+
+export type WaitlistHeadStartRow = {
+  waitlist_id: string;
+  wishlist_id: string;
+  item_id: string;
+  user_id: string;
+  item_title: string;
+  item_price_cents: number | null;
+  head_start_expires_at: string;
+};
+
+export type ReservationHoldSweepOutcome = {
+  reservationId: string;
+  itemId: string;
+  wishlistId: string;
+  result: "reminded" | "released" | "skipped" | "failed";
+  holdExpiresAt: string;
+};
+
 type SuggestionCandidate = {
   id: string;
   title: string;
@@ -33,10 +77,9 @@ const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
 const DEFAULT_OPENAI_TIMEOUT_MS = 7000;
 const MAX_SUGGESTION_COUNT = 5;
 const EMAIL_PREVIEW_MAX = 220;
-
-function normalizeEmail(value: string | null | undefined) {
-  return (value || "").trim().toLowerCase();
-}
+const DEFAULT_HOLD_REMINDER_HOURS = 48;
+const DEFAULT_WAITLIST_HEAD_START_MINUTES = 30;
+const HOLD_SWEEP_BATCH_LIMIT = 100;
 
 function parsePositiveInt(raw: string | undefined, fallback: number): number {
   const parsed = Number(raw);
@@ -197,7 +240,7 @@ async function listActiveReservationsForItem(itemId: string): Promise<ActiveRese
     .from("reservations")
     .select("id,user_id")
     .eq("item_id", itemId)
-    .eq("status", "active");
+    .in("status", ["active", "purchased"]);
 
   if (error) throw error;
   return (data || []) as ActiveReservationRow[];
@@ -209,7 +252,7 @@ async function releaseReservationsForItem(itemId: string, archivedAt: string) {
     .from("reservations")
     .update({ status: "released", updated_at: archivedAt })
     .eq("item_id", itemId)
-    .eq("status", "active");
+    .in("status", ["active", "purchased"]);
 
   if (error) throw error;
 }
@@ -232,43 +275,14 @@ async function listSuggestionCandidates(input: { wishlistId: string; excludedIte
   }));
 }
 
-async function resolveUserEmailById(userId: string): Promise<string | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase.auth.admin.getUserById(userId);
-  if (error || !data?.user?.email) return null;
-  return normalizeEmail(data.user.email);
-}
-
-async function resolveUserIdByEmail(actorEmail: string): Promise<string | null> {
-  const normalizedEmail = normalizeEmail(actorEmail);
-  if (!normalizedEmail) return null;
-
-  const supabase = getSupabaseAdminClient();
-  const perPage = 200;
-  let page = 1;
-
-  for (let guard = 0; guard < 200; guard += 1) {
-    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
-    if (error) break;
-
-    const users = data?.users || [];
-    const found = users.find((candidate) => normalizeEmail(candidate.email) === normalizedEmail);
-    if (found?.id) return found.id;
-
-    if (!data?.nextPage || users.length === 0) break;
-    page = data.nextPage;
-  }
-
-  return null;
+function formatEmailPrice(cents: number | null) {
+  return cents === null ? "Unknown price" : `$${(cents / 100).toFixed(2)}`;
 }
 
-async function sendArchivedReservationEmail(input: {
+async function sendNotificationEmail(input: {
   toEmail: string;
-  wishlistTitle: string;
-  archivedItemTitle: string;
-  archivedItemPriceCents: number | null;
-  suggestedTitles: string[];
-  shareUrl: string;
+  subject: string;
+  text: string;
 }): Promise<{ sent: boolean; errorMessage?: string }> {
   const resendApiKey = (process.env.RESEND_API_KEY || "").trim();
   const fromAddress = (process.env.NOTIFY_EMAIL_FROM || "").trim();
@@ -276,22 +290,6 @@ async function sendArchivedReservationEmail(input: {
     return { sent: false, errorMessage: "Email provider is not configured." };
   }
 
-  const priceText =
-    input.archivedItemPriceCents === null ? "Unknown price" : `$${(input.archivedItemPriceCents / 100).toFixed(2)}`;
-  const suggestionsText =
-    input.suggestedTitles.length > 0
-      ? input.suggestedTitles.slice(0, 3).join(", ")
-      : "Open the wishlist to see similar-price suggestions.";
-
-  const subject = `Reserved item archived in "${input.wishlistTitle}"`;
-  const text = [
-    `Your reserved item was archived: ${input.archivedItemTitle} (${priceText}).`,
-    "",
-    `Suggested alternatives: ${suggestionsText}`,
-    "",
-    `Open wishlist: ${input.shareUrl}`,
-  ].join("\n");
-
   const response = await fetch("https://api.resend.com/emails", {
     method: "POST",
     headers: {
@@ -301,8 +299,8 @@ async function sendArchivedReservationEmail(input: {
     body: JSON.stringify({
       from: fromAddress,
       to: [input.toEmail],
-      subject,
-      text,
+      subject: input.subject,
+      text: input.text,
     }),
   });
 
@@ -314,6 +312,85 @@ async function sendArchivedReservationEmail(input: {
   return { sent: true };
 }
 
+async function sendArchivedReservationEmail(input: {
+  toEmail: string;
+  wishlistTitle: string;
+  archivedItemTitle: string;
+  archivedItemPriceCents: number | null;
+  suggestedTitles: string[];
+  shareUrl: string;
+}) {
+  const suggestionsText =
+    input.suggestedTitles.length > 0
+      ? input.suggestedTitles.slice(0, 3).join(", ")
+      : "Open the wishlist to see similar-price suggestions.";
+
+  return sendNotificationEmail({
+    toEmail: input.toEmail,
+    subject: `Reserved item archived in "${input.wishlistTitle}"`,
+    text: [
+      `Your reserved item was archived: ${input.archivedItemTitle} (${formatEmailPrice(input.archivedItemPriceCents)}).`,
+      "",
+      `Suggested alternatives: ${suggestionsText}`,
+      "",
+      `Open wishlist: ${input.shareUrl}`,
+    ].join("\n"),
+  });
+}
+
+async function sendReserverEmail(input: {
+  kind: ReserverNotificationKind;
+  toEmail: string;
+  wishlistTitle: string;
+  itemTitle: string;
+  itemPriceCents: number | null;
+  expiresAt: string;
+  shareUrl: string;
+}) {
+  const canonicalHost = normalizeCanonicalHost(process.env.CANONICAL_HOST);
+  const itemText = `${input.itemTitle} (${formatEmailPrice(input.itemPriceCents)})`;
+  const expiresText = new Date(input.expiresAt).toUTCString();
+
+  if (input.kind === "waitlist_available") {
+    return sendNotificationEmail({
+      toEmail: input.toEmail,
+      subject: `An item you are waiting for in "${input.wishlistTitle}" is free`,
+      text: [
+        `${itemText} is no longer reserved.`,
+        "",
+        `You have first pick until ${expiresText}; after that it opens to every guest.`,
+        "",
+        `Open wishlist: ${input.shareUrl}`,
+      ].join("\n"),
+    });
+  }
+
+  if (input.kind === "hold_reminder") {
+    return sendNotificationEmail({
+      toEmail: input.toEmail,
+      subject: `Your reservation in "${input.wishlistTitle}" expires soon`,
+      text: [
+        `Your hold on ${itemText} expires ${expiresText}.`,
+        "",
+        "Mark it purchased or renew the hold from your shopping list to keep it.",
+        "",
+        `Shopping list: ${canonicalHost}/me/shopping-list`,
+        `Open wishlist: ${input.shareUrl}`,
+      ].join("\n"),
+    });
+  }
+
+  return sendNotificationEmail({
+    toEmail: input.toEmail,
+    subject: `Your reservation in "${input.wishlistTitle}" was released`,
+    text: [
+      `Your hold on ${itemText} expired ${expiresText} and the item is available to other guests again.`,
+      "",
+      `Open wishlist: ${input.shareUrl}`,
+    ].join("\n"),
+  });
+}
+
 export async function processArchivedReservationNotifications(input: {
   wishlistId: string;
   itemId: string;
@@ -361,6 +438,7 @@ export async function processArchivedReservationNotifications(input: {
         archived_item_title: input.archivedItemTitle,
         archived_item_price_cents: input.archivedItemPriceCents,
         suggested_item_ids: suggestedItemIds,
+        kind: "archived",
         status: "pending",
         created_at: input.archivedAt,
       })
@@ -376,7 +454,7 @@ export async function processArchivedReservationNotifications(input: {
 
   void Promise.all(
     insertedRows.map(async (row) => {
-      const actorEmail = await resolveUserEmailById(row.actor_user_id);
+      const actorEmail = await fetchUserEmailById(row.actor_user_id);
       if (!actorEmail) return;
 
       const suggestedTitles = (row.suggested_item_ids || [])
@@ -405,24 +483,20 @@ export async function processArchivedReservationNotifications(input: {
 
 export type PendingArchiveAlert = {
   id: string;
+  kind: ArchiveNotificationKind;
   archivedItemTitle: string;
   archivedItemPriceCents: number | null;
   suggestedItemIds: string[];
   createdAt: string;
 };
 
-export async function getLatestPendingArchiveAlert(input: { wishlistId: string; actorEmail: string }) {
-  const actorUserId = await resolveUserIdByEmail(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as const };
-  }
-
+export async function getLatestPendingArchiveAlert(input: { wishlistId: string; actorUserId: string }) {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("archive_notifications")
-    .select("id,archived_item_title,archived_item_price_cents,suggested_item_ids,created_at")
+    .select("id,kind,archived_item_title,archived_item_price_cents,suggested_item_ids,created_at")
     .eq("wishlist_id", input.wishlistId)
-    .eq("actor_user_id", actorUserId)
+    .eq("actor_user_id", input.actorUserId)
     .eq("status", "pending")
     .order("created_at", { ascending: false })
     .limit(1)
@@ -437,6 +511,10 @@ export async function getLatestPendingArchiveAlert(input: { wishlistId: string;
     ok: true as const,
     alert: {
       id: data.id,
+      kind:
+        data.kind === "hold_reminder" || data.kind === "hold_released" || data.kind === "waitlist_available"
+          ? data.kind
+          : "archived",
       archivedItemTitle: data.archived_item_title,
       archivedItemPriceCents: data.archived_item_price_cents,
       suggestedItemIds: Array.isArray(data.suggested_item_ids) ? data.suggested_item_ids : [],
@@ -445,12 +523,7 @@ export async function getLatestPendingArchiveAlert(input: { wishlistId: string;
   };
 }
 
-export async function markArchiveAlertSeen(input: { notificationId: string; wishlistId: string; actorEmail: string }) {
-  const actorUserId = await resolveUserIdByEmail(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as const };
-  }
-
+export async function markArchiveAlertSeen(input: { notificationId: string; wishlistId: string; actorUserId: string }) {
   const supabase = getSupabaseAdminClient();
   const { error } = await supabase
     .from("archive_notifications")
@@ -460,9 +533,368 @@ export async function markArchiveAlertSeen(input: { notificationId: string; wish
     })
     .eq("id", input.notificationId)
     .eq("wishlist_id", input.wishlistId)
-    .eq("actor_user_id", actorUserId)
+    .eq("actor_user_id", input.actorUserId)
     .eq("status", "pending");
 
   if (error) throw error;
   return { ok: true as const };
 }
+
+export async function pruneSeenArchiveNotifications(input: { retentionDays: number }) {
+  const safeRetentionDays = normalizeRetentionDays(input.retentionDays);
+  const supabase = getSupabaseAdminClient();
+  const { count, error } = await supabase
+    .from("archive_notifications")
+    .delete({ count: "exact" })
+    .eq("status", "seen")
+    .lt("seen_at", retentionCutoffIso(safeRetentionDays));
+
+  if (error) throw error;
+
+  return {
+    removedCount: count ?? 0,
+    retentionDays: safeRetentionDays,
+  };
+}
+
+function holdReminderLeadMs() {
+  return parsePositiveInt(process.env.RESERVATION_HOLD_REMINDER_HOURS, DEFAULT_HOLD_REMINDER_HOURS) * 60 * 60 * 1000;
+}
+
+async function listExpiringHolds(input: { afterIso?: string; beforeIso: string; limit: number }) {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("reservations")
+    .select("id,wishlist_id,item_id,user_id,hold_expires_at,items(title,price_cents,archived_at)")
+    .eq("status", "active")
+    .not("hold_expires_at", "is", null)
+    .lte("hold_expires_at", input.beforeIso);
+
+  if (input.afterIso) query = query.gt("hold_expires_at", input.afterIso).is("hold_reminded_at", null);
+
+  const { data, error } = await query.order("hold_expires_at", { ascending: true }).limit(input.limit);
+  if (error) throw error;
+  return (data || []) as unknown as ExpiringHoldRow[];
+}
+
+async function listItemsWithLapsedHeadStarts(input: { beforeIso: string; limit: number }) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservation_waitlist")
+    .select("item_id,wishlist_id")
+    .eq("status", "notified")
+    .lte("head_start_expires_at", input.beforeIso)
+    .order("head_start_expires_at", { ascending: true })
+    .limit(input.limit);
+
+  if (error) throw error;
+
+  const itemsById = new Map<string, { item_id: string; wishlist_id: string }>();
+  for (const row of (data || []) as Array<{ item_id: string; wishlist_id: string }>) {
+    if (!itemsById.has(row.item_id)) itemsById.set(row.item_id, row);
+  }
+  return [...itemsById.values()];
+}
+
+async function notifyReserver(input: {
+  kind: ReserverNotificationKind;
+  wishlistId: string;
+  itemId: string;
+  actorUserId: string;
+  itemTitle: string;
+  itemPriceCents: number | null;
+  expiresAt: string;
+  createdAt: string;
+}) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("archive_notifications")
+    .insert({
+      wishlist_id: input.wishlistId,
+      item_id: input.itemId,
+      actor_user_id: input.actorUserId,
+      archived_item_title: input.itemTitle,
+      archived_item_price_cents: input.itemPriceCents,
+      suggested_item_ids: [],
+      kind: input.kind,
+      status: "pending",
+      created_at: input.createdAt,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) throw error || new Error("Unable to record reserver notification.");
+
+  const [wishlist, shareToken, actorEmail] = await Promise.all([
+    getWishlistRecordById(input.wishlistId),
+    getPublicShareTokenForWishlist(input.wishlistId),
+    fetchUserEmailById(input.actorUserId),
+  ]);
+  if (!wishlist || !shareToken || !actorEmail) return;
+
+  const emailResult = await sendReserverEmail({
+    kind: input.kind,
+    toEmail: actorEmail,
+    wishlistTitle: wishlist.title,
+    itemTitle: input.itemTitle,
+    itemPriceCents: input.itemPriceCents,
+    expiresAt: input.expiresAt,
+    shareUrl: buildPublicShareUrl(normalizeCanonicalHost(process.env.CANONICAL_HOST), shareToken),
+  });
+
+  await supabase
+    .from("archive_notifications")
+    .update({
+      emailed_at: emailResult.sent ? new Date().toISOString() : null,
+      email_error: emailResult.sent ? null : emailResult.errorMessage || "Unable to send email.",
+    })
+    .eq("id", (data as { id: string }).id);
+}
+
+async function remindExpiringHold(row: ExpiringHoldRow, nowIso: string): Promise<ReservationHoldSweepOutcome> {
+  const base = {
+    reservationId: row.id,
+    itemId: row.item_id,
+    wishlistId: row.wishlist_id,
+    holdExpiresAt: row.hold_expires_at,
+  };
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservations")
+    .update({ hold_reminded_at: nowIso })
+    .eq("id", row.id)
+    .eq("status", "active")
+    .eq("hold_expires_at", row.hold_expires_at)
+    .is("hold_reminded_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !row.items || row.items.archived_at) return { ...base, result: "skipped" };
+
+  try {
+    await notifyReserver({
+      kind: "hold_reminder",
+      wishlistId: row.wishlist_id,
+      itemId: row.item_id,
+      actorUserId: row.user_id,
+      itemTitle: row.items.title,
+      itemPriceCents: row.items.price_cents,
+      expiresAt: row.hold_expires_at,
+      createdAt: nowIso,
+    });
+  } catch (notifyError) {
+    const { error: releaseError } = await supabase
+      .from("reservations")
+      .update({ hold_reminded_at: null })
+      .eq("id", row.id)
+      .eq("hold_reminded_at", nowIso);
+
+    if (releaseError) {
+      console.warn("hold_reminder_release_failed", {
+        reservationId: row.id,
+        error: releaseError.message,
+      });
+    }
+
+    throw notifyError;
+  }
+
+  return { ...base, result: "reminded" };
+}
+
+async function releaseExpiredHold(row: ExpiringHoldRow, nowIso: string): Promise<ReservationHoldSweepOutcome> {
+  const base = {
+    reservationId: row.id,
+    itemId: row.item_id,
+    wishlistId: row.wishlist_id,
+    holdExpiresAt: row.hold_expires_at,
+  };
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .rpc("release_expired_reservation_hold", {
+      p_reservation_id: row.id,
+      p_now: nowIso,
+      p_head_start_minutes: waitlistHeadStartMinutes(),
+    })
+    .single();
+
+  if (error) throw error;
+
+  const result = data as ReleaseHoldFunctionRow;
+  if (result.outcome !== "RELEASED") return { ...base, result: "skipped" };
+
+  try {
+    await insertAuditEvent({
+      actorUserId: null,
+      wishlistId: row.wishlist_id,
+      entityType: "item",
+      entityId: row.item_id,
+      action: "release_expired_hold",
+      after: {
+        reservationId: row.id,
+        holdExpiresAt: row.hold_expires_at,
+      },
+    });
+  } catch (auditError) {
+    console.warn("audit_event_write_failed", {
+      action: "release_expired_hold",
+      entityId: row.item_id,
+      wishlistId: row.wishlist_id,
+      error: auditError instanceof Error ? auditError.message : "unknown",
+    });
+  }
+
+  await notifyReserver({
+    kind: "hold_released",
+    wishlistId: row.wishlist_id,
+    itemId: row.item_id,
+    actorUserId: row.user_id,
+    itemTitle: result.item_title || row.items?.title || "Item",
+    itemPriceCents: result.item_price_cents,
+    expiresAt: row.hold_expires_at,
+    createdAt: nowIso,
+  });
+
+  try {
+    await notifyWaitlistHeadStarts(result.head_starts || [], nowIso);
+  } catch (error) {
+    console.warn("waitlist_head_start_notify_failed", {
+      itemId: row.item_id,
+      wishlistId: row.wishlist_id,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+
+  return { ...base, result: "released" };
+}
+
+export function waitlistHeadStartMinutes() {
+  return parsePositiveInt(process.env.WAITLIST_HEAD_START_MINUTES, DEFAULT_WAITLIST_HEAD_START_MINUTES);
+}
+
+export async function grantWaitlistHeadStarts(input: { itemId: string; now?: Date }) {
+  const nowIso = (input.now ?? new Date()).toISOString();
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("grant_waitlist_head_start", {
+    p_item_id: input.itemId,
+    p_now: nowIso,
+    p_head_start_minutes: waitlistHeadStartMinutes(),
+  });
+
+  if (error) throw error;
+
+  return notifyWaitlistHeadStarts((data || []) as WaitlistHeadStartRow[], nowIso);
+}
+
+export async function notifyWaitlistHeadStarts(rows: WaitlistHeadStartRow[], nowIso: string) {
+  for (const row of rows) {
+    try {
+      await insertAuditEvent({
+        actorUserId: null,
+        wishlistId: row.wishlist_id,
+        entityType: "item",
+        entityId: row.item_id,
+        action: "grant_waitlist_head_start",
+        after: {
+          waitlistId: row.waitlist_id,
+          headStartExpiresAt: row.head_start_expires_at,
+        },
+      });
+    } catch (auditError) {
+      console.warn("audit_event_write_failed", {
+        action: "grant_waitlist_head_start",
+        entityId: row.item_id,
+        wishlistId: row.wishlist_id,
+        error: auditError instanceof Error ? auditError.message : "unknown",
+      });
+    }
+
+    await notifyReserver({
+      kind: "waitlist_available",
+      wishlistId: row.wishlist_id,
+      itemId: row.item_id,
+      actorUserId: row.user_id,
+      itemTitle: row.item_title,
+      itemPriceCents: row.item_price_cents,
+      expiresAt: row.head_start_expires_at,
+      createdAt: nowIso,
+    });
+  }
+
+  return rows.length;
+}
+
+export async function sweepReservationHolds(input?: { now?: Date; limit?: number }) {
+  const now = input?.now ?? new Date();
+  const nowIso = now.toISOString();
+  const limit = Math.min(Math.max(input?.limit ?? HOLD_SWEEP_BATCH_LIMIT, 1), 500);
+  const outcomes: ReservationHoldSweepOutcome[] = [];
+
+  const steps: Array<{
+    rows: ExpiringHoldRow[];
+    apply: (row: ExpiringHoldRow, nowIso: string) => Promise<ReservationHoldSweepOutcome>;
+  }> = [
+    {
+      rows: await listExpiringHolds({ beforeIso: nowIso, limit }),
+      apply: releaseExpiredHold,
+    },
+    {
+      rows: await listExpiringHolds({
+        afterIso: nowIso,
+        beforeIso: new Date(now.getTime() + holdReminderLeadMs()).toISOString(),
+        limit,
+      }),
+      apply: remindExpiringHold,
+    },
+  ];
+
+  for (const step of steps) {
+    for (const row of step.rows) {
+      try {
+        outcomes.push(await step.apply(row, nowIso));
+      } catch (error) {
+        console.warn("reservation_hold_sweep_failed", {
+          reservationId: row.id,
+          itemId: row.item_id,
+          error: error instanceof Error ? error.message : "unknown",
+        });
+        outcomes.push({
+          reservationId: row.id,
+          itemId: row.item_id,
+          wishlistId: row.wishlist_id,
+          result: "failed",
+          holdExpiresAt: row.hold_expires_at,
+        });
+      }
+    }
+  }
+
+  let lapsedHeadStartItemCount = 0;
+  let headStartsGrantedCount = 0;
+  for (const row of await listItemsWithLapsedHeadStarts({ beforeIso: nowIso, limit })) {
+    try {
+      headStartsGrantedCount += await grantWaitlistHeadStarts({ itemId: row.item_id, now });
+      lapsedHeadStartItemCount += 1;
+    } catch (error) {
+      console.warn("waitlist_head_start_failed", {
+        itemId: row.item_id,
+        wishlistId: row.wishlist_id,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
+
+  return {
+    sweptAt: nowIso,
+    scannedCount: outcomes.length,
+    remindedCount: outcomes.filter((outcome) => outcome.result === "reminded").length,
+    releasedCount: outcomes.filter((outcome) => outcome.result === "released").length,
+    failedCount: outcomes.filter((outcome) => outcome.result === "failed").length,
+    lapsedHeadStartItemCount,
+    headStartsGrantedCount,
+    outcomes,
+  };
+}
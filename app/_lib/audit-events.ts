@@ -0,0 +1,129 @@
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+
+export type AuditEntityType = "item" | "share_link" | "profile";
+
+export type StoredAuditEvent = {
+  id: string;
+  actorUserId: string | null;
+  wishlistId: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+type AuditEventRow = {
+  id: string;
+  actor_user_id: string | null;
+  wishlist_id: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  action: string;
+  after: Record<string, unknown> | null;
+  created_at: string;
+};
+
+const MAX_RETENTION_DAYS = 3650;
+
+function auditEventSelectColumns() {
+  return ["id", "actor_user_id", "wishlist_id", "entity_type", "entity_id", "action", "after", "created_at"].join(",");
+}
+
+function mapAuditEventRow(row: AuditEventRow): StoredAuditEvent {
+  return {
+    id: row.id,
+    actorUserId: row.actor_user_id,
+    wishlistId: row.wishlist_id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    action: row.action,
+    after: row.after && typeof row.after === "object" ? row.after : null,
+    createdAt: row.created_at,
+  };
+}
+
+export function normalizeRetentionDays(retentionDays: number) {
+  return Math.min(Math.max(Math.floor(retentionDays), 1), MAX_RETENTION_DAYS);
+}
+
+export async function insertAuditEvent(input: {
+  actorUserId: string | null;
+  wishlistId: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  after?: Record<string, unknown> | null;
+  createdAt?: string;
+}): Promise<StoredAuditEvent> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("audit_events")
+    .insert({
+      actor_user_id: input.actorUserId,
+      wishlist_id: input.wishlistId,
+      entity_type: input.entityType,
+      entity_id: input.entityId,
+      action: input.action,
+      after: input.after ?? null,
+      created_at: input.createdAt || new Date().toISOString(),
+    })
+    .select(auditEventSelectColumns())
+    .single();
+
+  if (error || !data) {
+    throw error || new Error("Unable to write audit event.");
+  }
+
+  return mapAuditEventRow(data as unknown as AuditEventRow);
+}
+
+export async function listAuditEvents(input: {
+  entityType: AuditEntityType;
+  wishlistId?: string;
+  action?: string;
+  since?: string;
+  limit?: number;
+}): Promise<StoredAuditEvent[]> {
+  const limit = Math.min(Math.max(input.limit ?? 200, 1), 500);
+  const supabase = getSupabaseAdminClient();
+  let query = supabase.from("audit_events").select(auditEventSelectColumns()).eq("entity_type", input.entityType);
+
+  if (input.wishlistId) {
+    query = query.eq("wishlist_id", input.wishlistId);
+  }
+  if (input.action) {
+    query = query.eq("action", input.action);
+  }
+  if (input.since) {
+    query = query.gte("created_at", input.since);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  return ((data || []) as unknown as AuditEventRow[]).map(mapAuditEventRow);
+}
+
+export function retentionCutoffIso(retentionDays: number, now = Date.now()) {
+  return new Date(now - normalizeRetentionDays(retentionDays) * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function pruneAuditEvents(input: { entityType?: AuditEntityType; retentionDays: number }) {
+  const safeRetentionDays = normalizeRetentionDays(input.retentionDays);
+  const cutoffIso = retentionCutoffIso(safeRetentionDays);
+
+  const supabase = getSupabaseAdminClient();
+  let query = supabase.from("audit_events").delete({ count: "exact" }).lt("created_at", cutoffIso);
+  if (input.entityType) {
+    query = query.eq("entity_type", input.entityType);
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+
+  return {
+    removedCount: count ?? 0,
+    retentionDays: safeRetentionDays,
+  };
+}
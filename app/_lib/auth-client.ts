@@ -123,6 +123,15 @@ export async function getAuthenticatedOwnerHeaders(): Promise<Record<string, str
   };
 }
 
+export async function getAuthenticatedActorHeaders(): Promise<Record<string, string> | null> {
+  const identity = await getAuthenticatedIdentity();
+  if (!identity) return null;
+
+  return {
+    authorization: `Bearer ${identity.accessToken}`,
+  };
+}
+
 export async function signOut(): Promise<void> {
   if (typeof window === "undefined") return;
 
@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+
+export type IdempotencyClaimResult =
+  | {
+      kind: "claimed";
+    }
+  | {
+      kind: "payload_mismatch";
+    }
+  | {
+      kind: "in_progress";
+    }
+  | {
+      kind: "cached";
+      status: number;
+      body: unknown;
+    };
+
+type IdempotencyKeyInput = {
+  scope: string;
+  actorUserId: string;
+  key: string;
+};
+
+type IdempotencyKeyRow = {
+  payload_hash: string;
+  status: "pending" | "completed";
+  response_status: number | null;
+  response_body: unknown;
+  expires_at: string;
+};
+
+const CLAIM_ATTEMPTS = 3;
+
+function hashPayload(payload: unknown): string {
+  const normalized = JSON.stringify(payload ?? null);
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function keyMatch(input: IdempotencyKeyInput) {
+  return {
+    scope: input.scope,
+    actor_user_id: input.actorUserId,
+    key: input.key,
+  };
+}
+
+async function findIdempotencyRow(input: IdempotencyKeyInput): Promise<IdempotencyKeyRow | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("idempotency_keys")
+    .select("payload_hash,status,response_status,response_body,expires_at")
+    .match(keyMatch(input))
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw error;
+  }
+
+  return (data as unknown as IdempotencyKeyRow | null) || null;
+}
+
+export async function claimIdempotencyKey(
+  input: IdempotencyKeyInput & {
+    payload: unknown;
+    ttlSec: number;
+  },
+): Promise<IdempotencyClaimResult> {
+  const supabase = getSupabaseAdminClient();
+  const payloadHash = hashPayload(input.payload);
+
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt += 1) {
+    const now = Date.now();
+    const { error } = await supabase.from("idempotency_keys").insert({
+      ...keyMatch(input),
+      payload_hash: payloadHash,
+      status: "pending",
+      expires_at: new Date(now + input.ttlSec * 1000).toISOString(),
+    });
+
+    if (!error) return { kind: "claimed" };
+    if (error.code !== "23505") throw error;
+
+    const existing = await findIdempotencyRow(input);
+    if (!existing) continue;
+
+    if (Date.parse(existing.expires_at) <= now) {
+      // Only the caller that removes this exact expired row gets to retry the insert first.
+      const { error: deleteError } = await supabase
+        .from("idempotency_keys")
+        .delete()
+        .match(keyMatch(input))
+        .eq("expires_at", existing.expires_at);
+      if (deleteError) throw deleteError;
+      continue;
+    }
+
+    if (existing.payload_hash !== payloadHash) return { kind: "payload_mismatch" };
+
+    if (existing.status === "completed" && existing.response_status !== null) {
+      return {
+        kind: "cached",
+        status: existing.response_status,
+        body: existing.response_body,
+      };
+    }
+
+    return { kind: "in_progress" };
+  }
+
+  return { kind: "in_progress" };
+}
+
+export async function completeIdempotencyKey(
+  input: IdempotencyKeyInput & {
+    status: number;
+    body: unknown;
+  },
+) {
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .update({
+      status: "completed",
+      response_status: input.status,
+      response_body: input.body,
+    })
+    .match(keyMatch(input))
+    .eq("status", "pending");
+
+  if (error) throw error;
+}
+
+export async function releaseIdempotencyKey(input: IdempotencyKeyInput) {
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .match(keyMatch(input))
+    .eq("status", "pending");
+
+  if (error) throw error;
+}
+
+export async function finalizeIdempotencyKey(
+  input: IdempotencyKeyInput & {
+    response: { status: number; body: unknown } | null;
+  },
+) {
+  if (input.response) {
+    await completeIdempotencyKey({ ...input, ...input.response });
+    return;
+  }
+
+  await releaseIdempotencyKey(input);
+}
+
+export async function pruneExpiredIdempotencyKeys() {
+  const supabase = getSupabaseAdminClient();
+  const { count, error } = await supabase
+    .from("idempotency_keys")
+    .delete({ count: "exact" })
+    .lt("expires_at", new Date().toISOString());
+
+  if (error) throw error;
+
+  return {
+    removedCount: count ?? 0,
+  };
+}
@@ -1,13 +1,32 @@
-import { createHash, randomUUID } from "node:crypto";
-
-import { processArchivedReservationNotifications } from "@/app/_lib/archive-alerts";
+import { randomUUID } from "node:crypto";
+
+import {
+  notifyWaitlistHeadStarts,
+  processArchivedReservationNotifications,
+  waitlistHeadStartMinutes,
+  type WaitlistHeadStartRow,
+} from "@/app/_lib/archive-alerts";
+import {
+  insertAuditEvent,
+  listAuditEvents,
+  normalizeRetentionDays,
+  pruneAuditEvents,
+  retentionCutoffIso,
+} from "@/app/_lib/audit-events";
 import { getSupabaseAdminClient, getSupabaseStorageBucket } from "@/app/_lib/supabase-admin";
-import { listWishlistRecords } from "@/app/_lib/wishlist-store";
+import { fetchUserEmailsByIds, resolveUserIdByEmail } from "@/app/_lib/user-directory";
+import { getWishlistRecordById, reservationHoldExpiresAt } from "@/app/_lib/wishlist-store";
+
+export type ShortfallPolicy = "owner_decides" | "auto_extend_7d" | "auto_archive";
+
+export type FundingOverflowMode = "cap" | "allow" | "allow_percent";
+
+export type ContributionFulfillmentStatus = "pledged" | "paid" | "confirmed";
 
 export type ItemRecord = {
   id: string;
   wishlistId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   title: string;
   description: string | null;
   url: string | null;
@@ -17,7 +36,12 @@ export type ItemRecord = {
   isGroupFunded: boolean;
   targetCents: number | null;
   fundingDeadlineAt: string | null;
-  shortfallPolicy: "owner_decides" | "auto_extend_7d" | "auto_archive";
+  shortfallPolicy: ShortfallPolicy;
+  fundingOverflowMode: FundingOverflowMode;
+  fundingOverflowPercent: number | null;
+  quantityDesired: number;
+  organizerUserId: string | null;
+  paymentInstructions: string | null;
   fundedCents: number;
   contributorCount: number;
   archivedAt: string | null;
@@ -25,6 +49,34 @@ export type ItemRecord = {
   updatedAt: string;
 };
 
+export type OwnerStreamItem = Pick<
+  ItemRecord,
+  | "id"
+  | "wishlistId"
+  | "title"
+  | "description"
+  | "url"
+  | "priceCents"
+  | "imageUrl"
+  | "imageUrls"
+  | "isGroupFunded"
+  | "targetCents"
+  | "fundingDeadlineAt"
+  | "shortfallPolicy"
+  | "fundingOverflowMode"
+  | "fundingOverflowPercent"
+  | "quantityDesired"
+  | "organizerUserId"
+  | "paymentInstructions"
+  | "archivedAt"
+  | "createdAt"
+> & {
+  availability: "available" | "reserved";
+  quantityRemaining: number;
+  hasContributions: boolean;
+  fundingReached: boolean;
+};
+
 type ItemRow = {
   id: string;
   wishlist_id: string;
@@ -37,27 +89,27 @@ type ItemRow = {
   is_group_funded: boolean;
   target_cents: number | null;
   funding_deadline_at: string | null;
-  shortfall_policy: "owner_decides" | "auto_extend_7d" | "auto_archive";
+  shortfall_policy: ShortfallPolicy;
+  funding_overflow_mode: FundingOverflowMode;
+  funding_overflow_percent: number | null;
+  quantity_desired: number | null;
+  organizer_user_id: string | null;
+  payment_instructions: string | null;
   archived_at: string | null;
   created_at: string;
   updated_at: string;
 };
 
-type ReservationRow = {
-  id: string;
-  wishlist_id: string;
-  item_id: string;
-  user_id: string;
-  status: "active" | "released";
-  created_at: string;
-  updated_at: string;
-};
-
 type ContributionRow = {
   id: string;
   item_id: string;
   user_id: string;
   amount_cents: number;
+  reverses_contribution_id: string | null;
+  fulfillment_status: ContributionFulfillmentStatus;
+  payment_method: string | null;
+  paid_at: string | null;
+  confirmed_at: string | null;
   created_at: string;
 };
 
@@ -70,14 +122,36 @@ type WishlistOpenRow = {
   open_count: number;
 };
 
-export type ItemAuditAction = "create" | "update" | "archive" | "reserve" | "unreserve" | "contribute";
+export type ItemAuditAction =
+  | "create"
+  | "update"
+  | "archive"
+  | "reserve"
+  | "unreserve"
+  | "mark_purchased"
+  | "unmark_purchased"
+  | "renew_hold"
+  | "release_expired_hold"
+  | "join_waitlist"
+  | "leave_waitlist"
+  | "grant_waitlist_head_start"
+  | "contribute"
+  | "withdraw_contribution"
+  | "reduce_contribution"
+  | "mark_contribution_paid"
+  | "confirm_contribution"
+  | "set_organizer"
+  | "set_payment_instructions"
+  | "auto_extend_deadline"
+  | "auto_archive";
 
 export type ItemAuditEvent = {
   id: string;
   action: ItemAuditAction;
   wishlistId: string;
   entityId: string;
-  ownerEmail: string;
+  actorUserId: string | null;
+  actorEmail: string;
   createdAt: string;
 };
 
@@ -85,7 +159,7 @@ type StoredImage = {
   path: string;
   itemId: string;
   wishlistId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   contentType: string;
   sizeBytes: number;
   dataBase64: string;
@@ -96,7 +170,7 @@ type StoredImage = {
 type UploadTicket = {
   token: string;
   itemId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   path: string;
   mimeType: string;
   maxBytes: number;
@@ -110,38 +184,37 @@ type PreviewTicket = {
   expiresAt: number;
 };
 
-export type ReservationRecord = {
+export type ContributionRecord = {
   id: string;
   wishlistId: string;
   itemId: string;
-  actorEmail: string;
-  status: "active" | "released";
+  actorUserId: string;
+  amountCents: number;
+  reversesContributionId: string | null;
   createdAt: string;
-  updatedAt: string;
 };
 
-export type ContributionRecord = {
-  id: string;
-  wishlistId: string;
+export type ActorPledge = {
+  contributionId: string;
   itemId: string;
-  actorEmail: string;
+  originalAmountCents: number;
   amountCents: number;
+  fulfillmentStatus: ContributionFulfillmentStatus;
+  paymentMethod: string | null;
+  paymentInstructions: string | null;
   createdAt: string;
+  changeableUntil: string;
 };
 
-type IdempotencyRecord = {
-  scope: string;
-  actorEmail: string;
-  key: string;
-  payloadHash: string;
-  status: number;
-  body: unknown;
-  expiresAt: number;
-};
-
-type RateLimitWindow = {
-  count: number;
-  windowStartedAt: number;
+export type OrganizerLedgerEntry = {
+  contributionId: string;
+  contributorEmail: string;
+  amountCents: number;
+  fulfillmentStatus: ContributionFulfillmentStatus;
+  paymentMethod: string | null;
+  paidAt: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
 };
 
 export type PrepareImageUploadError =
@@ -167,9 +240,103 @@ export type UploadItemImageError =
 export type CreatePreviewError = "NOT_FOUND" | "FORBIDDEN";
 export type ResolvePreviewError = "INVALID_PREVIEW_TOKEN" | "NOT_FOUND";
 
-export type ReservationMutationError = "NOT_FOUND" | "ARCHIVED" | "ALREADY_RESERVED" | "NO_ACTIVE_RESERVATION" | "ACTOR_NOT_FOUND";
+export type ReservationMutationError =
+  | "NOT_FOUND"
+  | "ARCHIVED"
+  | "ALREADY_RESERVED"
+  | "QUANTITY_UNAVAILABLE"
+  | "NO_ACTIVE_RESERVATION";
+
+type ReservationFunctionRow = {
+  outcome: "RESERVED" | "ALREADY_ACTIVE" | "RELEASED" | ReservationMutationError;
+  reservation_id: string | null;
+  item_updated_at: string | null;
+  quantity_remaining?: number | null;
+  head_starts?: WaitlistHeadStartRow[] | null;
+};
+
+export type PurchaseMutationError = "NOT_FOUND" | "NO_ACTIVE_RESERVATION";
+
+export type WaitlistMutationError = "NOT_FOUND" | "ARCHIVED" | "ALREADY_ACTIVE" | "AVAILABLE" | "NOT_WAITLISTED";
+
+type JoinWaitlistFunctionRow = {
+  outcome: "WAITLISTED" | "ALREADY_WAITLISTED" | Exclude<WaitlistMutationError, "NOT_WAITLISTED">;
+  waitlist_id: string | null;
+  waitlist_position: number | null;
+};
+
+export type WaitlistEntry = {
+  itemId: string;
+  status: "waiting" | "notified";
+  headStartExpiresAt: string | null;
+};
+
+export type RenewHoldError = "NOT_FOUND" | "NO_ACTIVE_RESERVATION" | "ALREADY_PURCHASED";
+
+export type ShoppingListEntry = {
+  reservationId: string;
+  itemId: string;
+  itemTitle: string;
+  itemUrl: string | null;
+  priceCents: number | null;
+  quantity: number;
+  wishlistId: string;
+  wishlistTitle: string | null;
+  occasionDate: string | null;
+  status: "active" | "purchased";
+  purchasedAt: string | null;
+  holdExpiresAt: string | null;
+  updatedAt: string;
+};
+
+export type ContributionMutationError = "NOT_FOUND" | "ARCHIVED" | "NOT_GROUP_FUNDED" | "INVALID_AMOUNT" | "OVER_TARGET";
+
+type ContributionFunctionRow = {
+  outcome: "CONTRIBUTED" | ContributionMutationError;
+  contribution_id: string | null;
+  created_at: string | null;
+  max_allowed_cents: number | null;
+};
+
+export type ContributionReversalError =
+  | "NOT_FOUND"
+  | "ARCHIVED"
+  | "WINDOW_CLOSED"
+  | "ALREADY_WITHDRAWN"
+  | "ALREADY_PAID"
+  | "INVALID_AMOUNT";
+
+type ReverseContributionFunctionRow = {
+  outcome: "REVERSED" | ContributionReversalError;
+  reversal_id: string | null;
+  item_id: string | null;
+  amount_cents: number | null;
+  remaining_cents: number | null;
+  created_at: string | null;
+};
+
+export type ContributionFulfillmentAction = "mark_paid" | "confirm";
 
-export type ContributionMutationError = "NOT_FOUND" | "ARCHIVED" | "NOT_GROUP_FUNDED" | "INVALID_AMOUNT" | "ACTOR_NOT_FOUND";
+export type ContributionFulfillmentError =
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "WITHDRAWN"
+  | "ALREADY_CONFIRMED"
+  | "INVALID_ACTION"
+  | "INVALID_PAYMENT_METHOD";
+
+type ContributionFulfillmentFunctionRow = {
+  outcome: "UPDATED" | Exclude<ContributionFulfillmentError, "INVALID_PAYMENT_METHOD">;
+  item_id: string | null;
+  fulfillment_status: ContributionFulfillmentStatus | null;
+  item_updated_at: string | null;
+};
+
+export type OrganizerLedgerError = "NOT_FOUND" | "FORBIDDEN";
+
+export type SetPaymentInstructionsError = "NOT_FOUND" | "FORBIDDEN" | "ARCHIVED" | "TOO_LONG";
+
+export type SetOrganizerError = "NOT_FOUND" | "FORBIDDEN" | "NOT_GROUP_FUNDED" | "ORGANIZER_NOT_FOUND" | "ORGANIZER_IS_OWNER";
 
 export type ResolveShortfallAction = "extend_7d" | "lower_target_to_funded" | "archive_item";
 
@@ -181,6 +348,14 @@ export type ResolveShortfallError =
   | "TARGET_ALREADY_REACHED"
   | "ARCHIVED";
 
+export type FundingDeadlineSweepOutcome = {
+  itemId: string;
+  wishlistId: string;
+  policy: "auto_extend_7d" | "auto_archive";
+  result: "extended" | "archived" | "skipped_funded" | "skipped_conflict" | "failed";
+  fundingDeadlineAt: string | null;
+};
+
 export type PublicItemReadModel = {
   id: string;
   title: string;
@@ -190,55 +365,66 @@ export type PublicItemReadModel = {
   priceCents: number | null;
   isGroupFunded: boolean;
   targetCents: number | null;
+  fundingDeadlineAt: string | null;
   fundedCents: number;
+  paidCents: number;
   contributorCount: number;
   progressRatio: number;
+  remainingCents: number | null;
+  maxContributionCents: number | null;
+  quantityDesired: number;
+  quantityReserved: number;
+  quantityRemaining: number;
   availability: "available" | "reserved";
   updatedAt: string;
 };
 
 export type ActivityEntry = {
   id: string;
+  rowId: string;
   kind: "reservation" | "contribution" | "visit";
-  action: "reserved" | "unreserved" | "contributed" | "opened_wishlist";
+  action:
+    | "reserved"
+    | "purchased"
+    | "unreserved"
+    | "contributed"
+    | "withdrew_pledge"
+    | "reduced_pledge"
+    | "opened_wishlist";
   wishlistId: string;
+  wishlistTitle: string | null;
   itemId: string | null;
   itemTitle: string | null;
   amountCents: number | null;
-  status: "active" | "released" | null;
+  status: "active" | "purchased" | "released" | null;
   openCount: number | null;
   happenedAt: string;
 };
 
-export type IdempotencyReadResult =
-  | {
-      kind: "miss";
-    }
-  | {
-      kind: "payload_mismatch";
-    }
-  | {
-      kind: "cached";
-      status: number;
-      body: unknown;
-    };
+export type ActivityStatusFilter = "all" | "active";
+
+export type ActivityPage = {
+  entries: ActivityEntry[];
+  nextCursor: string | null;
+};
 
 const STORAGE_PREFIX = "storage://";
-const RATE_LIMIT_WINDOW_MS = 60_000;
 const ITEM_IMAGE_LIMIT = 10;
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const FUNDING_EXTENSION_DAYS = 7;
+const FUNDING_SWEEP_BATCH_LIMIT = 100;
+const ACTIVITY_PAGE_SIZE = 25;
+const ACTIVITY_PAGE_SIZE_MAX = 100;
+const DEFAULT_PLEDGE_CHANGE_WINDOW_HOURS = 24;
+const MAX_PAYMENT_METHOD_LENGTH = 200;
+const MAX_PAYMENT_INSTRUCTIONS_LENGTH = 500;
+const HELD_RESERVATION_STATUSES = ["active", "purchased"];
 
 type ItemStore = {
   items: ItemRecord[];
-  auditEvents: ItemAuditEvent[];
   images: StoredImage[];
   uploadTickets: UploadTicket[];
   previewTickets: PreviewTicket[];
-  reservations: ReservationRecord[];
   contributions: ContributionRecord[];
-  authUserIdByEmail: Record<string, string | null>;
-  idempotency: IdempotencyRecord[];
-  rateLimits: Record<string, RateLimitWindow>;
 };
 
 declare global {
@@ -254,15 +440,10 @@ function getStore(): ItemStore {
   const store = globalThis.__itemStore;
 
   if (!store.items) store.items = [];
-  if (!store.auditEvents) store.auditEvents = [];
   if (!store.images) store.images = [];
   if (!store.uploadTickets) store.uploadTickets = [];
   if (!store.previewTickets) store.previewTickets = [];
-  if (!store.reservations) store.reservations = [];
   if (!store.contributions) store.contributions = [];
-  if (!store.authUserIdByEmail) store.authUserIdByEmail = {};
-  if (!store.idempotency) store.idempotency = [];
-  if (!store.rateLimits) store.rateLimits = {};
 
   return store as ItemStore;
 }
@@ -281,10 +462,6 @@ function parsePositiveInt(raw: string | undefined, fallback: number): number {
   return Math.floor(parsed);
 }
 
-function normalizeEmail(value: string | null | undefined): string {
-  return (value || "").trim().toLowerCase();
-}
-
 function publicImageSignedUrlTtlSec(): number {
   const parsed = parsePositiveInt(process.env.PUBLIC_IMAGE_SIGNED_URL_TTL_SEC, 3600);
   return Math.min(Math.max(parsed, 60), 86400);
@@ -304,66 +481,48 @@ function itemSelectColumns() {
     "target_cents",
     "funding_deadline_at",
     "shortfall_policy",
+    "funding_overflow_mode",
+    "funding_overflow_percent",
+    "quantity_desired",
+    "organizer_user_id",
+    "payment_instructions",
     "archived_at",
     "created_at",
     "updated_at",
   ].join(",");
 }
 
-function reservationSelectColumns() {
-  return ["id", "wishlist_id", "item_id", "user_id", "status", "created_at", "updated_at"].join(",");
-}
-
 function contributionSelectColumns() {
-  return ["id", "item_id", "user_id", "amount_cents", "created_at"].join(",");
+  return [
+    "id",
+    "item_id",
+    "user_id",
+    "amount_cents",
+    "reverses_contribution_id",
+    "fulfillment_status",
+    "payment_method",
+    "paid_at",
+    "confirmed_at",
+    "created_at",
+  ].join(",");
 }
 
 function wishlistOpenSelectColumns() {
   return ["id", "wishlist_id", "user_id", "first_opened_at", "last_opened_at", "open_count"].join(",");
 }
 
-async function resolveActorUserId(actorEmail: string): Promise<string | null> {
-  const normalizedEmail = normalizeEmail(actorEmail);
-  if (!EMAIL_REGEX.test(normalizedEmail)) return null;
-
-  const store = getStore();
-  if (Object.prototype.hasOwnProperty.call(store.authUserIdByEmail, normalizedEmail)) {
-    return store.authUserIdByEmail[normalizedEmail] || null;
-  }
-
-  const supabase = getSupabaseAdminClient();
-  const perPage = 200;
-  let page = 1;
-
-  for (let guard = 0; guard < 200; guard += 1) {
-    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
-    if (error) break;
-
-    const users = data?.users || [];
-    const found = users.find((candidate) => normalizeEmail(candidate.email) === normalizedEmail);
-    if (found?.id) {
-      store.authUserIdByEmail[normalizedEmail] = found.id;
-      return found.id;
-    }
-
-    if (!data?.nextPage || users.length === 0) break;
-    page = data.nextPage;
-  }
-
-  store.authUserIdByEmail[normalizedEmail] = null;
-  return null;
-}
-
-function mapItemRowToRecord(row: ItemRow, ownerEmail: string): ItemRecord {
+function mapItemRowToRecord(row: ItemRow, ownerUserId: string): ItemRecord {
   const normalizedImages = normalizeImageUrls([...(row.image_urls || []), row.image_url]);
   const normalizedPolicy =
     row.shortfall_policy === "auto_extend_7d" || row.shortfall_policy === "auto_archive"
       ? row.shortfall_policy
       : "owner_decides";
+  const overflowMode =
+    row.funding_overflow_mode === "allow" || row.funding_overflow_mode === "allow_percent" ? row.funding_overflow_mode : "cap";
   return {
     id: row.id,
     wishlistId: row.wishlist_id,
-    ownerEmail,
+    ownerUserId,
     title: row.title,
     description: row.description,
     url: row.url,
@@ -374,6 +533,11 @@ function mapItemRowToRecord(row: ItemRow, ownerEmail: string): ItemRecord {
     targetCents: row.target_cents,
     fundingDeadlineAt: row.funding_deadline_at,
     shortfallPolicy: normalizedPolicy,
+    fundingOverflowMode: overflowMode,
+    fundingOverflowPercent: overflowMode === "allow_percent" ? row.funding_overflow_percent : null,
+    quantityDesired: row.quantity_desired && row.quantity_desired > 0 ? row.quantity_desired : 1,
+    organizerUserId: row.organizer_user_id,
+    paymentInstructions: row.payment_instructions,
     fundedCents: 0,
     contributorCount: 0,
     archivedAt: row.archived_at,
@@ -399,19 +563,24 @@ function removeCachedItems(itemIds: Set<string>) {
   store.images = store.images.filter((image) => !itemIds.has(image.itemId));
   store.uploadTickets = store.uploadTickets.filter((ticket) => !itemIds.has(ticket.itemId));
   store.previewTickets = store.previewTickets.filter((ticket) => !itemIds.has(ticket.itemId));
-  store.reservations = store.reservations.filter((reservation) => !itemIds.has(reservation.itemId));
   store.contributions = store.contributions.filter((contribution) => !itemIds.has(contribution.itemId));
-  store.auditEvents = store.auditEvents.filter((event) => !itemIds.has(event.entityId));
 }
 
-async function hasOwnerAccessToWishlist(ownerEmail: string, wishlistId: string): Promise<boolean> {
-  const wishlists = await listWishlistRecords({
-    ownerEmail,
-    search: "",
-    sort: "updated_desc",
-    canonicalHost: process.env.CANONICAL_HOST,
-  });
-  return wishlists.some((wishlist) => wishlist.id === wishlistId);
+async function findWishlistOwnerId(wishlistId: string): Promise<string | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("wishlists")
+    .select("owner_id")
+    .eq("id", wishlistId)
+    .maybeSingle();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return (data as { owner_id?: string } | null)?.owner_id ?? null;
+}
+
+async function hasOwnerAccessToWishlist(ownerUserId: string, wishlistId: string): Promise<boolean> {
+  if (!ownerUserId) return false;
+  return (await findWishlistOwnerId(wishlistId)) === ownerUserId;
 }
 
 async function listItemRowsByWishlist(wishlistId: string): Promise<ItemRow[]> {
@@ -420,29 +589,45 @@ async function listItemRowsByWishlist(wishlistId: string): Promise<ItemRow[]> {
     .from("items")
     .select(itemSelectColumns())
     .eq("wishlist_id", wishlistId)
-    .order("updated_at", { ascending: false });
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false });
 
   if (error) throw error;
   return (data || []) as unknown as ItemRow[];
 }
 
-async function listActiveReservedItemIds(itemIds: string[]): Promise<Set<string>> {
-  if (itemIds.length === 0) return new Set<string>();
+async function listReservedQuantitiesByItemIds(itemIds: string[]): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>();
+  if (itemIds.length === 0) return reserved;
 
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("reservations")
-    .select("item_id")
-    .eq("status", "active")
+    .select("item_id,quantity")
+    .in("status", HELD_RESERVATION_STATUSES)
     .in("item_id", itemIds);
 
   if (error) throw error;
 
-  const reservedIds = new Set<string>();
-  for (const row of (data || []) as Array<{ item_id: string }>) {
-    if (row.item_id) reservedIds.add(row.item_id);
+  for (const row of (data || []) as Array<{ item_id: string; quantity: number | null }>) {
+    if (!row.item_id) continue;
+    reserved.set(row.item_id, (reserved.get(row.item_id) ?? 0) + Math.max(row.quantity ?? 1, 1));
   }
-  return reservedIds;
+
+  const { data: headStarts, error: headStartError } = await supabase
+    .from("reservation_waitlist")
+    .select("item_id")
+    .eq("status", "notified")
+    .gt("head_start_expires_at", nowIso())
+    .in("item_id", itemIds);
+
+  if (headStartError) throw headStartError;
+
+  for (const row of (headStarts || []) as Array<{ item_id: string }>) {
+    if (!row.item_id) continue;
+    reserved.set(row.item_id, (reserved.get(row.item_id) ?? 0) + 1);
+  }
+  return reserved;
 }
 
 async function listContributionRowsByItemIds(itemIds: string[]): Promise<ContributionRow[]> {
@@ -458,100 +643,43 @@ async function listContributionRowsByItemIds(itemIds: string[]): Promise<Contrib
   return (data || []) as unknown as ContributionRow[];
 }
 
-async function findActiveReservationRowForItem(itemId: string): Promise<ReservationRow | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
-    .from("reservations")
-    .select(reservationSelectColumns())
-    .eq("item_id", itemId)
-    .eq("status", "active")
-    .maybeSingle();
-
-  if (error) {
-    if (error.code === "PGRST116") return null;
-    throw error;
-  }
-
-  if (!data) return null;
-  return data as unknown as ReservationRow;
-}
-
-async function findLatestReleasedReservationRowForActor(input: {
-  itemId: string;
-  actorUserId: string;
-}): Promise<ReservationRow | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
-    .from("reservations")
-    .select(reservationSelectColumns())
-    .eq("item_id", input.itemId)
-    .eq("user_id", input.actorUserId)
-    .eq("status", "released")
-    .order("updated_at", { ascending: false })
-    .limit(1)
-    .maybeSingle();
-
-  if (error) {
-    if (error.code === "PGRST116") return null;
-    throw error;
-  }
-
-  if (!data) return null;
-  return data as unknown as ReservationRow;
+async function countReservedQuantityForItem(itemId: string): Promise<number> {
+  const reserved = await listReservedQuantitiesByItemIds([itemId]);
+  return reserved.get(itemId) ?? 0;
 }
 
-async function findActiveReservationRowForActor(input: {
-  itemId: string;
-  actorUserId: string;
-}): Promise<ReservationRow | null> {
+async function callReservationFunction(
+  fn: "reserve_item" | "unreserve_item",
+  input: { wishlistId: string; itemId: string; actorUserId: string; quantity?: number },
+): Promise<ReservationFunctionRow> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
-    .from("reservations")
-    .select(reservationSelectColumns())
-    .eq("item_id", input.itemId)
-    .eq("user_id", input.actorUserId)
-    .eq("status", "active")
-    .maybeSingle();
+    .rpc(fn, {
+      p_wishlist_id: input.wishlistId,
+      p_item_id: input.itemId,
+      p_user_id: input.actorUserId,
+      ...(fn === "reserve_item"
+        ? { p_quantity: input.quantity ?? 1 }
+        : { p_head_start_minutes: waitlistHeadStartMinutes() }),
+    })
+    .single();
 
   if (error) {
-    if (error.code === "PGRST116") return null;
+    if (error.code === "22P02") {
+      return { outcome: "NOT_FOUND", reservation_id: null, item_updated_at: null };
+    }
     throw error;
   }
 
-  if (!data) return null;
-  return data as unknown as ReservationRow;
-}
-
-async function touchItemUpdatedAt(itemId: string, updatedAt: string): Promise<ItemRecord | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
-    .from("items")
-    .update({ updated_at: updatedAt })
-    .eq("id", itemId)
-    .select(itemSelectColumns())
-    .maybeSingle();
-
-  if (error) throw error;
-  if (!data) return null;
-
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, ""));
-  upsertCachedItem(item);
-  return item;
+  return data as ReservationFunctionRow;
 }
 
-async function findPublicItemForMutation(input: { wishlistId: string; itemId: string }): Promise<ItemRecord | { error: "NOT_FOUND" | "ARCHIVED" }> {
-  const row = await findItemRowById(input.itemId);
-  if (!row || row.wishlist_id !== input.wishlistId) {
-    return { error: "NOT_FOUND" as const };
-  }
+async function loadPublicMutationItem(itemId: string): Promise<ItemRecord | null> {
+  const row = await findItemRowById(itemId);
+  if (!row) return null;
 
   const item = await hydrateContributionStatsForItem(mapItemRowToRecord(row, ""));
   upsertCachedItem(item);
-
-  if (item.archivedAt) {
-    return { error: "ARCHIVED" as const };
-  }
-
   return item;
 }
 
@@ -572,18 +700,18 @@ async function findItemRowById(itemId: string): Promise<ItemRow | null> {
   return data as unknown as ItemRow;
 }
 
-async function findOwnedItem(input: { itemId: string; ownerEmail: string }): Promise<ItemRecord | { error: "NOT_FOUND" | "FORBIDDEN" }> {
+async function findOwnedItem(input: { itemId: string; ownerUserId: string }): Promise<ItemRecord | { error: "NOT_FOUND" | "FORBIDDEN" }> {
   const row = await findItemRowById(input.itemId);
   if (!row) {
     return { error: "NOT_FOUND" as const };
   }
 
-  const hasAccess = await hasOwnerAccessToWishlist(input.ownerEmail, row.wishlist_id);
+  const hasAccess = await hasOwnerAccessToWishlist(input.ownerUserId, row.wishlist_id);
   if (!hasAccess) {
     return { error: "FORBIDDEN" as const };
   }
 
-  const record = await hydrateContributionStatsForItem(mapItemRowToRecord(row, input.ownerEmail));
+  const record = await hydrateContributionStatsForItem(mapItemRowToRecord(row, input.ownerUserId));
   upsertCachedItem(record);
   return record;
 }
@@ -601,16 +729,30 @@ async function findDuplicateUrlInWishlist(input: {
   });
 }
 
-function logAudit(action: ItemAuditEvent["action"], entityId: string, ownerEmail: string, wishlistId: string) {
-  const store = getStore();
-  store.auditEvents.unshift({
-    id: randomUUID(),
-    action,
-    wishlistId,
-    entityId,
-    ownerEmail,
-    createdAt: nowIso(),
-  });
+async function logAudit(
+  action: ItemAuditEvent["action"],
+  entityId: string,
+  actorUserId: string | null,
+  wishlistId: string,
+  details?: Record<string, unknown>,
+) {
+  try {
+    await insertAuditEvent({
+      actorUserId,
+      wishlistId,
+      entityType: "item",
+      entityId,
+      action,
+      after: details ?? null,
+    });
+  } catch (error) {
+    console.warn("audit_event_write_failed", {
+      action,
+      entityId,
+      wishlistId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
 }
 
 function findDuplicateUrl(input: {
@@ -697,22 +839,6 @@ function pruneExpiredTickets(now = nowMs()) {
   store.previewTickets = store.previewTickets.filter((ticket) => ticket.expiresAt > now);
 }
 
-function pruneExpiredIdempotency(now = nowMs()) {
-  const store = getStore();
-  store.idempotency = store.idempotency.filter((entry) => entry.expiresAt > now);
-}
-
-function pruneExpiredRateWindows(now = nowMs()) {
-  const store = getStore();
-  const keys = Object.keys(store.rateLimits);
-  for (const key of keys) {
-    const window = store.rateLimits[key];
-    if (now - window.windowStartedAt >= RATE_LIMIT_WINDOW_MS) {
-      delete store.rateLimits[key];
-    }
-  }
-}
-
 function sanitizeFilename(filename: string): string {
   const withoutPath = filename.split(/[\\/]/).pop() || "image";
   const normalized = withoutPath
@@ -722,8 +848,8 @@ function sanitizeFilename(filename: string): string {
   return normalized || "image";
 }
 
-function buildStoragePath(input: { ownerEmail: string; wishlistId: string; itemId: string; filename: string }) {
-  const ownerToken = encodeURIComponent(input.ownerEmail);
+function buildStoragePath(input: { ownerUserId: string; wishlistId: string; itemId: string; filename: string }) {
+  const ownerToken = encodeURIComponent(input.ownerUserId);
   return `owners/${ownerToken}/${input.wishlistId}/${input.itemId}/${Date.now()}-${sanitizeFilename(input.filename)}`;
 }
 
@@ -751,46 +877,76 @@ function fundedCentsForItem(itemId: string): number {
 
 function contributorCountForItem(itemId: string): number {
   const store = getStore();
-  const contributorEmails = new Set(
-    store.contributions
-      .filter((contribution) => contribution.itemId === itemId)
-      .map((contribution) => normalizeEmail(contribution.actorEmail)),
-  );
-  contributorEmails.delete("");
-  return contributorEmails.size;
+  const netByUser = new Map<string, number>();
+  for (const contribution of store.contributions) {
+    if (contribution.itemId !== itemId || !contribution.actorUserId) continue;
+    netByUser.set(contribution.actorUserId, (netByUser.get(contribution.actorUserId) ?? 0) + contribution.amountCents);
+  }
+  return Array.from(netByUser.values()).filter((net) => net > 0).length;
 }
 
 type ContributionStats = {
   fundedCents: number;
+  paidCents: number;
   contributorCount: number;
 };
 
 function buildContributionStatsByItem(rows: ContributionRow[]): Map<string, ContributionStats> {
-  const totalsByItem = new Map<string, { fundedCents: number; contributorUserIds: Set<string> }>();
+  const totalsByItem = new Map<string, { fundedCents: number; paidCents: number; netByUser: Map<string, number> }>();
+  const statusById = new Map(rows.map((row) => [row.id, row.fulfillment_status]));
 
   for (const row of rows) {
     if (!row.item_id) continue;
     const current = totalsByItem.get(row.item_id) || {
       fundedCents: 0,
-      contributorUserIds: new Set<string>(),
+      paidCents: 0,
+      netByUser: new Map<string, number>(),
     };
 
-    current.fundedCents += Number.isFinite(row.amount_cents) ? row.amount_cents : 0;
-    if (row.user_id) current.contributorUserIds.add(row.user_id);
+    const amountCents = Number.isFinite(row.amount_cents) ? row.amount_cents : 0;
+    const status = row.reverses_contribution_id ? statusById.get(row.reverses_contribution_id) : row.fulfillment_status;
+    current.fundedCents += amountCents;
+    if (status === "paid" || status === "confirmed") current.paidCents += amountCents;
+    if (row.user_id) current.netByUser.set(row.user_id, (current.netByUser.get(row.user_id) ?? 0) + amountCents);
     totalsByItem.set(row.item_id, current);
   }
 
   const statsByItem = new Map<string, ContributionStats>();
   for (const [itemId, totals] of totalsByItem.entries()) {
     statsByItem.set(itemId, {
-      fundedCents: totals.fundedCents,
-      contributorCount: totals.contributorUserIds.size,
+      fundedCents: Math.max(totals.fundedCents, 0),
+      paidCents: Math.max(totals.paidCents, 0),
+      contributorCount: Array.from(totals.netByUser.values()).filter((net) => net > 0).length,
     });
   }
 
   return statsByItem;
 }
 
+function netPledgesByContribution<Row extends ContributionRow>(rows: Row[]) {
+  const reversedCents = new Map<string, number>();
+  for (const row of rows) {
+    const originalId = row.reverses_contribution_id;
+    if (!originalId) continue;
+    reversedCents.set(originalId, (reversedCents.get(originalId) ?? 0) + row.amount_cents);
+  }
+
+  return rows
+    .filter((row) => !row.reverses_contribution_id)
+    .map((row) => ({ row, netCents: row.amount_cents + (reversedCents.get(row.id) ?? 0) }));
+}
+
+function resolveOrganizerUserId(item: ItemRecord, rows: ContributionRow[], wishlistOwnerId: string | null): string | null {
+  if (item.organizerUserId) return item.organizerUserId;
+
+  const earliest = netPledgesByContribution(
+    rows.filter((row) => row.item_id === item.id && row.user_id !== wishlistOwnerId),
+  )
+    .filter((pledge) => pledge.netCents > 0)
+    .sort((a, b) => Date.parse(a.row.created_at) - Date.parse(b.row.created_at) || a.row.id.localeCompare(b.row.id))[0];
+  return earliest ? earliest.row.user_id : null;
+}
+
 async function hydrateContributionStatsForItems(items: ItemRecord[]): Promise<ItemRecord[]> {
   if (items.length === 0) return items;
 
@@ -819,23 +975,18 @@ async function hydrateContributionStatsForItem(item: ItemRecord): Promise<ItemRe
   return hydrated;
 }
 
-function activeReservationForItem(itemId: string): ReservationRecord | null {
-  const store = getStore();
-  const found = store.reservations.find((reservation) => reservation.itemId === itemId && reservation.status === "active");
-  return found || null;
-}
-
 function buildPublicItemReadModel(
   item: ItemRecord,
   options?: {
-    availability?: "available" | "reserved";
+    reservedQuantity?: number;
     fundedCents?: number;
+    paidCents?: number;
     contributorCount?: number;
   },
 ): PublicItemReadModel {
   const fundedCents = options?.fundedCents ?? fundedCentsForItem(item.id);
+  const paidCents = item.isGroupFunded ? Math.min(options?.paidCents ?? 0, fundedCents) : 0;
   const contributorCount = options?.contributorCount ?? contributorCountForItem(item.id);
-  const activeReservation = activeReservationForItem(item.id);
   const effectiveTargetCents =
     item.isGroupFunded && item.targetCents !== null && item.targetCents > 0
       ? item.targetCents
@@ -843,6 +994,15 @@ function buildPublicItemReadModel(
         ? item.priceCents
         : null;
   const ratio = effectiveTargetCents !== null ? Math.min(fundedCents, effectiveTargetCents) / effectiveTargetCents : 0;
+  const remainingCents = effectiveTargetCents !== null ? Math.max(effectiveTargetCents - fundedCents, 0) : null;
+  const capCents =
+    effectiveTargetCents === null || item.fundingOverflowMode === "allow"
+      ? null
+      : item.fundingOverflowMode === "allow_percent"
+        ? effectiveTargetCents + Math.floor((effectiveTargetCents * (item.fundingOverflowPercent ?? 0)) / 100)
+        : effectiveTargetCents;
+  const quantityReserved = Math.min(options?.reservedQuantity ?? 0, item.quantityDesired);
+  const quantityRemaining = item.quantityDesired - quantityReserved;
 
   return {
     id: item.id,
@@ -853,14 +1013,36 @@ function buildPublicItemReadModel(
     priceCents: item.priceCents,
     isGroupFunded: item.isGroupFunded,
     targetCents: effectiveTargetCents,
+    fundingDeadlineAt: item.isGroupFunded ? item.fundingDeadlineAt : null,
     fundedCents,
+    paidCents,
     contributorCount,
     progressRatio: ratio,
-    availability: options?.availability || (activeReservation ? "reserved" : "available"),
+    remainingCents,
+    maxContributionCents: capCents !== null ? Math.max(capCents - fundedCents, 0) : null,
+    quantityDesired: item.quantityDesired,
+    quantityReserved,
+    quantityRemaining,
+    availability: quantityRemaining > 0 ? "available" : "reserved",
     updatedAt: item.updatedAt,
   };
 }
 
+async function buildPublicMutationReadModel(item: ItemRecord): Promise<PublicItemReadModel> {
+  const [reservedQuantity, contributionRows] = await Promise.all([
+    countReservedQuantityForItem(item.id),
+    listContributionRowsByItemIds([item.id]),
+  ]);
+  const stats = buildContributionStatsByItem(contributionRows).get(item.id);
+
+  return buildPublicItemReadModel(item, {
+    reservedQuantity,
+    fundedCents: stats?.fundedCents ?? 0,
+    paidCents: stats?.paidCents ?? 0,
+    contributorCount: stats?.contributorCount ?? 0,
+  });
+}
+
 export async function hydratePublicItemImage(item: PublicItemReadModel): Promise<PublicItemReadModel> {
   if (!item.imageUrl) return item;
   if (!isStorageRef(item.imageUrl)) return item;
@@ -891,22 +1073,9 @@ export async function hydratePublicItemImage(item: PublicItemReadModel): Promise
   }
 }
 
-function findActiveReservationForActor(itemId: string, actorEmail: string): ReservationRecord | null {
-  const store = getStore();
-  const found = store.reservations.find(
-    (reservation) => reservation.itemId === itemId && reservation.actorEmail === actorEmail && reservation.status === "active",
-  );
-  return found || null;
-}
-
-function hashPayload(payload: unknown): string {
-  const normalized = JSON.stringify(payload ?? null);
-  return createHash("sha256").update(normalized).digest("hex");
-}
-
 export async function createItem(input: {
   wishlistId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   title: string;
   description: string | null;
   url: string | null;
@@ -915,6 +1084,12 @@ export async function createItem(input: {
   imageUrls?: string[] | null;
   isGroupFunded: boolean;
   targetCents: number | null;
+  fundingDeadlineAt?: string | null;
+  shortfallPolicy?: ShortfallPolicy;
+  fundingOverflowMode?: FundingOverflowMode;
+  fundingOverflowPercent?: number | null;
+  quantityDesired?: number;
+  paymentInstructions?: string | null;
 }) {
   const now = nowIso();
   const normalizedUrl = (input.url || "").trim().toLowerCase();
@@ -941,8 +1116,12 @@ export async function createItem(input: {
       image_urls: normalizedImages,
       is_group_funded: input.isGroupFunded,
       target_cents: input.targetCents,
-      funding_deadline_at: null,
-      shortfall_policy: "owner_decides",
+      funding_deadline_at: input.isGroupFunded ? input.fundingDeadlineAt ?? null : null,
+      shortfall_policy: input.isGroupFunded ? input.shortfallPolicy ?? "owner_decides" : "owner_decides",
+      funding_overflow_mode: input.fundingOverflowMode ?? "cap",
+      funding_overflow_percent: input.fundingOverflowMode === "allow_percent" ? input.fundingOverflowPercent ?? null : null,
+      quantity_desired: input.quantityDesired ?? 1,
+      payment_instructions: input.isGroupFunded ? input.paymentInstructions ?? null : null,
       archived_at: null,
       updated_at: now,
     })
@@ -953,9 +1132,9 @@ export async function createItem(input: {
     throw error || new Error("Unable to create item.");
   }
 
-  const item = mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail);
+  const item = mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId);
   upsertCachedItem(item);
-  logAudit("create", item.id, input.ownerEmail, item.wishlistId);
+  await logAudit("create", item.id, input.ownerUserId, item.wishlistId);
 
   return {
     item,
@@ -965,7 +1144,7 @@ export async function createItem(input: {
 
 export async function updateItem(input: {
   itemId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   title: string;
   description: string | null;
   url: string | null;
@@ -974,14 +1153,49 @@ export async function updateItem(input: {
   imageUrls?: string[] | null;
   isGroupFunded: boolean;
   targetCents: number | null;
+  fundingDeadlineAt?: string | null;
+  shortfallPolicy?: ShortfallPolicy;
+  fundingOverflowMode?: FundingOverflowMode;
+  fundingOverflowPercent?: number | null;
+  quantityDesired?: number;
+  paymentInstructions?: string | null;
 }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
 
   if ("error" in owned) return { error: owned.error };
 
+  const nextFundingDeadlineAt = input.isGroupFunded
+    ? input.fundingDeadlineAt === undefined
+      ? owned.fundingDeadlineAt
+      : input.fundingDeadlineAt
+    : null;
+  if (
+    nextFundingDeadlineAt &&
+    Date.parse(nextFundingDeadlineAt) !== Date.parse(owned.fundingDeadlineAt || "") &&
+    Date.parse(nextFundingDeadlineAt) <= Date.now()
+  ) {
+    return { error: "DEADLINE_IN_PAST" as const };
+  }
+
+  const nextShortfallPolicy = input.isGroupFunded ? input.shortfallPolicy ?? owned.shortfallPolicy : "owner_decides";
+  if (nextShortfallPolicy !== "owner_decides" && !nextFundingDeadlineAt) {
+    return { error: "DEADLINE_REQUIRED" as const };
+  }
+
+  const nextOverflowMode = input.isGroupFunded ? input.fundingOverflowMode ?? owned.fundingOverflowMode : "cap";
+  const nextOverflowPercent =
+    nextOverflowMode === "allow_percent"
+      ? input.fundingOverflowPercent === undefined
+        ? owned.fundingOverflowPercent
+        : input.fundingOverflowPercent
+      : null;
+  if (nextOverflowMode === "allow_percent" && nextOverflowPercent === null) {
+    return { error: "OVERFLOW_PERCENT_REQUIRED" as const };
+  }
+
   const normalizedUrl = (input.url || "").trim().toLowerCase();
   const duplicateUrl = normalizedUrl
     ? await findDuplicateUrlInWishlist({
@@ -1007,6 +1221,16 @@ export async function updateItem(input: {
       image_urls: nextImageUrls,
       is_group_funded: input.isGroupFunded,
       target_cents: input.targetCents,
+      funding_deadline_at: nextFundingDeadlineAt,
+      shortfall_policy: nextShortfallPolicy,
+      funding_overflow_mode: nextOverflowMode,
+      funding_overflow_percent: nextOverflowPercent,
+      quantity_desired: input.quantityDesired ?? owned.quantityDesired,
+      payment_instructions: input.isGroupFunded
+        ? input.paymentInstructions === undefined
+          ? owned.paymentInstructions
+          : input.paymentInstructions
+        : null,
       updated_at: nextUpdatedAt,
     })
     .eq("id", owned.id)
@@ -1017,7 +1241,7 @@ export async function updateItem(input: {
     throw error || new Error("Unable to update item.");
   }
 
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail));
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId));
   upsertCachedItem(item);
 
   const nextSet = new Set(nextImageUrls.filter(isStorageRef).map((value) => parseStoragePath(value)));
@@ -1029,7 +1253,7 @@ export async function updateItem(input: {
     }
   }
 
-  logAudit("update", item.id, input.ownerEmail, item.wishlistId);
+  await logAudit("update", item.id, input.ownerUserId, item.wishlistId);
 
   return {
     item,
@@ -1037,10 +1261,10 @@ export async function updateItem(input: {
   };
 }
 
-export async function archiveItem(input: { itemId: string; ownerEmail: string }) {
+export async function archiveItem(input: { itemId: string; ownerUserId: string }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
   if ("error" in owned) return { error: owned.error };
 
@@ -1050,6 +1274,16 @@ export async function archiveItem(input: { itemId: string; ownerEmail: string })
     };
   }
 
+  const item = await archiveItemRecord(owned);
+  await logAudit("archive", item.id, input.ownerUserId, item.wishlistId);
+  await notifyArchivedItemReservers(item);
+
+  return {
+    item,
+  };
+}
+
+async function archiveItemRecord(owned: ItemRecord): Promise<ItemRecord> {
   const archivedAt = nowIso();
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
@@ -1066,9 +1300,13 @@ export async function archiveItem(input: { itemId: string; ownerEmail: string })
     throw error || new Error("Unable to archive item.");
   }
 
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail));
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, owned.ownerUserId));
   upsertCachedItem(item);
-  logAudit("archive", item.id, input.ownerEmail, item.wishlistId);
+  return item;
+}
+
+async function notifyArchivedItemReservers(item: ItemRecord) {
+  const archivedAt = item.archivedAt || nowIso();
 
   try {
     await processArchivedReservationNotifications({
@@ -1078,17 +1316,6 @@ export async function archiveItem(input: { itemId: string; ownerEmail: string })
       archivedItemTitle: item.title,
       archivedItemPriceCents: item.priceCents,
     });
-
-    const store = getStore();
-    store.reservations = store.reservations.map((reservation) =>
-      reservation.itemId === item.id && reservation.status === "active"
-        ? {
-            ...reservation,
-            status: "released",
-            updatedAt: archivedAt,
-          }
-        : reservation,
-    );
   } catch (error) {
     console.warn("archive_notification_failed", {
       itemId: item.id,
@@ -1096,16 +1323,12 @@ export async function archiveItem(input: { itemId: string; ownerEmail: string })
       error: error instanceof Error ? error.message : "unknown",
     });
   }
-
-  return {
-    item,
-  };
 }
 
-export async function restoreArchivedItem(input: { itemId: string; ownerEmail: string }) {
+export async function restoreArchivedItem(input: { itemId: string; ownerUserId: string }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
   if ("error" in owned) return { error: owned.error };
 
@@ -1131,9 +1354,9 @@ export async function restoreArchivedItem(input: { itemId: string; ownerEmail: s
     throw error || new Error("Unable to restore item.");
   }
 
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail));
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId));
   upsertCachedItem(item);
-  logAudit("update", item.id, input.ownerEmail, item.wishlistId);
+  await logAudit("update", item.id, input.ownerUserId, item.wishlistId);
 
   return {
     item,
@@ -1146,36 +1369,85 @@ function addDaysToIso(baseDate: Date, days: number): string {
   return next.toISOString();
 }
 
-export async function resolveGroupFundingShortfall(input: {
-  itemId: string;
-  ownerEmail: string;
-  action: ResolveShortfallAction;
-}) {
+function extendFundingDeadline(currentDeadlineAt: string | null, nowDate = new Date()): string {
+  let baseDate = nowDate;
+  if (currentDeadlineAt) {
+    const parsed = new Date(currentDeadlineAt);
+    if (!Number.isNaN(parsed.getTime()) && parsed.getTime() > nowDate.getTime()) {
+      baseDate = parsed;
+    }
+  }
+  return addDaysToIso(baseDate, FUNDING_EXTENSION_DAYS);
+}
+
+export async function setItemOrganizer(input: { itemId: string; ownerUserId: string; organizerEmail: string | null }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
-  if ("error" in owned) return { error: owned.error as ResolveShortfallError };
+  if ("error" in owned) return { error: owned.error as SetOrganizerError };
+  if (!owned.isGroupFunded) return { error: "NOT_GROUP_FUNDED" as SetOrganizerError };
 
-  if (owned.archivedAt) return { error: "ARCHIVED" as ResolveShortfallError };
-  if (!owned.isGroupFunded) return { error: "NOT_GROUP_FUNDED" as ResolveShortfallError };
-  if (owned.targetCents === null || owned.targetCents <= 0) return { error: "TARGET_UNSET" as ResolveShortfallError };
-
-  const stats = buildContributionStatsByItem(await listContributionRowsByItemIds([owned.id])).get(owned.id) || {
-    fundedCents: 0,
-    contributorCount: 0,
-  };
-
-  if (stats.fundedCents >= owned.targetCents) {
-    return { error: "TARGET_ALREADY_REACHED" as ResolveShortfallError };
+  let organizerUserId: string | null = null;
+  if (input.organizerEmail) {
+    organizerUserId = await resolveUserIdByEmail(input.organizerEmail);
+    if (!organizerUserId) return { error: "ORGANIZER_NOT_FOUND" as SetOrganizerError };
+    if (organizerUserId === input.ownerUserId) return { error: "ORGANIZER_IS_OWNER" as SetOrganizerError };
   }
 
-  if (input.action === "archive_item") {
-    const archived = await archiveItem({ itemId: owned.id, ownerEmail: input.ownerEmail });
-    if ("error" in archived) {
-      return { error: archived.error as ResolveShortfallError };
-    }
-    return {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("items")
+    .update({
+      organizer_user_id: organizerUserId,
+      updated_at: nowIso(),
+    })
+    .eq("id", owned.id)
+    .select(itemSelectColumns())
+    .single();
+
+  if (error || !data) {
+    throw error || new Error("Unable to set organizer.");
+  }
+
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId));
+  upsertCachedItem(item);
+  await logAudit("set_organizer", item.id, input.ownerUserId, item.wishlistId, { nominated: organizerUserId !== null });
+
+  return { item };
+}
+
+export async function resolveGroupFundingShortfall(input: {
+  itemId: string;
+  ownerUserId: string;
+  action: ResolveShortfallAction;
+}) {
+  const owned = await findOwnedItem({
+    itemId: input.itemId,
+    ownerUserId: input.ownerUserId,
+  });
+  if ("error" in owned) return { error: owned.error as ResolveShortfallError };
+
+  if (owned.archivedAt) return { error: "ARCHIVED" as ResolveShortfallError };
+  if (!owned.isGroupFunded) return { error: "NOT_GROUP_FUNDED" as ResolveShortfallError };
+  if (owned.targetCents === null || owned.targetCents <= 0) return { error: "TARGET_UNSET" as ResolveShortfallError };
+
+  const stats = buildContributionStatsByItem(await listContributionRowsByItemIds([owned.id])).get(owned.id) || {
+    fundedCents: 0,
+    paidCents: 0,
+    contributorCount: 0,
+  };
+
+  if (stats.fundedCents >= owned.targetCents) {
+    return { error: "TARGET_ALREADY_REACHED" as ResolveShortfallError };
+  }
+
+  if (input.action === "archive_item") {
+    const archived = await archiveItem({ itemId: owned.id, ownerUserId: input.ownerUserId });
+    if ("error" in archived) {
+      return { error: archived.error as ResolveShortfallError };
+    }
+    return {
       item: archived.item,
       appliedAction: input.action,
     };
@@ -1191,15 +1463,7 @@ export async function resolveGroupFundingShortfall(input: {
   };
 
   if (input.action === "extend_7d") {
-    const nowDate = new Date();
-    let baseDate = nowDate;
-    if (owned.fundingDeadlineAt) {
-      const parsed = new Date(owned.fundingDeadlineAt);
-      if (!Number.isNaN(parsed.getTime()) && parsed.getTime() > nowDate.getTime()) {
-        baseDate = parsed;
-      }
-    }
-    updates.funding_deadline_at = addDaysToIso(baseDate, 7);
+    updates.funding_deadline_at = extendFundingDeadline(owned.fundingDeadlineAt);
   } else if (input.action === "lower_target_to_funded") {
     updates.target_cents = stats.fundedCents;
   }
@@ -1216,9 +1480,9 @@ export async function resolveGroupFundingShortfall(input: {
     throw error || new Error("Unable to resolve shortfall.");
   }
 
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail));
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId));
   upsertCachedItem(item);
-  logAudit("update", item.id, input.ownerEmail, item.wishlistId);
+  await logAudit("update", item.id, input.ownerUserId, item.wishlistId);
 
   return {
     item,
@@ -1226,24 +1490,231 @@ export async function resolveGroupFundingShortfall(input: {
   };
 }
 
-export async function listItemsForWishlist(input: { wishlistId: string; ownerEmail: string }) {
-  const hasAccess = await hasOwnerAccessToWishlist(input.ownerEmail, input.wishlistId);
+async function listUnfundedItemRowsPastDeadline(input: {
+  nowIso: string;
+  after: { fundingDeadlineAt: string; id: string } | null;
+  limit: number;
+}): Promise<ItemRow[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("list_unfunded_items_past_deadline", {
+    p_now: input.nowIso,
+    p_after_deadline_at: input.after?.fundingDeadlineAt ?? null,
+    p_after_id: input.after?.id ?? null,
+    p_limit: input.limit,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as ItemRow[];
+}
+
+async function applyAutomaticShortfallPolicy(item: ItemRecord, now: Date): Promise<FundingDeadlineSweepOutcome> {
+  const policy = item.shortfallPolicy === "auto_archive" ? "auto_archive" : "auto_extend_7d";
+  const details = {
+    trigger: "funding_deadline",
+    policy,
+    fundingDeadlineAt: item.fundingDeadlineAt,
+    fundedCents: item.fundedCents,
+    targetCents: item.targetCents,
+  };
+
+  if (policy === "auto_archive") {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase
+      .rpc("auto_archive_unfunded_item", {
+        p_item_id: item.id,
+        p_funding_deadline_at: item.fundingDeadlineAt,
+        p_now: now.toISOString(),
+      })
+      .single();
+
+    if (error) throw error;
+
+    const { outcome } = data as { outcome: "ARCHIVED" | "FUNDED" | "CONFLICT" };
+    const row = outcome === "ARCHIVED" ? await findItemRowById(item.id) : null;
+    if (!row) {
+      return {
+        itemId: item.id,
+        wishlistId: item.wishlistId,
+        policy,
+        result: outcome === "FUNDED" ? "skipped_funded" : "skipped_conflict",
+        fundingDeadlineAt: item.fundingDeadlineAt,
+      };
+    }
+
+    const archived = await hydrateContributionStatsForItem(mapItemRowToRecord(row, item.ownerUserId));
+    upsertCachedItem(archived);
+    await logAudit("auto_archive", archived.id, null, archived.wishlistId, details);
+    await notifyArchivedItemReservers(archived);
+    return {
+      itemId: archived.id,
+      wishlistId: archived.wishlistId,
+      policy,
+      result: "archived",
+      fundingDeadlineAt: archived.fundingDeadlineAt,
+    };
+  }
+
+  const nextDeadlineAt = extendFundingDeadline(item.fundingDeadlineAt, now);
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("items")
+    .update({
+      funding_deadline_at: nextDeadlineAt,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", item.id)
+    .eq("funding_deadline_at", item.fundingDeadlineAt)
+    .is("archived_at", null)
+    .select(itemSelectColumns())
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return {
+      itemId: item.id,
+      wishlistId: item.wishlistId,
+      policy,
+      result: "skipped_conflict",
+      fundingDeadlineAt: item.fundingDeadlineAt,
+    };
+  }
+
+  const extended = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, item.ownerUserId));
+  upsertCachedItem(extended);
+  await logAudit("auto_extend_deadline", extended.id, null, extended.wishlistId, {
+    ...details,
+    nextFundingDeadlineAt: nextDeadlineAt,
+  });
+
+  return {
+    itemId: extended.id,
+    wishlistId: extended.wishlistId,
+    policy,
+    result: "extended",
+    fundingDeadlineAt: extended.fundingDeadlineAt,
+  };
+}
+
+export async function sweepFundingDeadlines(input?: { now?: Date; limit?: number }) {
+  const now = input?.now ?? new Date();
+  const limit = Math.min(Math.max(input?.limit ?? FUNDING_SWEEP_BATCH_LIMIT, 1), 500);
+  const outcomes: FundingDeadlineSweepOutcome[] = [];
+  let after: { fundingDeadlineAt: string; id: string } | null = null;
+
+  for (let guard = 0; guard < 20; guard += 1) {
+    const rows = await listUnfundedItemRowsPastDeadline({ nowIso: now.toISOString(), after, limit });
+    if (rows.length === 0) break;
+
+    const lastRow = rows[rows.length - 1];
+    after = { fundingDeadlineAt: lastRow.funding_deadline_at || now.toISOString(), id: lastRow.id };
+
+    const items = await hydrateContributionStatsForItems(rows.map((row) => mapItemRowToRecord(row, "")));
+    for (const item of items) {
+      const policy = item.shortfallPolicy === "auto_archive" ? "auto_archive" : "auto_extend_7d";
+
+      if (item.targetCents === null || item.targetCents <= 0 || item.fundedCents >= item.targetCents) {
+        outcomes.push({
+          itemId: item.id,
+          wishlistId: item.wishlistId,
+          policy,
+          result: "skipped_funded",
+          fundingDeadlineAt: item.fundingDeadlineAt,
+        });
+        continue;
+      }
+
+      try {
+        outcomes.push(await applyAutomaticShortfallPolicy(item, now));
+      } catch (error) {
+        console.warn("funding_deadline_sweep_failed", {
+          itemId: item.id,
+          wishlistId: item.wishlistId,
+          policy,
+          error: error instanceof Error ? error.message : "unknown",
+        });
+        outcomes.push({
+          itemId: item.id,
+          wishlistId: item.wishlistId,
+          policy,
+          result: "failed",
+          fundingDeadlineAt: item.fundingDeadlineAt,
+        });
+      }
+    }
+
+    if (rows.length < limit) break;
+  }
+
+  return {
+    sweptAt: now.toISOString(),
+    scannedCount: outcomes.length,
+    extendedCount: outcomes.filter((outcome) => outcome.result === "extended").length,
+    archivedCount: outcomes.filter((outcome) => outcome.result === "archived").length,
+    failedCount: outcomes.filter((outcome) => outcome.result === "failed").length,
+    outcomes,
+  };
+}
+
+export async function listItemsForWishlist(input: { wishlistId: string; ownerUserId: string }) {
+  const hasAccess = await hasOwnerAccessToWishlist(input.ownerUserId, input.wishlistId);
   if (!hasAccess) return [];
 
   const rows = await listItemRowsByWishlist(input.wishlistId);
   const hydratedItems = await hydrateContributionStatsForItems(
-    rows.map((row) => mapItemRowToRecord(row, input.ownerEmail)),
+    rows.map((row) => mapItemRowToRecord(row, input.ownerUserId)),
   );
 
   const store = getStore();
   store.items = store.items.filter(
-    (item) => !(item.wishlistId === input.wishlistId && item.ownerEmail === input.ownerEmail),
+    (item) => !(item.wishlistId === input.wishlistId && item.ownerUserId === input.ownerUserId),
   );
   store.items.unshift(...hydratedItems);
 
   return hydratedItems;
 }
 
+export async function listOwnerStreamItemsForWishlist(input: {
+  wishlistId: string;
+  ownerUserId: string;
+}): Promise<OwnerStreamItem[] | null> {
+  const hasAccess = await hasOwnerAccessToWishlist(input.ownerUserId, input.wishlistId);
+  if (!hasAccess) return null;
+
+  const rows = await listItemRowsByWishlist(input.wishlistId);
+  const items = await hydrateContributionStatsForItems(rows.map((row) => mapItemRowToRecord(row, input.ownerUserId)));
+  const reservedQuantities = await listReservedQuantitiesByItemIds(items.map((item) => item.id));
+
+  return items.map((item) => {
+    const quantityReserved = Math.min(reservedQuantities.get(item.id) ?? 0, item.quantityDesired);
+    const quantityRemaining = item.quantityDesired - quantityReserved;
+    return {
+      id: item.id,
+      wishlistId: item.wishlistId,
+      title: item.title,
+      description: item.description,
+      url: item.url,
+      priceCents: item.priceCents,
+      imageUrl: item.imageUrl,
+      imageUrls: item.imageUrls,
+      isGroupFunded: item.isGroupFunded,
+      targetCents: item.targetCents,
+      fundingDeadlineAt: item.fundingDeadlineAt,
+      shortfallPolicy: item.shortfallPolicy,
+      fundingOverflowMode: item.fundingOverflowMode,
+      fundingOverflowPercent: item.fundingOverflowPercent,
+      quantityDesired: item.quantityDesired,
+      organizerUserId: item.organizerUserId,
+      paymentInstructions: item.paymentInstructions,
+      archivedAt: item.archivedAt,
+      createdAt: item.createdAt,
+      availability: quantityRemaining > 0 ? "available" : "reserved",
+      quantityRemaining,
+      hasContributions: item.contributorCount > 0,
+      fundingReached: item.targetCents !== null && item.fundedCents >= item.targetCents,
+    };
+  });
+}
+
 export async function listPublicItemsForWishlist(input: { wishlistId: string }): Promise<PublicItemReadModel[]> {
   const rows = await listItemRowsByWishlist(input.wishlistId);
   const activeItems = rows
@@ -1256,11 +1727,12 @@ export async function listPublicItemsForWishlist(input: { wishlistId: string }):
 
   const contributionRows = await listContributionRowsByItemIds(activeItems.map((item) => item.id));
   const statsByItem = buildContributionStatsByItem(contributionRows);
-  const reservedItemIds = await listActiveReservedItemIds(activeItems.map((item) => item.id));
+  const reservedQuantities = await listReservedQuantitiesByItemIds(activeItems.map((item) => item.id));
   const baseModels = activeItems.map((item) =>
     buildPublicItemReadModel(item, {
-      availability: reservedItemIds.has(item.id) ? "reserved" : "available",
+      reservedQuantity: reservedQuantities.get(item.id) ?? 0,
       fundedCents: statsByItem.get(item.id)?.fundedCents ?? 0,
+      paidCents: statsByItem.get(item.id)?.paidCents ?? 0,
       contributorCount: statsByItem.get(item.id)?.contributorCount ?? 0,
     }),
   );
@@ -1268,20 +1740,19 @@ export async function listPublicItemsForWishlist(input: { wishlistId: string }):
 }
 
 export async function listActiveReservationItemIdsForActor(input: {
-  wishlistId: string;
-  actorEmail: string;
+  wishlistId?: string | null;
+  actorUserId: string;
 }): Promise<string[]> {
-  const actorUserId = await resolveActorUserId(input.actorEmail);
-  if (!actorUserId) return [];
-
   const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
+  let query = supabase
     .from("reservations")
     .select("item_id")
-    .eq("wishlist_id", input.wishlistId)
-    .eq("user_id", actorUserId)
-    .eq("status", "active");
+    .eq("user_id", input.actorUserId)
+    .in("status", HELD_RESERVATION_STATUSES);
+
+  if (input.wishlistId) query = query.eq("wishlist_id", input.wishlistId);
 
+  const { data, error } = await query;
   if (error) throw error;
 
   const itemIds = new Set<string>();
@@ -1291,276 +1762,670 @@ export async function listActiveReservationItemIdsForActor(input: {
   return Array.from(itemIds);
 }
 
-export async function reservePublicItem(input: { wishlistId: string; itemId: string; actorEmail: string }) {
-  const actorUserId = await resolveActorUserId(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as ReservationMutationError };
-  }
-
-  const itemLookup = await findPublicItemForMutation({
-    wishlistId: input.wishlistId,
-    itemId: input.itemId,
-  });
-  if ("error" in itemLookup) {
-    return { error: itemLookup.error as ReservationMutationError };
-  }
+type ShoppingListRow = {
+  id: string;
+  wishlist_id: string;
+  item_id: string;
+  status: "active" | "purchased";
+  quantity: number | null;
+  purchased_at: string | null;
+  hold_expires_at: string | null;
+  updated_at: string;
+  items: { title: string; url: string | null; price_cents: number | null; archived_at: string | null } | null;
+  wishlists: { title: string; occasion_date: string | null } | null;
+};
+
+export async function listShoppingListForActor(input: { actorUserId: string }): Promise<ShoppingListEntry[]> {
+  const itemIds = await listActiveReservationItemIdsForActor({ actorUserId: input.actorUserId });
+  if (itemIds.length === 0) return [];
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservations")
+    .select(
+      "id,wishlist_id,item_id,status,quantity,purchased_at,hold_expires_at,updated_at,items(title,url,price_cents,archived_at),wishlists(title,occasion_date)",
+    )
+    .eq("user_id", input.actorUserId)
+    .in("status", HELD_RESERVATION_STATUSES)
+    .in("item_id", itemIds)
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as ShoppingListRow[])
+    .filter((row) => row.items && !row.items.archived_at)
+    .map((row) => ({
+      reservationId: row.id,
+      itemId: row.item_id,
+      itemTitle: row.items?.title ?? "Item",
+      itemUrl: row.items?.url ?? null,
+      priceCents: row.items?.price_cents ?? null,
+      quantity: Math.max(row.quantity ?? 1, 1),
+      wishlistId: row.wishlist_id,
+      wishlistTitle: row.wishlists?.title ?? null,
+      occasionDate: row.wishlists?.occasion_date ?? null,
+      status: row.status,
+      purchasedAt: row.purchased_at,
+      holdExpiresAt: row.status === "active" ? row.hold_expires_at : null,
+      updatedAt: row.updated_at,
+    }));
+}
+
+type HeldReservationRow = {
+  id: string;
+  wishlist_id: string;
+  status: "active" | "purchased";
+  wishlists: { reservation_hold_days: number | null } | null;
+};
+
+async function findHeldReservationForActor(input: { itemId: string; actorUserId: string }) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservations")
+    .select("id,wishlist_id,status,wishlists(reservation_hold_days)")
+    .eq("item_id", input.itemId)
+    .eq("user_id", input.actorUserId)
+    .in("status", HELD_RESERVATION_STATUSES)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === "22P02") return { error: "NOT_FOUND" as const };
+    if (error.code === "PGRST116") return { error: "NO_ACTIVE_RESERVATION" as const };
+    throw error;
+  }
+
+  if (!data) return { error: "NO_ACTIVE_RESERVATION" as const };
+  return { reservation: data as unknown as HeldReservationRow };
+}
+
+export async function setReservationPurchased(input: { itemId: string; actorUserId: string; purchased: boolean }) {
+  const held = await findHeldReservationForActor(input);
+  if ("error" in held) {
+    return { error: held.error as PurchaseMutationError };
+  }
+
+  const now = nowIso();
+  const holdDays = held.reservation.wishlists?.reservation_hold_days ?? null;
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservations")
+    .update({
+      status: input.purchased ? "purchased" : "active",
+      purchased_at: input.purchased ? now : null,
+      hold_expires_at: input.purchased ? null : reservationHoldExpiresAt(holdDays, now),
+      hold_reminded_at: null,
+      updated_at: now,
+    })
+    .eq("id", held.reservation.id)
+    .in("status", HELD_RESERVATION_STATUSES)
+    .select("id,wishlist_id,status,purchased_at,hold_expires_at,updated_at")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return { error: "NO_ACTIVE_RESERVATION" as PurchaseMutationError };
+  }
+
+  const row = data as {
+    id: string;
+    wishlist_id: string;
+    status: "active" | "purchased";
+    purchased_at: string | null;
+    hold_expires_at: string | null;
+    updated_at: string;
+  };
+  const action = input.purchased ? "mark_purchased" : "unmark_purchased";
+  await logAudit(action, input.itemId, input.actorUserId, row.wishlist_id);
+
+  return {
+    reservationId: row.id,
+    status: row.status,
+    purchasedAt: row.purchased_at,
+    holdExpiresAt: row.hold_expires_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function renewReservationHold(input: { itemId: string; actorUserId: string }) {
+  const held = await findHeldReservationForActor(input);
+  if ("error" in held) {
+    return { error: held.error as RenewHoldError };
+  }
+
+  if (held.reservation.status === "purchased") {
+    return { error: "ALREADY_PURCHASED" as RenewHoldError };
+  }
+
+  const now = nowIso();
+  const holdExpiresAt = reservationHoldExpiresAt(held.reservation.wishlists?.reservation_hold_days ?? null, now);
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservations")
+    .update({
+      hold_expires_at: holdExpiresAt,
+      hold_reminded_at: null,
+      updated_at: now,
+    })
+    .eq("id", held.reservation.id)
+    .eq("status", "active")
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    return { error: "NO_ACTIVE_RESERVATION" as RenewHoldError };
+  }
+
+  await logAudit("renew_hold", input.itemId, input.actorUserId, held.reservation.wishlist_id);
+
+  return {
+    reservationId: held.reservation.id,
+    status: "active" as const,
+    holdExpiresAt,
+  };
+}
+
+export async function reservePublicItem(input: {
+  wishlistId: string;
+  itemId: string;
+  actorUserId: string;
+  quantity?: number;
+}) {
+  const { actorUserId } = input;
+  const result = await callReservationFunction("reserve_item", input);
+  if (result.outcome === "QUANTITY_UNAVAILABLE") {
+    return {
+      error: "QUANTITY_UNAVAILABLE" as ReservationMutationError,
+      quantityRemaining: result.quantity_remaining ?? 0,
+    };
+  }
+
+  if (result.outcome !== "RESERVED" && result.outcome !== "ALREADY_ACTIVE") {
+    return { error: result.outcome as ReservationMutationError };
+  }
+
+  const item = await loadPublicMutationItem(input.itemId);
+  if (!item) {
+    return { error: "NOT_FOUND" as ReservationMutationError };
+  }
+
+  const idempotent = result.outcome === "ALREADY_ACTIVE";
+  if (!idempotent) {
+    await logAudit("reserve", item.id, actorUserId, item.wishlistId);
+  }
+
+  return {
+    reservationStatus: "active" as const,
+    item: await buildPublicMutationReadModel(item),
+    idempotent,
+  };
+}
+
+export async function unreservePublicItem(input: {
+  wishlistId: string;
+  itemId: string;
+  actorUserId: string;
+}) {
+  const { actorUserId } = input;
+  const result = await callReservationFunction("unreserve_item", input);
+  if (result.outcome !== "RELEASED") {
+    return { error: result.outcome as ReservationMutationError };
+  }
+
+  const item = await loadPublicMutationItem(input.itemId);
+  if (!item) {
+    return { error: "NOT_FOUND" as ReservationMutationError };
+  }
+
+  await logAudit("unreserve", item.id, actorUserId, item.wishlistId);
+  await notifyReleasedItemWaitlist(item, result.head_starts || []);
+
+  return {
+    reservationStatus: "released" as const,
+    item: await buildPublicMutationReadModel(item),
+  };
+}
+
+async function notifyReleasedItemWaitlist(item: { id: string; wishlistId: string }, headStarts: WaitlistHeadStartRow[]) {
+  try {
+    await notifyWaitlistHeadStarts(headStarts, nowIso());
+  } catch (error) {
+    console.warn("waitlist_head_start_notify_failed", {
+      itemId: item.id,
+      wishlistId: item.wishlistId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+}
+
+export async function joinReservationWaitlist(input: { wishlistId: string; itemId: string; actorUserId: string }) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .rpc("join_reservation_waitlist", {
+      p_wishlist_id: input.wishlistId,
+      p_item_id: input.itemId,
+      p_user_id: input.actorUserId,
+    })
+    .single();
+
+  if (error) {
+    if (error.code === "22P02") return { error: "NOT_FOUND" as WaitlistMutationError };
+    throw error;
+  }
+
+  const result = data as JoinWaitlistFunctionRow;
+  if (result.outcome !== "WAITLISTED" && result.outcome !== "ALREADY_WAITLISTED") {
+    return { error: result.outcome as WaitlistMutationError };
+  }
+
+  const idempotent = result.outcome === "ALREADY_WAITLISTED";
+  if (!idempotent) {
+    await logAudit("join_waitlist", input.itemId, input.actorUserId, input.wishlistId);
+  }
+
+  return {
+    status: "waiting" as const,
+    position: result.waitlist_position ?? 1,
+    idempotent,
+  };
+}
+
+export async function leaveReservationWaitlist(input: { wishlistId: string; itemId: string; actorUserId: string }) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .rpc("leave_reservation_waitlist", {
+      p_wishlist_id: input.wishlistId,
+      p_item_id: input.itemId,
+      p_user_id: input.actorUserId,
+      p_head_start_minutes: waitlistHeadStartMinutes(),
+    })
+    .single();
+
+  if (error) {
+    if (error.code === "22P02") return { error: "NOT_FOUND" as WaitlistMutationError };
+    throw error;
+  }
+
+  const result = data as { outcome: "CANCELLED" | WaitlistMutationError; head_starts: WaitlistHeadStartRow[] | null };
+  if (result.outcome !== "CANCELLED") return { error: result.outcome };
+
+  await logAudit("leave_waitlist", input.itemId, input.actorUserId, input.wishlistId);
+  await notifyReleasedItemWaitlist({ id: input.itemId, wishlistId: input.wishlistId }, result.head_starts || []);
+
+  return { status: "cancelled" as const };
+}
+
+export async function listWaitlistEntriesForActor(input: {
+  wishlistId: string;
+  actorUserId: string;
+}): Promise<WaitlistEntry[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("reservation_waitlist")
+    .select("item_id,status,head_start_expires_at")
+    .eq("wishlist_id", input.wishlistId)
+    .eq("user_id", input.actorUserId)
+    .in("status", ["waiting", "notified"]);
+
+  if (error) throw error;
+
+  const rows = (data || []) as Array<{
+    item_id: string;
+    status: "waiting" | "notified";
+    head_start_expires_at: string | null;
+  }>;
+  const nowMs = Date.now();
+  return rows
+    .filter(
+      (row) =>
+        row.status === "waiting" ||
+        (row.head_start_expires_at !== null && Date.parse(row.head_start_expires_at) > nowMs),
+    )
+    .map((row) => ({
+      itemId: row.item_id,
+      status: row.status,
+      headStartExpiresAt: row.status === "notified" ? row.head_start_expires_at : null,
+    }));
+}
+
+export async function contributeToPublicItem(input: {
+  wishlistId: string;
+  itemId: string;
+  actorUserId: string;
+  amountCents: number;
+}) {
+  const { actorUserId } = input;
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    return { error: "INVALID_AMOUNT" as ContributionMutationError };
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .rpc("contribute_to_item", {
+      p_wishlist_id: input.wishlistId,
+      p_item_id: input.itemId,
+      p_user_id: actorUserId,
+      p_amount_cents: input.amountCents,
+    })
+    .single();
+
+  if (error) {
+    if (error.code === "22P02") {
+      return { error: "NOT_FOUND" as ContributionMutationError };
+    }
+    throw error;
+  }
+
+  const result = data as ContributionFunctionRow;
+  if (result.outcome === "OVER_TARGET") {
+    return {
+      error: "OVER_TARGET" as ContributionMutationError,
+      maxAllowedCents: result.max_allowed_cents ?? 0,
+    };
+  }
+
+  if (result.outcome !== "CONTRIBUTED") {
+    return { error: result.outcome as ContributionMutationError };
+  }
+
+  const item = await loadPublicMutationItem(input.itemId);
+  if (!item) {
+    return { error: "NOT_FOUND" as ContributionMutationError };
+  }
+
+  const createdAt = result.created_at || nowIso();
+  const store = getStore();
+  const contribution: ContributionRecord = {
+    id: result.contribution_id || randomUUID(),
+    wishlistId: item.wishlistId,
+    itemId: item.id,
+    actorUserId,
+    amountCents: input.amountCents,
+    reversesContributionId: null,
+    createdAt,
+  };
+
+  store.contributions.unshift(contribution);
+  await logAudit("contribute", item.id, actorUserId, item.wishlistId);
+
+  return {
+    contribution,
+    paymentInstructions: await resolvePaymentInstructions(item),
+    item: await buildPublicMutationReadModel(item),
+  };
+}
+
+async function resolvePaymentInstructions(item: Pick<ItemRecord, "wishlistId" | "paymentInstructions">) {
+  if (item.paymentInstructions) return item.paymentInstructions;
+  const wishlist = await getWishlistRecordById(item.wishlistId);
+  return wishlist?.paymentInstructions ?? null;
+}
 
-  let item = itemLookup;
-  const existingActive = await findActiveReservationRowForItem(item.id);
-  if (existingActive) {
-    if (existingActive.user_id !== actorUserId) {
-      return { error: "ALREADY_RESERVED" as ReservationMutationError };
-    }
+function pledgeChangeWindowMinutes() {
+  return parsePositiveInt(process.env.PLEDGE_CHANGE_WINDOW_HOURS, DEFAULT_PLEDGE_CHANGE_WINDOW_HOURS) * 60;
+}
 
-    return {
-      reservationStatus: "active" as const,
-      item: buildPublicItemReadModel(item, { availability: "reserved" }),
-      idempotent: true,
-    };
+export async function reverseContribution(input: {
+  wishlistId: string;
+  contributionId: string;
+  actorUserId: string;
+  newAmountCents: number;
+}) {
+  const { actorUserId } = input;
+  if (!Number.isInteger(input.newAmountCents) || input.newAmountCents < 0) {
+    return { error: "INVALID_AMOUNT" as ContributionReversalError };
   }
 
-  const now = nowIso();
-  const existingReleased = await findLatestReleasedReservationRowForActor({
-    itemId: item.id,
-    actorUserId,
-  });
   const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .rpc("reverse_contribution", {
+      p_wishlist_id: input.wishlistId,
+      p_contribution_id: input.contributionId,
+      p_user_id: actorUserId,
+      p_new_amount_cents: input.newAmountCents,
+      p_window_minutes: pledgeChangeWindowMinutes(),
+    })
+    .single();
 
-  try {
-    if (existingReleased) {
-      const { error } = await supabase
-        .from("reservations")
-        .update({
-          status: "active",
-          updated_at: now,
-        })
-        .eq("id", existingReleased.id);
-
-      if (error) throw error;
-    } else {
-      const { error } = await supabase.from("reservations").insert({
-        wishlist_id: item.wishlistId,
-        item_id: item.id,
-        user_id: actorUserId,
-        status: "active",
-        created_at: now,
-        updated_at: now,
-      });
-
-      if (error) throw error;
-    }
-  } catch (error) {
-    const code = typeof error === "object" && error && "code" in error ? String((error as { code: string }).code) : "";
-    if (code === "23505") {
-      const winner = await findActiveReservationRowForItem(item.id);
-      if (winner?.user_id === actorUserId) {
-        return {
-          reservationStatus: "active" as const,
-          item: buildPublicItemReadModel(item, { availability: "reserved" }),
-          idempotent: true,
-        };
-      }
-      return { error: "ALREADY_RESERVED" as ReservationMutationError };
+  if (error) {
+    if (error.code === "22P02") {
+      return { error: "NOT_FOUND" as ContributionReversalError };
     }
     throw error;
   }
 
-  const touchedItem = await touchItemUpdatedAt(item.id, now);
-  if (touchedItem) {
-    item = touchedItem;
-  } else {
-    item = { ...item, updatedAt: now };
+  const result = data as ReverseContributionFunctionRow;
+  if (result.outcome !== "REVERSED" || !result.item_id) {
+    return {
+      error: (result.outcome === "REVERSED" ? "NOT_FOUND" : result.outcome) as ContributionReversalError,
+      remainingCents: result.remaining_cents,
+    };
   }
 
-  const store = getStore();
-  const cachedReservation = store.reservations.find(
-    (reservation) => reservation.itemId === item.id && reservation.actorEmail === input.actorEmail,
-  );
-  if (cachedReservation) {
-    cachedReservation.status = "active";
-    cachedReservation.updatedAt = now;
-  } else {
-    store.reservations.unshift({
-      id: randomUUID(),
-      wishlistId: item.wishlistId,
-      itemId: item.id,
-      actorEmail: input.actorEmail,
-      status: "active",
-      createdAt: now,
-      updatedAt: now,
-    });
+  const item = await loadPublicMutationItem(result.item_id);
+  if (!item) {
+    return { error: "NOT_FOUND" as ContributionReversalError };
   }
 
-  logAudit("reserve", item.id, input.actorEmail, item.wishlistId);
+  const reversal: ContributionRecord = {
+    id: result.reversal_id || randomUUID(),
+    wishlistId: item.wishlistId,
+    itemId: item.id,
+    actorUserId,
+    amountCents: result.amount_cents ?? 0,
+    reversesContributionId: input.contributionId,
+    createdAt: result.created_at || nowIso(),
+  };
+
+  getStore().contributions.unshift(reversal);
+  const withdrawn = input.newAmountCents === 0;
+  await logAudit(withdrawn ? "withdraw_contribution" : "reduce_contribution", item.id, actorUserId, item.wishlistId, {
+    contributionId: input.contributionId,
+    reversalId: reversal.id,
+    amountCents: reversal.amountCents,
+    remainingCents: result.remaining_cents,
+  });
 
   return {
-    reservationStatus: "active" as const,
-    item: buildPublicItemReadModel(item, { availability: "reserved" }),
-    idempotent: false,
+    reversal,
+    remainingCents: result.remaining_cents ?? 0,
+    withdrawn,
+    item: await buildPublicMutationReadModel(item),
   };
 }
 
-export async function unreservePublicItem(input: { wishlistId: string; itemId: string; actorEmail: string }) {
-  const actorUserId = await resolveActorUserId(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as ReservationMutationError };
-  }
+export async function listPledgesForActor(input: { wishlistId: string; actorUserId: string }): Promise<ActorPledge[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contributions")
+    .select(`${contributionSelectColumns()},items!inner(wishlist_id,payment_instructions)`)
+    .eq("user_id", input.actorUserId)
+    .eq("items.wishlist_id", input.wishlistId)
+    .order("created_at", { ascending: true });
 
-  const itemLookup = await findPublicItemForMutation({
-    wishlistId: input.wishlistId,
-    itemId: input.itemId,
-  });
-  if ("error" in itemLookup) {
-    return { error: itemLookup.error as ReservationMutationError };
+  if (error) throw error;
+
+  const pledges = netPledgesByContribution(
+    (data || []) as unknown as Array<ContributionRow & { items: { payment_instructions: string | null } | null }>,
+  ).filter((pledge) => pledge.netCents > 0);
+  if (pledges.length === 0) return [];
+
+  const wishlistInstructions = pledges.every((pledge) => pledge.row.items?.payment_instructions)
+    ? null
+    : (await getWishlistRecordById(input.wishlistId))?.paymentInstructions ?? null;
+  const windowMs = pledgeChangeWindowMinutes() * 60 * 1000;
+  return pledges.map(({ row, netCents }) => ({
+    contributionId: row.id,
+    itemId: row.item_id,
+    originalAmountCents: row.amount_cents,
+    amountCents: netCents,
+    fulfillmentStatus: row.fulfillment_status,
+    paymentMethod: row.payment_method,
+    paymentInstructions: row.items?.payment_instructions || wishlistInstructions,
+    createdAt: row.created_at,
+    changeableUntil: new Date(Date.parse(row.created_at) + windowMs).toISOString(),
+  }));
+}
+
+export async function setContributionFulfillment(input: {
+  wishlistId: string;
+  contributionId: string;
+  actorUserId: string;
+  action: ContributionFulfillmentAction;
+  paymentMethod?: string | null;
+}) {
+  const { actorUserId } = input;
+  if (input.action !== "mark_paid" && input.action !== "confirm") {
+    return { error: "INVALID_ACTION" as ContributionFulfillmentError };
   }
 
-  let item = itemLookup;
-  const actorReservation = await findActiveReservationRowForActor({
-    itemId: item.id,
-    actorUserId,
-  });
-  if (!actorReservation) {
-    return { error: "NO_ACTIVE_RESERVATION" as ReservationMutationError };
+  const paymentMethod = (input.paymentMethod || "").trim() || null;
+  if (paymentMethod && paymentMethod.length > MAX_PAYMENT_METHOD_LENGTH) {
+    return { error: "INVALID_PAYMENT_METHOD" as ContributionFulfillmentError };
   }
 
-  const releasedAt = nowIso();
   const supabase = getSupabaseAdminClient();
-  const { error } = await supabase
-    .from("reservations")
-    .update({
-      status: "released",
-      updated_at: releasedAt,
+  const { data, error } = await supabase
+    .rpc("set_contribution_fulfillment", {
+      p_wishlist_id: input.wishlistId,
+      p_contribution_id: input.contributionId,
+      p_user_id: actorUserId,
+      p_action: input.action,
+      p_payment_method: input.action === "mark_paid" ? paymentMethod : null,
     })
-    .eq("id", actorReservation.id);
+    .single();
 
-  if (error) throw error;
+  if (error) {
+    if (error.code === "22P02") {
+      return { error: "NOT_FOUND" as ContributionFulfillmentError };
+    }
+    throw error;
+  }
 
-  const touchedItem = await touchItemUpdatedAt(item.id, releasedAt);
-  if (touchedItem) {
-    item = touchedItem;
-  } else {
-    item = { ...item, updatedAt: releasedAt };
+  const result = data as ContributionFulfillmentFunctionRow;
+  if (result.outcome !== "UPDATED" || !result.item_id) {
+    return { error: (result.outcome === "UPDATED" ? "NOT_FOUND" : result.outcome) as ContributionFulfillmentError };
   }
 
-  const store = getStore();
-  const cachedReservation = store.reservations.find(
-    (reservation) => reservation.itemId === item.id && reservation.actorEmail === input.actorEmail,
-  );
-  if (cachedReservation) {
-    cachedReservation.status = "released";
-    cachedReservation.updatedAt = releasedAt;
-  } else {
-    store.reservations.unshift({
-      id: randomUUID(),
-      wishlistId: item.wishlistId,
-      itemId: item.id,
-      actorEmail: input.actorEmail,
-      status: "released",
-      createdAt: actorReservation.created_at,
-      updatedAt: releasedAt,
-    });
+  const item = await loadPublicMutationItem(result.item_id);
+  if (!item) {
+    return { error: "NOT_FOUND" as ContributionFulfillmentError };
   }
 
-  logAudit("unreserve", item.id, input.actorEmail, item.wishlistId);
+  await logAudit(
+    input.action === "mark_paid" ? "mark_contribution_paid" : "confirm_contribution",
+    item.id,
+    actorUserId,
+    item.wishlistId,
+    { contributionId: input.contributionId },
+  );
 
   return {
-    reservationStatus: "released" as const,
-    item: buildPublicItemReadModel(item, { availability: "available" }),
+    contributionId: input.contributionId,
+    fulfillmentStatus: result.fulfillment_status ?? (input.action === "mark_paid" ? "paid" : "confirmed"),
+    item: await buildPublicMutationReadModel(item),
   };
 }
 
-export async function contributeToPublicItem(input: {
+export async function listOrganizedItemIdsForActor(input: { wishlistId: string; actorUserId: string }): Promise<string[]> {
+  const items = (await listItemRowsByWishlist(input.wishlistId))
+    .filter((row) => !row.archived_at && row.is_group_funded)
+    .map((row) => mapItemRowToRecord(row, ""));
+  if (items.length === 0) return [];
+
+  const [contributionRows, wishlistOwnerId] = await Promise.all([
+    listContributionRowsByItemIds(items.map((item) => item.id)),
+    findWishlistOwnerId(input.wishlistId),
+  ]);
+  return items
+    .filter((item) => resolveOrganizerUserId(item, contributionRows, wishlistOwnerId) === input.actorUserId)
+    .map((item) => item.id);
+}
+
+export async function listOrganizerLedger(input: { wishlistId: string; itemId: string; actorUserId: string }) {
+  const row = await findItemRowById(input.itemId);
+  if (!row || row.wishlist_id !== input.wishlistId || !row.is_group_funded) {
+    return { error: "NOT_FOUND" as OrganizerLedgerError };
+  }
+
+  const item = mapItemRowToRecord(row, "");
+  const [contributionRows, wishlistOwnerId] = await Promise.all([
+    listContributionRowsByItemIds([item.id]),
+    findWishlistOwnerId(item.wishlistId),
+  ]);
+  if (resolveOrganizerUserId(item, contributionRows, wishlistOwnerId) !== input.actorUserId) {
+    return { error: "FORBIDDEN" as OrganizerLedgerError };
+  }
+
+  const pledges = netPledgesByContribution(contributionRows).filter((pledge) => pledge.netCents > 0);
+  const emailsById = await fetchUserEmailsByIds(Array.from(new Set(pledges.map((pledge) => pledge.row.user_id))));
+  const entries: OrganizerLedgerEntry[] = pledges
+    .sort((a, b) => Date.parse(a.row.created_at) - Date.parse(b.row.created_at))
+    .map(({ row: pledge, netCents }) => ({
+      contributionId: pledge.id,
+      contributorEmail: emailsById.get(pledge.user_id) || "Unknown contributor",
+      amountCents: netCents,
+      fulfillmentStatus: pledge.fulfillment_status,
+      paymentMethod: pledge.payment_method,
+      paidAt: pledge.paid_at,
+      confirmedAt: pledge.confirmed_at,
+      createdAt: pledge.created_at,
+    }));
+
+  return { itemId: item.id, paymentInstructions: item.paymentInstructions, entries };
+}
+
+export async function setItemPaymentInstructionsAsOrganizer(input: {
   wishlistId: string;
   itemId: string;
-  actorEmail: string;
-  amountCents: number;
+  actorUserId: string;
+  instructions: string | null;
 }) {
-  const actorUserId = await resolveActorUserId(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as ContributionMutationError };
-  }
-
-  const itemLookup = await findPublicItemForMutation({
-    wishlistId: input.wishlistId,
-    itemId: input.itemId,
-  });
-  if ("error" in itemLookup) {
-    return { error: itemLookup.error as ContributionMutationError };
+  const instructions = (input.instructions || "").trim() || null;
+  if (instructions && instructions.length > MAX_PAYMENT_INSTRUCTIONS_LENGTH) {
+    return { error: "TOO_LONG" as SetPaymentInstructionsError };
   }
 
-  let item = itemLookup;
-
-  if (item.archivedAt) {
-    return { error: "ARCHIVED" as ContributionMutationError };
+  const row = await findItemRowById(input.itemId);
+  if (!row || row.wishlist_id !== input.wishlistId || !row.is_group_funded) {
+    return { error: "NOT_FOUND" as SetPaymentInstructionsError };
   }
-
-  if (!item.isGroupFunded) {
-    return { error: "NOT_GROUP_FUNDED" as ContributionMutationError };
+  if (row.archived_at) {
+    return { error: "ARCHIVED" as SetPaymentInstructionsError };
   }
 
-  if (!Number.isInteger(input.amountCents) || input.amountCents < 100) {
-    return { error: "INVALID_AMOUNT" as ContributionMutationError };
+  const current = mapItemRowToRecord(row, "");
+  const [contributionRows, wishlistOwnerId] = await Promise.all([
+    listContributionRowsByItemIds([current.id]),
+    findWishlistOwnerId(current.wishlistId),
+  ]);
+  if (resolveOrganizerUserId(current, contributionRows, wishlistOwnerId) !== input.actorUserId) {
+    return { error: "FORBIDDEN" as SetPaymentInstructionsError };
   }
 
-  const createdAt = nowIso();
   const supabase = getSupabaseAdminClient();
-  const { data: inserted, error: insertError } = await supabase
-    .from("contributions")
-    .insert({
-      item_id: item.id,
-      user_id: actorUserId,
-      amount_cents: input.amountCents,
-      created_at: createdAt,
+  const { data, error } = await supabase
+    .from("items")
+    .update({
+      payment_instructions: instructions,
+      updated_at: nowIso(),
     })
-    .select(contributionSelectColumns())
+    .eq("id", current.id)
+    .select(itemSelectColumns())
     .single();
 
-  if (insertError || !inserted) {
-    throw insertError || new Error("Unable to create contribution.");
-  }
-
-  const touched = await touchItemUpdatedAt(item.id, createdAt);
-  if (touched) {
-    item = touched;
+  if (error || !data) {
+    throw error || new Error("Unable to update payment instructions.");
   }
 
-  const insertedRow = inserted as unknown as ContributionRow;
-  const contributionRows = await listContributionRowsByItemIds([item.id]);
-  const contributionStats = buildContributionStatsByItem(contributionRows).get(item.id) || {
-    fundedCents: input.amountCents,
-    contributorCount: 1,
-  };
-
-  const store = getStore();
-  const contribution: ContributionRecord = {
-    id: insertedRow.id || randomUUID(),
-    wishlistId: item.wishlistId,
-    itemId: item.id,
-    actorEmail: input.actorEmail,
-    amountCents: input.amountCents,
-    createdAt: insertedRow.created_at || createdAt,
-  };
+  const item = mapItemRowToRecord(data as unknown as ItemRow, "");
+  await logAudit("set_payment_instructions", item.id, input.actorUserId, item.wishlistId);
 
-  store.contributions.unshift(contribution);
-  item.fundedCents = contributionStats.fundedCents;
-  item.contributorCount = contributionStats.contributorCount;
-  logAudit("contribute", item.id, input.actorEmail, item.wishlistId);
-
-  return {
-    contribution,
-    item: buildPublicItemReadModel(item, {
-      fundedCents: contributionStats.fundedCents,
-      contributorCount: contributionStats.contributorCount,
-    }),
-  };
+  return { itemId: item.id, paymentInstructions: item.paymentInstructions };
 }
 
-export async function recordWishlistOpen(input: { wishlistId: string; actorEmail: string }) {
-  const actorUserId = await resolveActorUserId(input.actorEmail);
-  if (!actorUserId) {
-    return { error: "ACTOR_NOT_FOUND" as const };
-  }
-
+export async function recordWishlistOpen(input: { wishlistId: string; actorUserId: string }) {
+  const { actorUserId } = input;
   const now = nowIso();
   const supabase = getSupabaseAdminClient();
 
@@ -1612,174 +2477,264 @@ export async function recordWishlistOpen(input: { wishlistId: string; actorEmail
   };
 }
 
-async function listWishlistOpenRowsByActor(actorUserId: string): Promise<WishlistOpenRow[]> {
+export async function pruneStaleWishlistOpens(input: { retentionDays: number }) {
+  const safeRetentionDays = normalizeRetentionDays(input.retentionDays);
   const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
+  const { count, error } = await supabase
     .from("wishlist_opens")
-    .select(wishlistOpenSelectColumns())
-    .eq("user_id", actorUserId)
-    .order("last_opened_at", { ascending: false });
+    .delete({ count: "exact" })
+    .lt("last_opened_at", retentionCutoffIso(safeRetentionDays));
 
   if (error) throw error;
-  return (data || []) as unknown as WishlistOpenRow[];
+
+  return {
+    removedCount: count ?? 0,
+    retentionDays: safeRetentionDays,
+  };
 }
 
-export async function listActivityForActor(input: { actorEmail: string }): Promise<ActivityEntry[]> {
-  const normalizedActorEmail = normalizeEmail(input.actorEmail);
-  const actorUserId = await resolveActorUserId(normalizedActorEmail);
-  if (!actorUserId) return [];
+type ActivityReservationRow = {
+  id: string;
+  wishlist_id: string;
+  item_id: string;
+  status: "active" | "purchased" | "released";
+  created_at: string;
+  items: { title: string } | null;
+  wishlists: { title: string } | null;
+};
 
-  const store = getStore();
-  const itemTitleById = new Map(store.items.map((item) => [item.id, item.title]));
-
-  const reservationEntries: ActivityEntry[] = store.reservations
-    .filter((reservation) => normalizeEmail(reservation.actorEmail) === normalizedActorEmail)
-    .map((reservation) => ({
-      id: `res-${reservation.id}`,
-      kind: "reservation",
-      action: reservation.status === "active" ? "reserved" : "unreserved",
-      wishlistId: reservation.wishlistId,
-      itemId: reservation.itemId,
-      itemTitle: itemTitleById.get(reservation.itemId) || "Untitled item",
-      amountCents: null,
-      status: reservation.status,
-      openCount: null,
-      happenedAt: reservation.updatedAt,
-    }));
+type ActivityContributionRow = {
+  id: string;
+  item_id: string;
+  amount_cents: number;
+  reversal_kind: "withdraw" | "reduce" | null;
+  created_at: string;
+  items: { title: string; wishlist_id: string; wishlists: { title: string } | null } | null;
+};
 
-  const contributionEntries: ActivityEntry[] = store.contributions
-    .filter((contribution) => normalizeEmail(contribution.actorEmail) === normalizedActorEmail)
-    .map((contribution) => ({
-      id: `con-${contribution.id}`,
-      kind: "contribution",
-      action: "contributed",
-      wishlistId: contribution.wishlistId,
-      itemId: contribution.itemId,
-      itemTitle: itemTitleById.get(contribution.itemId) || "Untitled item",
-      amountCents: contribution.amountCents,
-      status: null,
-      openCount: null,
-      happenedAt: contribution.createdAt,
-    }));
-  const wishlistOpenRows = await listWishlistOpenRowsByActor(actorUserId);
-  const wishlistVisitEntries: ActivityEntry[] = wishlistOpenRows.map((row) => ({
-    id: `open-${row.id}`,
-    kind: "visit",
-    action: "opened_wishlist",
-    wishlistId: row.wishlist_id,
-    itemId: null,
-    itemTitle: null,
-    amountCents: null,
-    status: null,
-    openCount: row.open_count,
-    happenedAt: row.last_opened_at,
-  }));
+type ActivityVisitRow = {
+  id: string;
+  wishlist_id: string;
+  open_count: number;
+  first_opened_at: string;
+  wishlists: { title: string } | null;
+};
 
-  return [...wishlistVisitEntries, ...reservationEntries, ...contributionEntries].sort(
-    (a, b) => new Date(b.happenedAt).getTime() - new Date(a.happenedAt).getTime(),
-  );
+type ActivityCursor = {
+  happenedAt: string;
+  kind: ActivityEntry["kind"];
+  rowId: string;
+};
+
+const ACTIVITY_KIND_RANK: Record<ActivityEntry["kind"], number> = {
+  visit: 0,
+  reservation: 1,
+  contribution: 2,
+};
+
+function timestampMicros(value: string): number {
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) return 0;
+  const fraction = /\.(\d+)/.exec(value)?.[1] || "";
+  const extraMicros = Number(fraction.padEnd(6, "0").slice(3, 6)) || 0;
+  return parsed * 1000 + extraMicros;
 }
 
-export function readIdempotency(input: {
-  scope: string;
-  actorEmail: string;
-  key: string;
-  payload: unknown;
-}): IdempotencyReadResult {
-  pruneExpiredIdempotency();
+function compareActivityEntries(a: ActivityEntry, b: ActivityEntry): number {
+  const byTime = timestampMicros(b.happenedAt) - timestampMicros(a.happenedAt);
+  if (byTime !== 0) return byTime;
+  const byKind = ACTIVITY_KIND_RANK[b.kind] - ACTIVITY_KIND_RANK[a.kind];
+  if (byKind !== 0) return byKind;
+  return a.rowId < b.rowId ? 1 : a.rowId > b.rowId ? -1 : 0;
+}
 
-  const store = getStore();
-  const payloadHash = hashPayload(input.payload);
-  const existing = store.idempotency.find(
-    (entry) => entry.scope === input.scope && entry.actorEmail === input.actorEmail && entry.key === input.key,
-  );
+function encodeActivityCursor(entry: ActivityEntry): string {
+  const cursor: ActivityCursor = { happenedAt: entry.happenedAt, kind: entry.kind, rowId: entry.rowId };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-  if (!existing) {
-    return { kind: "miss" };
+function decodeActivityCursor(raw: string): ActivityCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8")) as Partial<ActivityCursor>;
+    if (typeof parsed.happenedAt !== "string" || !Number.isFinite(Date.parse(parsed.happenedAt))) return null;
+    if (parsed.kind !== "visit" && parsed.kind !== "reservation" && parsed.kind !== "contribution") return null;
+    if (typeof parsed.rowId !== "string" || !/^[0-9a-f-]{36}$/i.test(parsed.rowId)) return null;
+    return { happenedAt: parsed.happenedAt, kind: parsed.kind, rowId: parsed.rowId };
+  } catch {
+    return null;
   }
+}
 
-  if (existing.payloadHash !== payloadHash) {
-    return { kind: "payload_mismatch" };
-  }
+export function isValidActivityCursor(raw: string): boolean {
+  return decodeActivityCursor(raw) !== null;
+}
 
-  return {
-    kind: "cached",
-    status: existing.status,
-    body: existing.body,
-  };
+function activityCursorFilter(column: string, kind: ActivityEntry["kind"], cursor: ActivityCursor): string {
+  const happenedAt = `"${cursor.happenedAt}"`;
+  const rank = ACTIVITY_KIND_RANK[kind];
+  const cursorRank = ACTIVITY_KIND_RANK[cursor.kind];
+  if (rank < cursorRank) return `${column}.lte.${happenedAt}`;
+  if (rank > cursorRank) return `${column}.lt.${happenedAt}`;
+  return `${column}.lt.${happenedAt},and(${column}.eq.${happenedAt},id.lt.${cursor.rowId})`;
 }
 
-export function writeIdempotency(input: {
-  scope: string;
-  actorEmail: string;
-  key: string;
-  payload: unknown;
-  status: number;
-  body: unknown;
-  ttlSec: number;
-}) {
-  pruneExpiredIdempotency();
+async function listReservationActivity(input: {
+  actorUserId: string;
+  wishlistId: string | null;
+  status: ActivityStatusFilter;
+  cursor: ActivityCursor | null;
+  limit: number;
+}): Promise<ActivityEntry[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("reservations")
+    .select("id,wishlist_id,item_id,status,created_at,items(title),wishlists(title)")
+    .eq("user_id", input.actorUserId);
 
-  const store = getStore();
-  const payloadHash = hashPayload(input.payload);
+  if (input.wishlistId) query = query.eq("wishlist_id", input.wishlistId);
+  if (input.status === "active") query = query.in("status", HELD_RESERVATION_STATUSES);
+  if (input.cursor) query = query.or(activityCursorFilter("created_at", "reservation", input.cursor));
 
-  store.idempotency = store.idempotency.filter(
-    (entry) => !(entry.scope === input.scope && entry.actorEmail === input.actorEmail && entry.key === input.key),
-  );
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(input.limit);
 
-  store.idempotency.push({
-    scope: input.scope,
-    actorEmail: input.actorEmail,
-    key: input.key,
-    payloadHash,
-    status: input.status,
-    body: input.body,
-    expiresAt: nowMs() + input.ttlSec * 1000,
-  });
+  if (error) throw error;
+
+  return ((data || []) as unknown as ActivityReservationRow[]).map((row) => ({
+    id: `res-${row.id}`,
+    rowId: row.id,
+    kind: "reservation",
+    action: row.status === "active" ? "reserved" : row.status === "purchased" ? "purchased" : "unreserved",
+    wishlistId: row.wishlist_id,
+    wishlistTitle: row.wishlists?.title ?? null,
+    itemId: row.item_id,
+    itemTitle: row.items?.title ?? null,
+    amountCents: null,
+    status: row.status,
+    openCount: null,
+    happenedAt: row.created_at,
+  }));
 }
 
-export function consumeActionRateLimit(input: {
-  scope: string;
-  actorEmail: string;
-  ipAddress: string;
-  limitPerMin: number;
-}): { ok: true } | { ok: false; retryAfterSec: number } {
-  pruneExpiredRateWindows();
+async function listContributionActivity(input: {
+  actorUserId: string;
+  wishlistId: string | null;
+  cursor: ActivityCursor | null;
+  limit: number;
+}): Promise<ActivityEntry[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("contributions")
+    .select("id,item_id,amount_cents,reversal_kind,created_at,items!inner(title,wishlist_id,wishlists(title))")
+    .eq("user_id", input.actorUserId);
 
-  const store = getStore();
-  const now = nowMs();
-  const key = `${input.scope}:${input.actorEmail}:${input.ipAddress}`;
-  const existing = store.rateLimits[key];
+  if (input.wishlistId) query = query.eq("items.wishlist_id", input.wishlistId);
+  if (input.cursor) query = query.or(activityCursorFilter("created_at", "contribution", input.cursor));
 
-  if (!existing) {
-    store.rateLimits[key] = {
-      count: 1,
-      windowStartedAt: now,
-    };
-    return { ok: true };
-  }
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(input.limit);
 
-  const elapsed = now - existing.windowStartedAt;
-  if (elapsed >= RATE_LIMIT_WINDOW_MS) {
-    store.rateLimits[key] = {
-      count: 1,
-      windowStartedAt: now,
-    };
-    return { ok: true };
-  }
+  if (error) throw error;
 
-  if (existing.count >= input.limitPerMin) {
-    const retryAfterSec = Math.max(1, Math.ceil((RATE_LIMIT_WINDOW_MS - elapsed) / 1000));
-    return { ok: false, retryAfterSec };
-  }
+  return ((data || []) as unknown as ActivityContributionRow[]).map((row) => ({
+    id: `con-${row.id}`,
+    rowId: row.id,
+    kind: "contribution",
+    action:
+      row.reversal_kind === "withdraw"
+        ? "withdrew_pledge"
+        : row.reversal_kind === "reduce"
+          ? "reduced_pledge"
+          : "contributed",
+    wishlistId: row.items?.wishlist_id || "",
+    wishlistTitle: row.items?.wishlists?.title ?? null,
+    itemId: row.item_id,
+    itemTitle: row.items?.title ?? null,
+    amountCents: row.amount_cents,
+    status: null,
+    openCount: null,
+    happenedAt: row.created_at,
+  }));
+}
+
+async function listVisitActivity(input: {
+  actorUserId: string;
+  wishlistId: string | null;
+  cursor: ActivityCursor | null;
+  limit: number;
+}): Promise<ActivityEntry[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("wishlist_opens")
+    .select("id,wishlist_id,open_count,first_opened_at,wishlists(title)")
+    .eq("user_id", input.actorUserId);
+
+  if (input.wishlistId) query = query.eq("wishlist_id", input.wishlistId);
+  if (input.cursor) query = query.or(activityCursorFilter("first_opened_at", "visit", input.cursor));
+
+  const { data, error } = await query
+    .order("first_opened_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(input.limit);
+
+  if (error) throw error;
+
+  return ((data || []) as unknown as ActivityVisitRow[]).map((row) => ({
+    id: `open-${row.id}`,
+    rowId: row.id,
+    kind: "visit",
+    action: "opened_wishlist",
+    wishlistId: row.wishlist_id,
+    wishlistTitle: row.wishlists?.title ?? null,
+    itemId: null,
+    itemTitle: null,
+    amountCents: null,
+    status: null,
+    openCount: row.open_count,
+    happenedAt: row.first_opened_at,
+  }));
+}
+
+export async function listActivityForActor(input: {
+  actorUserId: string;
+  wishlistId?: string | null;
+  status?: ActivityStatusFilter;
+  cursor?: string | null;
+  limit?: number;
+}): Promise<ActivityPage> {
+  const limit = Math.min(Math.max(Math.floor(input.limit ?? ACTIVITY_PAGE_SIZE), 1), ACTIVITY_PAGE_SIZE_MAX);
+  const status = input.status ?? "all";
+  const cursor = input.cursor ? decodeActivityCursor(input.cursor) : null;
+  const sourceInput = {
+    actorUserId: input.actorUserId,
+    wishlistId: input.wishlistId || null,
+    cursor,
+    limit: limit + 1,
+  };
+
+  const [reservationEntries, contributionEntries, visitEntries] = await Promise.all([
+    listReservationActivity({ ...sourceInput, status }),
+    listContributionActivity(sourceInput),
+    status === "active" ? Promise.resolve([] as ActivityEntry[]) : listVisitActivity(sourceInput),
+  ]);
+
+  const merged = [...reservationEntries, ...contributionEntries, ...visitEntries].sort(compareActivityEntries);
+  const entries = merged.slice(0, limit);
+  const hasMore = merged.length > limit;
 
-  existing.count += 1;
-  return { ok: true };
+  return {
+    entries,
+    nextCursor: hasMore && entries.length > 0 ? encodeActivityCursor(entries[entries.length - 1]) : null,
+  };
 }
 
 export async function prepareItemImageUpload(input: {
   itemId: string;
-  ownerEmail: string;
+  ownerUserId: string;
   filename: string;
   mimeType: string;
   sizeBytes: number;
@@ -1789,7 +2744,7 @@ export async function prepareItemImageUpload(input: {
 }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
   if ("error" in owned) {
     return { error: owned.error as PrepareImageUploadError };
@@ -1816,7 +2771,7 @@ export async function prepareItemImageUpload(input: {
   pruneExpiredTickets();
 
   const path = buildStoragePath({
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
     wishlistId: owned.wishlistId,
     itemId: owned.id,
     filename: input.filename,
@@ -1827,7 +2782,7 @@ export async function prepareItemImageUpload(input: {
   store.uploadTickets.push({
     token: uploadToken,
     itemId: owned.id,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
     path,
     mimeType: normalizedMime,
     maxBytes: input.maxBytes,
@@ -1841,7 +2796,7 @@ export async function prepareItemImageUpload(input: {
 
 export async function uploadItemImage(input: {
   uploadToken: string;
-  ownerEmail: string;
+  ownerUserId: string;
   mimeType: string;
   fileBytes: Uint8Array;
 }) {
@@ -1855,7 +2810,7 @@ export async function uploadItemImage(input: {
 
   const ticket = store.uploadTickets[ticketIndex];
 
-  if (ticket.ownerEmail !== input.ownerEmail) {
+  if (ticket.ownerUserId !== input.ownerUserId) {
     return { error: "FORBIDDEN" as UploadItemImageError };
   }
 
@@ -1874,7 +2829,7 @@ export async function uploadItemImage(input: {
 
   const owned = await findOwnedItem({
     itemId: ticket.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
   if ("error" in owned) {
     store.uploadTickets.splice(ticketIndex, 1);
@@ -1921,9 +2876,9 @@ export async function uploadItemImage(input: {
     return { error: "NOT_FOUND" as UploadItemImageError };
   }
 
-  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerEmail));
+  const item = await hydrateContributionStatsForItem(mapItemRowToRecord(data as unknown as ItemRow, input.ownerUserId));
   upsertCachedItem(item);
-  logAudit("update", item.id, item.ownerEmail, item.wishlistId);
+  await logAudit("update", item.id, item.ownerUserId, item.wishlistId);
 
   store.uploadTickets.splice(ticketIndex, 1);
 
@@ -1934,10 +2889,10 @@ export async function uploadItemImage(input: {
   };
 }
 
-export async function createItemImagePreview(input: { itemId: string; ownerEmail: string; imageIndex?: number }) {
+export async function createItemImagePreview(input: { itemId: string; ownerUserId: string; imageIndex?: number }) {
   const owned = await findOwnedItem({
     itemId: input.itemId,
-    ownerEmail: input.ownerEmail,
+    ownerUserId: input.ownerUserId,
   });
   if ("error" in owned) {
     return { error: owned.error as CreatePreviewError };
@@ -1988,55 +2943,41 @@ export function resolveItemImagePreview(input: { itemId: string; previewToken: s
   };
 }
 
-export function listItemAuditEvents(input: {
+export async function listItemAuditEvents(input: {
   wishlistId?: string;
   action?: ItemAuditAction;
   since?: string;
   limit?: number;
-}) {
-  const store = getStore();
-  const sinceTime = input.since ? new Date(input.since).getTime() : Number.NEGATIVE_INFINITY;
-  const limit = Math.min(Math.max(input.limit ?? 200, 1), 500);
-
-  return store.auditEvents
-    .filter((event) => {
-      if (input.wishlistId && event.wishlistId !== input.wishlistId) return false;
-      if (input.action && event.action !== input.action) return false;
-      if (new Date(event.createdAt).getTime() < sinceTime) return false;
-      return true;
-    })
-    .slice(0, limit);
-}
+}): Promise<ItemAuditEvent[]> {
+  const events = await listAuditEvents({
+    entityType: "item",
+    wishlistId: input.wishlistId,
+    action: input.action,
+    since: input.since,
+    limit: input.limit,
+  });
 
-export function pruneItemAuditEvents(input: { retentionDays: number }) {
-  const safeRetentionDays = Math.min(Math.max(Math.floor(input.retentionDays), 1), 3650);
-  const cutoffMs = Date.now() - safeRetentionDays * 24 * 60 * 60 * 1000;
-  const store = getStore();
-  const before = store.auditEvents.length;
-  store.auditEvents = store.auditEvents.filter((event) => new Date(event.createdAt).getTime() >= cutoffMs);
-  return {
-    removedCount: before - store.auditEvents.length,
-    retentionDays: safeRetentionDays,
-  };
-}
+  const emailsById = await fetchUserEmailsByIds(
+    events.map((event) => event.actorUserId).filter((userId): userId is string => Boolean(userId)),
+  );
 
-export async function deleteItemsForWishlist(input: { wishlistId: string; ownerEmail: string; ownerId?: string }) {
-  let hasAccess = false;
-  const providedOwnerId = input.ownerId?.trim() || "";
-  if (providedOwnerId) {
-    const supabase = getSupabaseAdminClient();
-    const { data, error } = await supabase
-      .from("wishlists")
-      .select("owner_id")
-      .eq("id", input.wishlistId)
-      .maybeSingle();
+  return events.map((event) => ({
+    id: event.id,
+    action: event.action as ItemAuditAction,
+    wishlistId: event.wishlistId || "",
+    entityId: event.entityId,
+    actorUserId: event.actorUserId,
+    actorEmail: (event.actorUserId && emailsById.get(event.actorUserId)) || "",
+    createdAt: event.createdAt,
+  }));
+}
 
-    if (error && error.code !== "PGRST116") throw error;
-    hasAccess = Boolean(data && (data as { owner_id?: string }).owner_id === providedOwnerId);
-  } else {
-    hasAccess = await hasOwnerAccessToWishlist(input.ownerEmail, input.wishlistId);
-  }
+export async function pruneItemAuditEvents(input: { retentionDays: number }) {
+  return pruneAuditEvents({ entityType: "item", retentionDays: input.retentionDays });
+}
 
+export async function deleteItemsForWishlist(input: { wishlistId: string; ownerUserId: string }) {
+  const hasAccess = await hasOwnerAccessToWishlist(input.ownerUserId, input.wishlistId);
   if (!hasAccess) {
     return { deletedCount: 0 };
   }
@@ -2051,7 +2992,7 @@ export async function deleteItemsForWishlist(input: { wishlistId: string; ownerE
   const itemIdList = Array.from(itemIds);
 
   for (const row of rows) {
-    const item = mapItemRowToRecord(row, input.ownerEmail);
+    const item = mapItemRowToRecord(row, input.ownerUserId);
     for (const imageRef of getItemImageUrls(item)) {
       if (isStorageRef(imageRef)) {
         removeImageByPath(parseStoragePath(imageRef));
@@ -0,0 +1,63 @@
+import "server-only";
+
+import type { OwnerStreamItem } from "@/app/_lib/item-store";
+
+export type OwnerStreamDelta =
+  | {
+      type: "item_changed";
+      itemId: string;
+      changes: Partial<OwnerStreamItem>;
+    }
+  | {
+      type: "item_added";
+      index: number;
+      item: OwnerStreamItem;
+    }
+  | {
+      type: "item_removed";
+      itemId: string;
+    };
+
+function sameValue(left: unknown, right: unknown) {
+  if (left === right) return true;
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((value, index) => value === right[index]);
+  }
+  return false;
+}
+
+function diffOwnerStreamItem(previous: OwnerStreamItem, next: OwnerStreamItem): Partial<OwnerStreamItem> {
+  const changes: Partial<OwnerStreamItem> = {};
+  for (const key of Object.keys(next) as Array<keyof OwnerStreamItem>) {
+    if (!sameValue(previous[key], next[key])) {
+      Object.assign(changes, { [key]: next[key] });
+    }
+  }
+  return changes;
+}
+
+export function diffOwnerStreamItems(previous: OwnerStreamItem[], next: OwnerStreamItem[]): OwnerStreamDelta[] {
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+  const nextIds = new Set(next.map((item) => item.id));
+  const deltas: OwnerStreamDelta[] = [];
+
+  for (const item of previous) {
+    if (!nextIds.has(item.id)) {
+      deltas.push({ type: "item_removed", itemId: item.id });
+    }
+  }
+
+  next.forEach((item, index) => {
+    const previousItem = previousById.get(item.id);
+    if (!previousItem) {
+      deltas.push({ type: "item_added", index, item });
+      return;
+    }
+    const changes = diffOwnerStreamItem(previousItem, item);
+    if (Object.keys(changes).length > 0) {
+      deltas.push({ type: "item_changed", itemId: item.id, changes });
+    }
+  });
+
+  return deltas;
+}
@@ -0,0 +1,325 @@
+import "server-only";
+
+import {
+  diffPublicWishlistReadModels,
+  resolvePublicWishlistReadModel,
+  type PublicWishlistDelta,
+  type PublicWishlistReadModel,
+} from "@/app/_lib/public-wishlist";
+import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
+import { subscribeToWishlistChanges, type WishlistChangeSubscription } from "@/app/_lib/wishlist-change-feed";
+
+export type PublicWishlistHubEvent =
+  | {
+      type: "update";
+      previousVersion: string;
+      model: PublicWishlistReadModel;
+      deltas: PublicWishlistDelta[] | null;
+    }
+  | { type: "heartbeat" }
+  | { type: "not_found" };
+
+export type StreamMetricsStore = {
+  totalConnections: number;
+  totalDisconnects: number;
+  reconnects: number;
+  lastConnectedAtByToken: Record<string, number>;
+  subscribersByWishlistId: Record<string, number>;
+  refreshes: number;
+  refreshesSaved: number;
+};
+
+type StreamEventLog = {
+  version: string;
+  deltas: PublicWishlistDelta[];
+  touchedAtMs: number;
+};
+
+type HubSubscriber = {
+  shareToken: string;
+  listener: (event: PublicWishlistHubEvent) => void;
+};
+
+type PublicWishlistHub = {
+  wishlistId: string;
+  subscribers: Set<HubSubscriber>;
+  model: PublicWishlistReadModel;
+  inFlight: boolean;
+  refreshPending: boolean;
+  intervalId: ReturnType<typeof setInterval> | null;
+  changeFeed: WishlistChangeSubscription | null;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __publicWishlistStreamMetrics: StreamMetricsStore | undefined;
+  // eslint-disable-next-line no-var
+  var __publicWishlistHubs: Map<string, PublicWishlistHub> | undefined;
+  // eslint-disable-next-line no-var
+  var __publicWishlistEventLogs: Map<string, StreamEventLog> | undefined;
+}
+
+const DEFAULT_STREAM_EVENT_LOG_SIZE = 200;
+const EVENT_LOG_IDLE_RETENTION_MS = 60 * 60 * 1000;
+
+export function getStreamMetricsStore(): StreamMetricsStore {
+  if (!globalThis.__publicWishlistStreamMetrics) {
+    globalThis.__publicWishlistStreamMetrics = {
+      totalConnections: 0,
+      totalDisconnects: 0,
+      reconnects: 0,
+      lastConnectedAtByToken: {},
+      subscribersByWishlistId: {},
+      refreshes: 0,
+      refreshesSaved: 0,
+    };
+  }
+  return globalThis.__publicWishlistStreamMetrics;
+}
+
+function getHubs(): Map<string, PublicWishlistHub> {
+  if (!globalThis.__publicWishlistHubs) {
+    globalThis.__publicWishlistHubs = new Map();
+  }
+  return globalThis.__publicWishlistHubs;
+}
+
+function getEventLogs(): Map<string, StreamEventLog> {
+  if (!globalThis.__publicWishlistEventLogs) {
+    globalThis.__publicWishlistEventLogs = new Map();
+  }
+  return globalThis.__publicWishlistEventLogs;
+}
+
+function streamEventLogSize() {
+  const parsed = Number(process.env.STREAM_EVENT_LOG_SIZE);
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_STREAM_EVENT_LOG_SIZE;
+  return Math.min(Math.max(Math.floor(parsed), 10), 2000);
+}
+
+function pruneIdleEventLogs(nowMs: number) {
+  const hubs = getHubs();
+  for (const [wishlistId, log] of getEventLogs()) {
+    if (!hubs.has(wishlistId) && nowMs - log.touchedAtMs > EVENT_LOG_IDLE_RETENTION_MS) {
+      getEventLogs().delete(wishlistId);
+    }
+  }
+}
+
+function resetEventLog(wishlistId: string, version: string) {
+  getEventLogs().set(wishlistId, { version, deltas: [], touchedAtMs: Date.now() });
+}
+
+function appendToEventLog(
+  wishlistId: string,
+  previousVersion: string,
+  version: string,
+  deltas: PublicWishlistDelta[] | null,
+) {
+  const log = getEventLogs().get(wishlistId);
+  if (!deltas || !log || log.version !== previousVersion) {
+    resetEventLog(wishlistId, version);
+    return;
+  }
+
+  log.deltas.push(...deltas);
+  const overflow = log.deltas.length - streamEventLogSize();
+  if (overflow > 0) {
+    log.deltas.splice(0, overflow);
+  }
+  log.version = version;
+  log.touchedAtMs = Date.now();
+}
+
+export function replayPublicWishlistEvents(
+  wishlistId: string,
+  lastEventId: string,
+  currentVersion: string,
+): PublicWishlistDelta[] | null {
+  const log = getEventLogs().get(wishlistId);
+  if (!log || log.version !== currentVersion) return null;
+  if (lastEventId === currentVersion) return [];
+
+  const start = log.deltas.findIndex((delta) => delta.previousVersion === lastEventId);
+  if (start < 0) return null;
+  return log.deltas.slice(start);
+}
+
+export function getLivePublicWishlistVersion(wishlistId: string): string | null {
+  const hub = getHubs().get(wishlistId);
+  if (!hub || !hub.changeFeed?.isLive()) return null;
+  return hub.model.version;
+}
+
+function syncSubscriberMetric(hub: PublicWishlistHub) {
+  const metrics = getStreamMetricsStore();
+  if (hub.subscribers.size > 0) {
+    metrics.subscribersByWishlistId[hub.wishlistId] = hub.subscribers.size;
+  } else {
+    delete metrics.subscribersByWishlistId[hub.wishlistId];
+  }
+}
+
+function broadcast(hub: PublicWishlistHub, event: PublicWishlistHubEvent, subscribers = [...hub.subscribers]) {
+  for (const subscriber of subscribers) {
+    try {
+      subscriber.listener(event);
+    } catch {
+      continue;
+    }
+  }
+}
+
+function teardownHub(hub: PublicWishlistHub) {
+  const hubs = getHubs();
+  if (hubs.get(hub.wishlistId) !== hub) return;
+
+  hubs.delete(hub.wishlistId);
+  if (hub.intervalId) {
+    clearInterval(hub.intervalId);
+    hub.intervalId = null;
+  }
+  hub.changeFeed?.unsubscribe();
+  hub.changeFeed = null;
+  syncSubscriberMetric(hub);
+}
+
+function dropSubscribersForToken(hub: PublicWishlistHub, shareToken: string) {
+  const stale = [...hub.subscribers].filter((subscriber) => subscriber.shareToken === shareToken);
+  for (const subscriber of stale) {
+    hub.subscribers.delete(subscriber);
+  }
+  syncSubscriberMetric(hub);
+  broadcast(hub, { type: "not_found" }, stale);
+}
+
+async function dropRevokedShareTokens(hub: PublicWishlistHub, currentShareToken: string) {
+  const otherTokens = new Set(
+    [...hub.subscribers].map((subscriber) => subscriber.shareToken).filter((token) => token !== currentShareToken),
+  );
+  for (const shareToken of otherTokens) {
+    const resolved = await resolvePublicWishlistByToken(shareToken);
+    if ("error" in resolved) {
+      dropSubscribersForToken(hub, shareToken);
+    }
+  }
+}
+
+function latestShareToken(hub: PublicWishlistHub) {
+  let shareToken = "";
+  for (const subscriber of hub.subscribers) {
+    shareToken = subscriber.shareToken;
+  }
+  return shareToken;
+}
+
+async function refreshHub(hub: PublicWishlistHub): Promise<boolean> {
+  if (hub.inFlight) {
+    hub.refreshPending = true;
+    return false;
+  }
+  hub.inFlight = true;
+
+  try {
+    while (hub.subscribers.size > 0) {
+      const shareToken = latestShareToken(hub);
+      const resolved = await resolvePublicWishlistReadModel({
+        shareToken,
+        canonicalHost: process.env.CANONICAL_HOST,
+      });
+
+      const metrics = getStreamMetricsStore();
+      metrics.refreshes += 1;
+      metrics.refreshesSaved += Math.max(hub.subscribers.size - 1, 0);
+
+      if (!resolved.ok) {
+        dropSubscribersForToken(hub, shareToken);
+        continue;
+      }
+
+      await dropRevokedShareTokens(hub, shareToken);
+
+      const previous = hub.model;
+      if (resolved.model.version === previous.version) return false;
+
+      const deltas = diffPublicWishlistReadModels(previous, resolved.model);
+      hub.model = resolved.model;
+      appendToEventLog(hub.wishlistId, previous.version, resolved.model.version, deltas);
+      broadcast(hub, {
+        type: "update",
+        previousVersion: previous.version,
+        model: resolved.model,
+        deltas,
+      });
+      return true;
+    }
+    return false;
+  } catch {
+    return false;
+  } finally {
+    hub.inFlight = false;
+    if (hub.subscribers.size === 0) {
+      teardownHub(hub);
+    } else if (hub.refreshPending) {
+      hub.refreshPending = false;
+      void refreshHub(hub);
+    }
+  }
+}
+
+async function tickHub(hub: PublicWishlistHub) {
+  if (!hub.changeFeed?.isLive() && (await refreshHub(hub))) return;
+  broadcast(hub, { type: "heartbeat" });
+}
+
+export function joinPublicWishlistHub(input: {
+  wishlistId: string;
+  shareToken: string;
+  model: PublicWishlistReadModel;
+  heartbeatMs: number;
+  listener: (event: PublicWishlistHubEvent) => void;
+}): () => void {
+  const hubs = getHubs();
+  let hub = hubs.get(input.wishlistId);
+  if (!hub) {
+    const created: PublicWishlistHub = {
+      wishlistId: input.wishlistId,
+      subscribers: new Set(),
+      model: input.model,
+      inFlight: false,
+      refreshPending: false,
+      intervalId: null,
+      changeFeed: null,
+    };
+    hubs.set(input.wishlistId, created);
+    pruneIdleEventLogs(Date.now());
+    if (getEventLogs().get(input.wishlistId)?.version !== input.model.version) {
+      resetEventLog(input.wishlistId, input.model.version);
+    }
+    created.changeFeed = subscribeToWishlistChanges(input.wishlistId, (event) => {
+      if (event.type === "changed" || event.live) {
+        void refreshHub(created);
+      }
+    });
+    created.intervalId = setInterval(() => {
+      void tickHub(created);
+    }, input.heartbeatMs);
+    hub = created;
+  }
+
+  const activeHub = hub;
+  const subscriber: HubSubscriber = {
+    shareToken: input.shareToken,
+    listener: input.listener,
+  };
+  activeHub.subscribers.add(subscriber);
+  syncSubscriberMetric(activeHub);
+
+  return () => {
+    if (!activeHub.subscribers.delete(subscriber)) return;
+    syncSubscriberMetric(activeHub);
+    if (activeHub.subscribers.size === 0 && !activeHub.inFlight) {
+      teardownHub(activeHub);
+    }
+  };
+}
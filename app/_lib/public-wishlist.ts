@@ -16,9 +16,16 @@ export type PublicWishlistItem = {
   priceCents: number | null;
   isGroupFunded: boolean;
   targetCents: number | null;
+  fundingDeadlineAt: string | null;
   fundedCents: number;
+  paidCents: number;
   contributorCount: number;
   progressRatio: number;
+  remainingCents: number | null;
+  maxContributionCents: number | null;
+  quantityDesired: number;
+  quantityReserved: number;
+  quantityRemaining: number;
   availability: "available" | "reserved";
 };
 
@@ -36,6 +43,35 @@ export type PublicWishlistReadModel = {
   items: PublicWishlistItem[];
 };
 
+type PublicWishlistSummary = PublicWishlistReadModel["wishlist"];
+
+type DeltaVersions = {
+  version: string;
+  previousVersion: string;
+};
+
+export type PublicWishlistDelta =
+  | (DeltaVersions & {
+      type: "item_changed";
+      itemId: string;
+      changes: Partial<PublicWishlistItem>;
+    })
+  | (DeltaVersions & {
+      type: "item_added";
+      index: number;
+      item: PublicWishlistItem;
+    })
+  | (DeltaVersions & {
+      type: "item_removed";
+      itemId: string;
+    })
+  | (DeltaVersions & {
+      type: "wishlist_changed";
+      changes: Partial<Omit<PublicWishlistSummary, "shareUrl">>;
+    });
+
+const MAX_DELTAS_PER_UPDATE = 25;
+
 export type PublicWishlistResolveResult =
   | {
       ok: true;
@@ -92,3 +128,90 @@ export async function resolvePublicWishlistReadModel(input: {
     },
   };
 }
+
+function imageUrlPath(value: string | null) {
+  return value ? value.split("?")[0] : null;
+}
+
+function diffFields<T extends Record<string, unknown>>(previous: T, next: T, keys: Array<keyof T>) {
+  const changes: Partial<T> = {};
+  for (const key of keys) {
+    if (previous[key] !== next[key]) {
+      changes[key] = next[key];
+    }
+  }
+  return changes;
+}
+
+function diffItem(previous: PublicWishlistItem, next: PublicWishlistItem): Partial<PublicWishlistItem> {
+  const keys = (Object.keys(next) as Array<keyof PublicWishlistItem>).filter((key) => key !== "imageUrl");
+  const changes = diffFields(previous, next, keys);
+  if (imageUrlPath(previous.imageUrl) !== imageUrlPath(next.imageUrl)) {
+    changes.imageUrl = next.imageUrl;
+  }
+  return changes;
+}
+
+export function diffPublicWishlistReadModels(
+  previous: PublicWishlistReadModel,
+  next: PublicWishlistReadModel,
+): PublicWishlistDelta[] | null {
+  const previousById = new Map(previous.items.map((item) => [item.id, item]));
+  const nextIds = new Set(next.items.map((item) => item.id));
+
+  const keptPrevious = previous.items.filter((item) => nextIds.has(item.id)).map((item) => item.id);
+  const keptNext = next.items.filter((item) => previousById.has(item.id)).map((item) => item.id);
+  if (keptPrevious.some((id, index) => id !== keptNext[index])) return null;
+
+  const changes: Array<
+    | { type: "wishlist_changed"; changes: Partial<Omit<PublicWishlistSummary, "shareUrl">> }
+    | { type: "item_removed"; itemId: string }
+    | { type: "item_changed"; itemId: string; changes: Partial<PublicWishlistItem> }
+    | { type: "item_added"; index: number; item: PublicWishlistItem }
+  > = [];
+
+  const wishlistChanges = diffFields(previous.wishlist, next.wishlist, [
+    "id",
+    "title",
+    "occasionDate",
+    "occasionNote",
+    "currency",
+    "itemCount",
+  ]);
+  if (Object.keys(wishlistChanges).length > 0) {
+    changes.push({ type: "wishlist_changed", changes: wishlistChanges });
+  }
+
+  for (const item of previous.items) {
+    if (!nextIds.has(item.id)) {
+      changes.push({ type: "item_removed", itemId: item.id });
+    }
+  }
+
+  next.items.forEach((item, index) => {
+    const previousItem = previousById.get(item.id);
+    if (!previousItem) {
+      changes.push({ type: "item_added", index, item });
+      return;
+    }
+    const itemChanges = diffItem(previousItem, item);
+    if (Object.keys(itemChanges).length > 0) {
+      changes.push({ type: "item_changed", itemId: item.id, changes: itemChanges });
+    }
+  });
+
+  const ordered = [
+    ...changes.filter((change) => change.type === "wishlist_changed" || change.type === "item_removed"),
+    ...changes.filter((change) => change.type === "item_changed"),
+    ...changes.filter((change) => change.type === "item_added"),
+  ];
+  if (ordered.length > MAX_DELTAS_PER_UPDATE) return null;
+
+  let previousVersion = previous.version;
+  return ordered.map((change, index) => {
+    const version = index === ordered.length - 1 ? next.version : `${next.version}.${index + 1}`;
+    const delta = { ...change, version, previousVersion } as PublicWishlistDelta;
+    previousVersion = version;
+    return delta;
+  });
+}
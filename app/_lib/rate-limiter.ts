@@ -0,0 +1,395 @@
+import { createHash, randomUUID } from "node:crypto";
+
+import { normalizeRetentionDays, retentionCutoffIso } from "@/app/_lib/audit-events";
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+
+export type RateLimitSubjectKind = "actor" | "ip" | "share_token";
+
+export type RateLimitScope = "public-actions" | "public-wishlist" | "public-stream";
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSec: number };
+
+export type RateLimitEvent = {
+  id: string;
+  scope: string;
+  subjectKind: RateLimitSubjectKind;
+  subjectLabel: string;
+  actorUserId: string | null;
+  ipAddress: string | null;
+  shareTokenHint: string | null;
+  limit: number;
+  windowSec: number;
+  createdAt: string;
+};
+
+type RateLimitRule = {
+  kind: RateLimitSubjectKind;
+  bucketValue: string;
+  label: string;
+  limit: number;
+};
+
+type RateLimitContext = {
+  actorUserId: string | null;
+  ipAddress: string;
+  shareToken: string;
+};
+
+type RateLimitBackend = {
+  consume(input: {
+    buckets: { bucketKey: string; limit: number }[];
+    windowMs: number;
+  }): Promise<{ allowed: true } | { allowed: false; deniedIndex: number; retryAfterMs: number }>;
+  recordEvent(event: Omit<RateLimitEvent, "id" | "createdAt">): Promise<void>;
+  listEvents(input: { since?: string; limit: number }): Promise<RateLimitEvent[]>;
+};
+
+type RateLimitEventRow = {
+  id: string;
+  scope: string;
+  subject_kind: RateLimitSubjectKind;
+  subject_label: string;
+  actor_user_id: string | null;
+  ip_address: string | null;
+  share_token_hint: string | null;
+  limit_count: number;
+  window_sec: number;
+  created_at: string;
+};
+
+type MemoryRateLimitStore = {
+  hits: Record<string, number[]>;
+  events: RateLimitEvent[];
+  lastRecordedAtByBucket: Record<string, number>;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __rateLimiterStore: MemoryRateLimitStore | undefined;
+}
+
+const RATE_LIMIT_WINDOW_SEC = 60;
+const EVENT_RECORD_INTERVAL_MS = 10_000;
+const MEMORY_EVENT_LIMIT = 500;
+const HIT_RETENTION_MS = 10 * 60_000;
+const DEFAULT_ACTIONS_PER_MIN = 20;
+const DEFAULT_ACTIONS_PER_IP_PER_MIN = 60;
+const DEFAULT_ACTIONS_PER_TOKEN_PER_MIN = 120;
+const DEFAULT_READS_PER_IP_PER_MIN = 120;
+const DEFAULT_READS_PER_TOKEN_PER_MIN = 600;
+
+function getMemoryStore(): MemoryRateLimitStore {
+  if (!globalThis.__rateLimiterStore) {
+    globalThis.__rateLimiterStore = {
+      hits: {},
+      events: [],
+      lastRecordedAtByBucket: {},
+    };
+  }
+
+  return globalThis.__rateLimiterStore;
+}
+
+function parsePositiveInt(raw: string | undefined, fallback: number) {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+function hashBucketValue(value: string) {
+  return createHash("sha256").update(value).digest("hex").slice(0, 32);
+}
+
+function tokenHint(token: string) {
+  return token.slice(0, 8);
+}
+
+function mapEventRow(row: RateLimitEventRow): RateLimitEvent {
+  return {
+    id: row.id,
+    scope: row.scope,
+    subjectKind: row.subject_kind,
+    subjectLabel: row.subject_label,
+    actorUserId: row.actor_user_id,
+    ipAddress: row.ip_address,
+    shareTokenHint: row.share_token_hint,
+    limit: row.limit_count,
+    windowSec: row.window_sec,
+    createdAt: row.created_at,
+  };
+}
+
+const memoryBackend: RateLimitBackend = {
+  async consume(input) {
+    const store = getMemoryStore();
+    const now = Date.now();
+    const windowStart = now - input.windowMs;
+
+    for (const key of Object.keys(store.hits)) {
+      const recent = store.hits[key].filter((hitAt) => hitAt > now - HIT_RETENTION_MS);
+      if (recent.length === 0) {
+        delete store.hits[key];
+      } else {
+        store.hits[key] = recent;
+      }
+    }
+
+    const windows = input.buckets.map((bucket) =>
+      (store.hits[bucket.bucketKey] || []).filter((hitAt) => hitAt > windowStart),
+    );
+    for (const [index, bucket] of input.buckets.entries()) {
+      store.hits[bucket.bucketKey] = windows[index];
+      if (windows[index].length >= bucket.limit) {
+        return {
+          allowed: false,
+          deniedIndex: index,
+          retryAfterMs: Math.max(1, windows[index][0] + input.windowMs - now),
+        };
+      }
+    }
+
+    for (const bucket of input.buckets) {
+      store.hits[bucket.bucketKey].push(now);
+    }
+    return { allowed: true };
+  },
+  async recordEvent(event) {
+    const store = getMemoryStore();
+    store.events.unshift({
+      ...event,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    });
+    store.events = store.events.slice(0, MEMORY_EVENT_LIMIT);
+  },
+  async listEvents(input) {
+    const store = getMemoryStore();
+    const since = input.since ? new Date(input.since).getTime() : null;
+    return store.events
+      .filter((event) => since === null || new Date(event.createdAt).getTime() >= since)
+      .slice(0, input.limit);
+  },
+};
+
+const postgresBackend: RateLimitBackend = {
+  async consume(input) {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase
+      .rpc("consume_rate_limits", {
+        p_buckets: input.buckets.map((bucket) => bucket.bucketKey),
+        p_limits: input.buckets.map((bucket) => bucket.limit),
+        p_window_ms: input.windowMs,
+      })
+      .single();
+
+    if (error) throw error;
+
+    const row = data as { allowed: boolean; denied_index: number | null; retry_after_ms: number };
+    if (row.allowed || row.denied_index === null) return { allowed: true };
+    return { allowed: false, deniedIndex: row.denied_index, retryAfterMs: row.retry_after_ms };
+  },
+  async recordEvent(event) {
+    const supabase = getSupabaseAdminClient();
+    const { error } = await supabase.from("rate_limit_events").insert({
+      scope: event.scope,
+      subject_kind: event.subjectKind,
+      subject_label: event.subjectLabel,
+      actor_user_id: event.actorUserId,
+      ip_address: event.ipAddress,
+      share_token_hint: event.shareTokenHint,
+      limit_count: event.limit,
+      window_sec: event.windowSec,
+    });
+
+    if (error) throw error;
+  },
+  async listEvents(input) {
+    const supabase = getSupabaseAdminClient();
+    let query = supabase
+      .from("rate_limit_events")
+      .select("id,scope,subject_kind,subject_label,actor_user_id,ip_address,share_token_hint,limit_count,window_sec,created_at")
+      .order("created_at", { ascending: false })
+      .limit(input.limit);
+
+    if (input.since) {
+      query = query.gte("created_at", input.since);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return ((data || []) as RateLimitEventRow[]).map(mapEventRow);
+  },
+};
+
+function getBackend(): RateLimitBackend {
+  const configured = (process.env.RATE_LIMIT_BACKEND || "").trim().toLowerCase();
+  if (configured === "memory") return memoryBackend;
+  if (configured === "postgres") return postgresBackend;
+  return process.env.NODE_ENV === "production" ? postgresBackend : memoryBackend;
+}
+
+function shouldRecordEvent(bucketKey: string, now = Date.now()) {
+  const store = getMemoryStore();
+  const lastRecordedAt = store.lastRecordedAtByBucket[bucketKey];
+  if (typeof lastRecordedAt === "number" && now - lastRecordedAt < EVENT_RECORD_INTERVAL_MS) {
+    return false;
+  }
+
+  for (const key of Object.keys(store.lastRecordedAtByBucket)) {
+    if (now - store.lastRecordedAtByBucket[key] >= EVENT_RECORD_INTERVAL_MS) {
+      delete store.lastRecordedAtByBucket[key];
+    }
+  }
+
+  store.lastRecordedAtByBucket[bucketKey] = now;
+  return true;
+}
+
+async function consumeRules(scope: RateLimitScope, rules: RateLimitRule[], context: RateLimitContext): Promise<RateLimitResult> {
+  const backend = getBackend();
+  const windowMs = RATE_LIMIT_WINDOW_SEC * 1000;
+  const buckets = rules.map((rule) => ({ bucketKey: `${scope}:${rule.kind}:${rule.bucketValue}`, limit: rule.limit }));
+
+  let outcome: Awaited<ReturnType<RateLimitBackend["consume"]>>;
+  try {
+    outcome = await backend.consume({ buckets, windowMs });
+  } catch (error) {
+    console.warn("rate_limit_backend_failed", {
+      scope,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return { ok: true };
+  }
+
+  if (outcome.allowed) return { ok: true };
+
+  const rule = rules[outcome.deniedIndex];
+  const bucketKey = buckets[outcome.deniedIndex]?.bucketKey;
+  if (rule && bucketKey && shouldRecordEvent(bucketKey)) {
+    try {
+      await backend.recordEvent({
+        scope,
+        subjectKind: rule.kind,
+        subjectLabel: rule.label,
+        actorUserId: context.actorUserId,
+        ipAddress: context.ipAddress,
+        shareTokenHint: tokenHint(context.shareToken),
+        limit: rule.limit,
+        windowSec: RATE_LIMIT_WINDOW_SEC,
+      });
+    } catch (error) {
+      console.warn("rate_limit_event_write_failed", {
+        scope,
+        subjectKind: rule.kind,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
+
+  return { ok: false, retryAfterSec: Math.max(1, Math.ceil(outcome.retryAfterMs / 1000)) };
+}
+
+export function parseClientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for") || "";
+  const proxyHop = forwarded.split(",").at(-1)?.trim();
+  if (proxyHop) return proxyHop;
+
+  const realIp = request.headers.get("x-real-ip")?.trim();
+  if (realIp) return realIp;
+
+  return "unknown";
+}
+
+export function consumePublicActionRateLimit(input: { actorUserId: string; ipAddress: string; shareToken: string }) {
+  return consumeRules(
+    "public-actions",
+    [
+      {
+        kind: "actor",
+        bucketValue: input.actorUserId,
+        label: input.actorUserId,
+        limit: parsePositiveInt(process.env.RATE_LIMIT_ACTIONS_PER_MIN, DEFAULT_ACTIONS_PER_MIN),
+      },
+      {
+        kind: "ip",
+        bucketValue: input.ipAddress,
+        label: input.ipAddress,
+        limit: parsePositiveInt(process.env.RATE_LIMIT_ACTIONS_PER_IP_PER_MIN, DEFAULT_ACTIONS_PER_IP_PER_MIN),
+      },
+      {
+        kind: "share_token",
+        bucketValue: hashBucketValue(input.shareToken),
+        label: tokenHint(input.shareToken),
+        limit: parsePositiveInt(process.env.RATE_LIMIT_ACTIONS_PER_TOKEN_PER_MIN, DEFAULT_ACTIONS_PER_TOKEN_PER_MIN),
+      },
+    ],
+    input,
+  );
+}
+
+export function consumePublicReadRateLimit(input: {
+  scope: "public-wishlist" | "public-stream";
+  ipAddress: string;
+  shareToken: string;
+}) {
+  return consumeRules(
+    input.scope,
+    [
+      {
+        kind: "ip",
+        bucketValue: input.ipAddress,
+        label: input.ipAddress,
+        limit: parsePositiveInt(process.env.RATE_LIMIT_READS_PER_IP_PER_MIN, DEFAULT_READS_PER_IP_PER_MIN),
+      },
+      {
+        kind: "share_token",
+        bucketValue: hashBucketValue(input.shareToken),
+        label: tokenHint(input.shareToken),
+        limit: parsePositiveInt(process.env.RATE_LIMIT_READS_PER_TOKEN_PER_MIN, DEFAULT_READS_PER_TOKEN_PER_MIN),
+      },
+    ],
+    {
+      actorUserId: null,
+      ipAddress: input.ipAddress,
+      shareToken: input.shareToken,
+    },
+  );
+}
+
+export async function listRateLimitEvents(input?: { since?: string; limit?: number }) {
+  return getBackend().listEvents({
+    since: input?.since,
+    limit: Math.min(Math.max(Math.floor(input?.limit ?? 100), 1), 500),
+  });
+}
+
+export async function pruneRateLimitEvents(input: { retentionDays: number }) {
+  const safeRetentionDays = normalizeRetentionDays(input.retentionDays);
+  const supabase = getSupabaseAdminClient();
+  const { count, error } = await supabase
+    .from("rate_limit_events")
+    .delete({ count: "exact" })
+    .lt("created_at", retentionCutoffIso(safeRetentionDays));
+
+  if (error) throw error;
+
+  return {
+    removedCount: count ?? 0,
+    retentionDays: safeRetentionDays,
+  };
+}
+
+export async function pruneExpiredRateLimitHits() {
+  const supabase = getSupabaseAdminClient();
+  const { count, error } = await supabase
+    .from("rate_limit_hits")
+    .delete({ count: "exact" })
+    .lt("hit_at", new Date(Date.now() - HIT_RETENTION_MS).toISOString());
+
+  if (error) throw error;
+
+  return {
+    removedCount: count ?? 0,
+  };
+}
@@ -1,7 +1,10 @@
 import "server-only";
 
+import { timingSafeEqual } from "node:crypto";
+
 import type { NextRequest } from "next/server";
 
+import { getProfileRole } from "@/app/_lib/admin-roles";
 import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -9,6 +12,12 @@ const DEFAULT_AUTH_TIMEOUT_MS = 8_000;
 
 type AuthFailureCode = "AUTH_REQUIRED" | "AUTH_INVALID" | "AUTH_MISMATCH" | "AUTH_TIMEOUT";
 
+type ActorAuthFailureCode = Exclude<AuthFailureCode, "AUTH_MISMATCH">;
+
+type AdminAuthFailureCode = ActorAuthFailureCode | "NOT_ADMIN" | "ROLE_UNAVAILABLE";
+
+type JobAuthFailureCode = "JOB_SECRET_UNSET" | "AUTH_REQUIRED" | "AUTH_INVALID";
+
 export type OwnerRequestAuthResult =
   | {
       ok: true;
@@ -20,6 +29,37 @@ export type OwnerRequestAuthResult =
       code: AuthFailureCode;
     };
 
+export type ActorRequestAuthResult =
+  | {
+      ok: true;
+      email: string;
+      userId: string;
+    }
+  | {
+      ok: false;
+      code: ActorAuthFailureCode;
+    };
+
+export type AdminRequestAuthResult =
+  | {
+      ok: true;
+      email: string;
+      userId: string;
+    }
+  | {
+      ok: false;
+      code: AdminAuthFailureCode;
+    };
+
+export type JobRequestAuthResult =
+  | {
+      ok: true;
+    }
+  | {
+      ok: false;
+      code: JobAuthFailureCode;
+    };
+
 function normalizeHeaderEmail(value: string | null): string | null {
   const normalized = value?.trim().toLowerCase() || "";
   if (!normalized || !EMAIL_REGEX.test(normalized)) return null;
@@ -62,7 +102,7 @@ async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T
   }
 }
 
-export async function authenticateOwnerRequest(request: NextRequest): Promise<OwnerRequestAuthResult> {
+async function verifyBearerUser(request: NextRequest): Promise<ActorRequestAuthResult> {
   const token = getBearerToken(request);
   if (!token) {
     return { ok: false, code: "AUTH_REQUIRED" };
@@ -95,14 +135,66 @@ export async function authenticateOwnerRequest(request: NextRequest): Promise<Ow
     return { ok: false, code: "AUTH_INVALID" };
   }
 
-  const headerEmail = normalizeHeaderEmail(request.headers.get("x-owner-email"));
-  if (headerEmail && headerEmail !== email) {
-    return { ok: false, code: "AUTH_MISMATCH" };
-  }
-
   return {
     ok: true,
     email,
     userId,
   };
 }
+
+export async function authenticateOwnerRequest(request: NextRequest): Promise<OwnerRequestAuthResult> {
+  const verified = await verifyBearerUser(request);
+  if (!verified.ok) return verified;
+
+  const headerEmail = normalizeHeaderEmail(request.headers.get("x-owner-email"));
+  if (headerEmail && headerEmail !== verified.email) {
+    return { ok: false, code: "AUTH_MISMATCH" };
+  }
+
+  return verified;
+}
+
+export async function authenticateActorRequest(request: NextRequest): Promise<ActorRequestAuthResult> {
+  return verifyBearerUser(request);
+}
+
+export async function authenticateAdminRequest(request: NextRequest): Promise<AdminRequestAuthResult> {
+  const verified = await verifyBearerUser(request);
+  if (!verified.ok) return verified;
+
+  try {
+    const role = await getProfileRole(verified.userId);
+    if (role !== "admin") {
+      return { ok: false, code: "NOT_ADMIN" };
+    }
+  } catch {
+    return { ok: false, code: "ROLE_UNAVAILABLE" };
+  }
+
+  return verified;
+}
+
+function secretsMatch(provided: string, expected: string) {
+  const providedBytes = Buffer.from(provided);
+  const expectedBytes = Buffer.from(expected);
+  if (providedBytes.length !== expectedBytes.length) return false;
+  return timingSafeEqual(providedBytes, expectedBytes);
+}
+
+export function authenticateJobRequest(request: NextRequest): JobRequestAuthResult {
+  const expected = process.env.CRON_SECRET?.trim() || "";
+  if (!expected) {
+    return { ok: false, code: "JOB_SECRET_UNSET" };
+  }
+
+  const provided = getBearerToken(request) || request.headers.get("x-cron-secret")?.trim() || "";
+  if (!provided) {
+    return { ok: false, code: "AUTH_REQUIRED" };
+  }
+
+  if (!secretsMatch(provided, expected)) {
+    return { ok: false, code: "AUTH_INVALID" };
+  }
+
+  return { ok: true };
+}
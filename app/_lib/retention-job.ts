@@ -0,0 +1,135 @@
+import { pruneSeenArchiveNotifications } from "@/app/_lib/archive-alerts";
+import { normalizeRetentionDays, pruneAuditEvents } from "@/app/_lib/audit-events";
+import { pruneExpiredIdempotencyKeys } from "@/app/_lib/idempotency-store";
+import { pruneStaleWishlistOpens } from "@/app/_lib/item-store";
+import { pruneExpiredRateLimitHits, pruneRateLimitEvents } from "@/app/_lib/rate-limiter";
+
+const DEFAULT_AUDIT_RETENTION_DAYS = 180;
+const DEFAULT_ARCHIVE_NOTIFICATION_RETENTION_DAYS = 90;
+const DEFAULT_WISHLIST_OPEN_RETENTION_DAYS = 365;
+const DEFAULT_RATE_LIMIT_EVENT_RETENTION_DAYS = 30;
+
+export type RetentionPolicy = {
+  auditEventsDays: number;
+  archiveNotificationsDays: number;
+  wishlistOpensDays: number;
+  rateLimitEventsDays: number;
+};
+
+export type RetentionPurgeTableResult =
+  | {
+      ok: true;
+      retentionDays: number;
+      removedCount: number;
+    }
+  | {
+      ok: false;
+      retentionDays: number;
+      error: string;
+    };
+
+export type RetentionExpiryPurgeResult =
+  | {
+      ok: true;
+      removedCount: number;
+    }
+  | {
+      ok: false;
+      error: string;
+    };
+
+export type RetentionPurgeReport = {
+  startedAt: string;
+  finishedAt: string;
+  tables: {
+    auditEvents: RetentionPurgeTableResult;
+    archiveNotifications: RetentionPurgeTableResult;
+    wishlistOpens: RetentionPurgeTableResult;
+    rateLimitEvents: RetentionPurgeTableResult;
+    idempotencyKeys: RetentionExpiryPurgeResult;
+    rateLimitHits: RetentionExpiryPurgeResult;
+  };
+};
+
+function parseRetentionDays(raw: string | undefined, fallback: number): number {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return normalizeRetentionDays(parsed);
+}
+
+export function readRetentionPolicy(): RetentionPolicy {
+  return {
+    auditEventsDays: parseRetentionDays(process.env.AUDIT_RETENTION_DAYS, DEFAULT_AUDIT_RETENTION_DAYS),
+    archiveNotificationsDays: parseRetentionDays(
+      process.env.ARCHIVE_NOTIFICATION_RETENTION_DAYS,
+      DEFAULT_ARCHIVE_NOTIFICATION_RETENTION_DAYS,
+    ),
+    wishlistOpensDays: parseRetentionDays(process.env.WISHLIST_OPEN_RETENTION_DAYS, DEFAULT_WISHLIST_OPEN_RETENTION_DAYS),
+    rateLimitEventsDays: parseRetentionDays(
+      process.env.RATE_LIMIT_EVENT_RETENTION_DAYS,
+      DEFAULT_RATE_LIMIT_EVENT_RETENTION_DAYS,
+    ),
+  };
+}
+
+async function purgeTable(
+  retentionDays: number,
+  purge: (input: { retentionDays: number }) => Promise<{ removedCount: number; retentionDays: number }>,
+): Promise<RetentionPurgeTableResult> {
+  try {
+    const result = await purge({ retentionDays });
+    return {
+      ok: true,
+      retentionDays: result.retentionDays,
+      removedCount: result.removedCount,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      retentionDays,
+      error: error instanceof Error ? error.message : "unknown",
+    };
+  }
+}
+
+async function purgeExpired(purge: () => Promise<{ removedCount: number }>): Promise<RetentionExpiryPurgeResult> {
+  try {
+    const result = await purge();
+    return {
+      ok: true,
+      removedCount: result.removedCount,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "unknown",
+    };
+  }
+}
+
+export async function runRetentionPurge(policy: RetentionPolicy = readRetentionPolicy()): Promise<RetentionPurgeReport> {
+  const startedAt = new Date().toISOString();
+
+  const auditEvents = await purgeTable(policy.auditEventsDays, (input) => pruneAuditEvents(input));
+  const archiveNotifications = await purgeTable(policy.archiveNotificationsDays, pruneSeenArchiveNotifications);
+  const wishlistOpens = await purgeTable(policy.wishlistOpensDays, pruneStaleWishlistOpens);
+  const rateLimitEvents = await purgeTable(policy.rateLimitEventsDays, pruneRateLimitEvents);
+  const idempotencyKeys = await purgeExpired(pruneExpiredIdempotencyKeys);
+  const rateLimitHits = await purgeExpired(pruneExpiredRateLimitHits);
+
+  const report: RetentionPurgeReport = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    tables: {
+      auditEvents,
+      archiveNotifications,
+      wishlistOpens,
+      rateLimitEvents,
+      idempotencyKeys,
+      rateLimitHits,
+    },
+  };
+
+  console.info("retention_purge_completed", report);
+  return report;
+}
@@ -0,0 +1,57 @@
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ProfileEmailRow = {
+  user_id: string;
+  email: string | null;
+};
+
+function normalizeEmail(value: string | null | undefined): string {
+  return (value || "").trim().toLowerCase();
+}
+
+export async function resolveUserIdByEmail(email: string): Promise<string | null> {
+  const normalizedEmail = normalizeEmail(email);
+  if (!EMAIL_REGEX.test(normalizedEmail)) return null;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id")
+    .eq("email", normalizedEmail)
+    .maybeSingle();
+
+  if (error && error.code !== "PGRST116") throw error;
+  return (data as { user_id?: string } | null)?.user_id || null;
+}
+
+export async function fetchUserEmailsByIds(userIds: string[]): Promise<Map<string, string>> {
+  const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+  const emailsById = new Map<string, string>();
+  if (uniqueIds.length === 0) return emailsById;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.from("profiles").select("user_id,email").in("user_id", uniqueIds);
+  if (error) throw error;
+
+  for (const row of (data || []) as ProfileEmailRow[]) {
+    const email = normalizeEmail(row.email);
+    if (email) emailsById.set(row.user_id, email);
+  }
+
+  // Fall back to auth for accounts whose profile has not synced an email yet.
+  const missingIds = uniqueIds.filter((userId) => !emailsById.has(userId));
+  for (const userId of missingIds) {
+    const { data: authData, error: authError } = await supabase.auth.admin.getUserById(userId);
+    const email = normalizeEmail(authError ? null : authData?.user?.email);
+    if (email) emailsById.set(userId, email);
+  }
+
+  return emailsById;
+}
+
+export async function fetchUserEmailById(userId: string): Promise<string | null> {
+  const emailsById = await fetchUserEmailsByIds([userId]);
+  return emailsById.get(userId) || null;
+}
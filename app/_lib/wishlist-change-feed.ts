@@ -0,0 +1,120 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+
+import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
+
+export type WishlistChangeEvent = { type: "changed" } | { type: "status"; live: boolean };
+
+export type WishlistChangeSubscription = {
+  isLive: () => boolean;
+  unsubscribe: () => void;
+};
+
+type WishlistChangeListener = (event: WishlistChangeEvent) => void;
+
+type WishlistChangeFeed = {
+  channel: RealtimeChannel | null;
+  live: boolean;
+  listeners: Set<WishlistChangeListener>;
+};
+
+type WishlistChangeFeedStore = {
+  feedsByWishlistId: Map<string, WishlistChangeFeed>;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __wishlistChangeFeedStore: WishlistChangeFeedStore | undefined;
+}
+
+function getFeedStore(): WishlistChangeFeedStore {
+  if (!globalThis.__wishlistChangeFeedStore) {
+    globalThis.__wishlistChangeFeedStore = {
+      feedsByWishlistId: new Map(),
+    };
+  }
+  return globalThis.__wishlistChangeFeedStore;
+}
+
+function broadcast(feed: WishlistChangeFeed, event: WishlistChangeEvent) {
+  for (const listener of feed.listeners) {
+    try {
+      listener(event);
+    } catch {
+      continue;
+    }
+  }
+}
+
+function setFeedLive(feed: WishlistChangeFeed, live: boolean) {
+  if (feed.live === live) return;
+  feed.live = live;
+  broadcast(feed, { type: "status", live });
+}
+
+function openChannel(wishlistId: string, feed: WishlistChangeFeed) {
+  try {
+    const supabase = getSupabaseAdminClient();
+    feed.channel = supabase
+      .channel(`wishlist-changes:${wishlistId}:${randomUUID()}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "wishlist_change_signals",
+          filter: `wishlist_id=eq.${wishlistId}`,
+        },
+        () => broadcast(feed, { type: "changed" }),
+      )
+      .subscribe((status) => {
+        setFeedLive(feed, status === "SUBSCRIBED");
+      });
+  } catch (error) {
+    console.error("wishlist_change_feed_subscribe_failed", {
+      wishlistId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    feed.channel = null;
+  }
+}
+
+export function subscribeToWishlistChanges(
+  wishlistId: string,
+  listener: WishlistChangeListener,
+): WishlistChangeSubscription {
+  const store = getFeedStore();
+  let feed = store.feedsByWishlistId.get(wishlistId);
+  if (!feed) {
+    feed = { channel: null, live: false, listeners: new Set() };
+    store.feedsByWishlistId.set(wishlistId, feed);
+    openChannel(wishlistId, feed);
+  }
+
+  const activeFeed = feed;
+  activeFeed.listeners.add(listener);
+  let subscribed = true;
+
+  return {
+    isLive: () => activeFeed.live,
+    unsubscribe: () => {
+      if (!subscribed) return;
+      subscribed = false;
+      activeFeed.listeners.delete(listener);
+      if (activeFeed.listeners.size > 0) return;
+
+      store.feedsByWishlistId.delete(wishlistId);
+      activeFeed.live = false;
+      if (activeFeed.channel) {
+        const channel = activeFeed.channel;
+        activeFeed.channel = null;
+        void getSupabaseAdminClient()
+          .removeChannel(channel)
+          .catch(() => undefined);
+      }
+    },
+  };
+}
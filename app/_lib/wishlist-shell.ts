@@ -8,6 +8,8 @@ export type WishlistPreview = {
   occasionDate: string | null;
   occasionNote: string | null;
   currency: string;
+  reservationHoldDays: number | null;
+  paymentInstructions: string | null;
   updatedAt: string;
   shareUrlPreview: string;
 };
@@ -51,6 +53,8 @@ export type WishlistUpdatePayload = {
   title: string;
   occasionDate: string | null;
   occasionNote: string | null;
+  reservationHoldDays?: number | null;
+  paymentInstructions?: string | null;
 };
 
 export type WishlistUpdateResponse = {
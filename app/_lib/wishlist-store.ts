@@ -1,16 +1,18 @@
-import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 
+import { insertAuditEvent, listAuditEvents, pruneAuditEvents } from "@/app/_lib/audit-events";
 import { getSupabaseAdminClient } from "@/app/_lib/supabase-admin";
-
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+import { fetchUserEmailsByIds } from "@/app/_lib/user-directory";
 
 export type WishlistRecord = {
   id: string;
-  ownerEmail: string;
+  ownerUserId: string;
   title: string;
   occasionDate: string | null;
   occasionNote: string | null;
   currency: string;
+  reservationHoldDays: number | null;
+  paymentInstructions: string | null;
   shareTokenHash: string;
   shareTokenHint: string;
   shareTokenDisabledAt: string | null;
@@ -25,6 +27,8 @@ export type WishlistListItem = {
   occasionDate: string | null;
   occasionNote: string | null;
   currency: string;
+  reservationHoldDays: number | null;
+  paymentInstructions: string | null;
   updatedAt: string;
   shareUrlPreview: string;
 };
@@ -36,6 +40,7 @@ export type ShareLinkAuditAction = "rotate_share_link" | "disable_share_link" |
 export type ShareLinkAuditEvent = {
   id: string;
   wishlistId: string;
+  actorUserId: string | null;
   actorEmail: string;
   action: ShareLinkAuditAction;
   createdAt: string;
@@ -45,11 +50,6 @@ export type ShareLinkAuditEvent = {
   };
 };
 
-type RotationIdempotencyEntry = {
-  key: string;
-  expiresAt: number;
-};
-
 type WishlistRow = {
   id: string;
   owner_id: string;
@@ -57,6 +57,8 @@ type WishlistRow = {
   occasion_date: string | null;
   occasion_note: string | null;
   currency: string;
+  reservation_hold_days: number | null;
+  payment_instructions: string | null;
   share_token_hash: string;
   share_token_hint: string;
   share_token_disabled_at: string | null;
@@ -67,10 +69,6 @@ type WishlistRow = {
 
 type WishlistStoreState = {
   shareTokensByHash: Record<string, string>;
-  shareLinkAuditEvents: ShareLinkAuditEvent[];
-  rotationIdempotency: RotationIdempotencyEntry[];
-  userIdByEmail: Record<string, string | null>;
-  userEmailById: Record<string, string>;
 };
 
 declare global {
@@ -82,10 +80,6 @@ function getStore(): WishlistStoreState {
   if (!globalThis.__wishlistStore) {
     globalThis.__wishlistStore = {
       shareTokensByHash: {},
-      shareLinkAuditEvents: [],
-      rotationIdempotency: [],
-      userIdByEmail: {},
-      userEmailById: {},
     };
   }
 
@@ -100,6 +94,8 @@ function wishlistSelectColumns() {
     "occasion_date",
     "occasion_note",
     "currency",
+    "reservation_hold_days",
+    "payment_instructions",
     "share_token_hash",
     "share_token_hint",
     "share_token_disabled_at",
@@ -140,60 +136,60 @@ function parsePositiveInt(raw: string | undefined, fallback: number) {
   return Math.floor(parsed);
 }
 
-function createShareLinkAuditEvent(input: {
+async function createShareLinkAuditEvent(input: {
   wishlistId: string;
-  actorEmail: string;
+  actorUserId: string;
   action: ShareLinkAuditAction;
   tokenHint: string;
   disabledAt: string | null;
   createdAt?: string;
-}) {
-  const store = getStore();
+}): Promise<ShareLinkAuditEvent | null> {
   const createdAt = input.createdAt || nowIso();
-  const event: ShareLinkAuditEvent = {
-    id: randomUUID(),
-    wishlistId: input.wishlistId,
-    actorEmail: input.actorEmail,
-    action: input.action,
-    createdAt,
-    after: {
-      tokenHint: input.tokenHint,
-      disabledAt: input.disabledAt,
-    },
+  const after = {
+    tokenHint: input.tokenHint,
+    disabledAt: input.disabledAt,
   };
-  store.shareLinkAuditEvents.unshift(event);
-  return event;
-}
-
-function pruneRotationIdempotency(now = Date.now()) {
-  const store = getStore();
-  store.rotationIdempotency = store.rotationIdempotency.filter((entry) => entry.expiresAt > now);
-}
-
-function rotationIdempotencyKey(input: { wishlistId: string; ownerEmail: string; idempotencyKey: string }) {
-  return `${input.wishlistId}:${input.ownerEmail}:${input.idempotencyKey}`;
-}
-
-function normalizeEmail(value: string | null | undefined): string {
-  return (value || "").trim().toLowerCase();
-}
 
-function mapWishlistRowToRecord(row: WishlistRow, ownerEmail?: string): WishlistRecord {
-  const store = getStore();
-  const normalizedOwnerEmail = normalizeEmail(ownerEmail) || store.userEmailById[row.owner_id] || "";
+  try {
+    const stored = await insertAuditEvent({
+      actorUserId: input.actorUserId,
+      wishlistId: input.wishlistId,
+      entityType: "share_link",
+      entityId: input.wishlistId,
+      action: input.action,
+      after,
+      createdAt,
+    });
 
-  if (normalizedOwnerEmail) {
-    store.userEmailById[row.owner_id] = normalizedOwnerEmail;
-    store.userIdByEmail[normalizedOwnerEmail] = row.owner_id;
+    return {
+      id: stored.id,
+      wishlistId: input.wishlistId,
+      actorUserId: input.actorUserId,
+      actorEmail: "",
+      action: input.action,
+      createdAt: stored.createdAt,
+      after,
+    };
+  } catch (error) {
+    console.warn("audit_event_write_failed", {
+      action: input.action,
+      wishlistId: input.wishlistId,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+    return null;
   }
+}
 
+function mapWishlistRowToRecord(row: WishlistRow): WishlistRecord {
   return {
     id: row.id,
-    ownerEmail: normalizedOwnerEmail,
+    ownerUserId: row.owner_id,
     title: row.title,
     occasionDate: row.occasion_date,
     occasionNote: row.occasion_note,
     currency: row.currency,
+    reservationHoldDays: row.reservation_hold_days ?? null,
+    paymentInstructions: row.payment_instructions ?? null,
     shareTokenHash: row.share_token_hash,
     shareTokenHint: row.share_token_hint,
     shareTokenDisabledAt: row.share_token_disabled_at ?? null,
@@ -203,55 +199,6 @@ function mapWishlistRowToRecord(row: WishlistRow, ownerEmail?: string): Wishlist
   };
 }
 
-async function resolveOwnerUserId(ownerEmail: string): Promise<string | null> {
-  const normalizedEmail = normalizeEmail(ownerEmail);
-  if (!EMAIL_REGEX.test(normalizedEmail)) return null;
-
-  const store = getStore();
-  if (Object.prototype.hasOwnProperty.call(store.userIdByEmail, normalizedEmail)) {
-    return store.userIdByEmail[normalizedEmail];
-  }
-
-  const supabase = getSupabaseAdminClient();
-  const perPage = 200;
-  let page = 1;
-
-  for (let guard = 0; guard < 200; guard += 1) {
-    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage });
-    if (error) break;
-
-    const users = data?.users || [];
-    const found = users.find((candidate) => normalizeEmail(candidate.email) === normalizedEmail);
-    if (found?.id) {
-      store.userIdByEmail[normalizedEmail] = found.id;
-      store.userEmailById[found.id] = normalizedEmail;
-      return found.id;
-    }
-
-    if (!data?.nextPage || users.length === 0) break;
-    page = data.nextPage;
-  }
-
-  store.userIdByEmail[normalizedEmail] = null;
-  return null;
-}
-
-async function fetchOwnerEmailByUserId(ownerId: string): Promise<string | null> {
-  const store = getStore();
-  if (store.userEmailById[ownerId]) return store.userEmailById[ownerId];
-
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase.auth.admin.getUserById(ownerId);
-  if (error || !data?.user?.email) return null;
-
-  const normalizedEmail = normalizeEmail(data.user.email);
-  if (!normalizedEmail) return null;
-
-  store.userEmailById[ownerId] = normalizedEmail;
-  store.userIdByEmail[normalizedEmail] = ownerId;
-  return normalizedEmail;
-}
-
 async function findWishlistById(wishlistId: string): Promise<WishlistRow | null> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
@@ -315,8 +262,7 @@ export function buildPublicShareUrl(host: string, tokenOrHint: string): string {
 }
 
 export async function createWishlistRecord(input: {
-  ownerEmail: string;
-  ownerId?: string;
+  ownerId: string;
   title: string;
   occasionDate: string | null;
   occasionNote: string | null;
@@ -325,8 +271,7 @@ export async function createWishlistRecord(input: {
   shareTokenBytes?: number;
   shareTokenPepper?: string;
 }) {
-  const ownerEmail = normalizeEmail(input.ownerEmail);
-  const ownerId = input.ownerId?.trim() || (await resolveOwnerUserId(ownerEmail));
+  const ownerId = input.ownerId.trim();
   if (!ownerId) {
     throw new Error("OWNER_NOT_FOUND");
   }
@@ -361,7 +306,7 @@ export async function createWishlistRecord(input: {
   const store = getStore();
   store.shareTokensByHash[tokenHash] = token;
 
-  const record = mapWishlistRowToRecord(data as unknown as WishlistRow, ownerEmail);
+  const record = mapWishlistRowToRecord(data as unknown as WishlistRow);
 
   return {
     record,
@@ -371,14 +316,12 @@ export async function createWishlistRecord(input: {
 }
 
 export async function listWishlistRecords(input: {
-  ownerEmail: string;
-  ownerId?: string;
+  ownerId: string;
   search: string;
   sort: WishlistSort;
   canonicalHost?: string;
 }): Promise<WishlistListItem[]> {
-  const ownerEmail = normalizeEmail(input.ownerEmail);
-  const ownerId = input.ownerId?.trim() || (await resolveOwnerUserId(ownerEmail));
+  const ownerId = input.ownerId.trim();
   if (!ownerId) return [];
 
   const canonicalHost = normalizeCanonicalHost(input.canonicalHost);
@@ -412,23 +355,44 @@ export async function listWishlistRecords(input: {
     occasionDate: row.occasion_date,
     occasionNote: row.occasion_note,
     currency: row.currency,
+    reservationHoldDays: row.reservation_hold_days ?? null,
+    paymentInstructions: row.payment_instructions ?? null,
     updatedAt: row.updated_at,
   }));
 }
 
 export type UpdateWishlistError = "NOT_FOUND" | "FORBIDDEN";
 
+export function reservationHoldExpiresAt(holdDays: number | null, fromIso: string): string | null {
+  if (holdDays === null) return null;
+  return new Date(Date.parse(fromIso) + holdDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function resetActiveReservationHolds(input: { wishlistId: string; holdDays: number | null; now: string }) {
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("reservations")
+    .update({
+      hold_expires_at: reservationHoldExpiresAt(input.holdDays, input.now),
+      hold_reminded_at: null,
+    })
+    .eq("wishlist_id", input.wishlistId)
+    .eq("status", "active");
+
+  if (error) throw error;
+}
+
 export async function updateWishlistRecord(input: {
   wishlistId: string;
-  ownerEmail: string;
-  ownerId?: string;
+  ownerId: string;
   title: string;
   occasionDate: string | null;
   occasionNote: string | null;
+  reservationHoldDays?: number | null;
+  paymentInstructions?: string | null;
   canonicalHost?: string;
 }) {
-  const ownerEmail = normalizeEmail(input.ownerEmail);
-  const ownerId = input.ownerId?.trim() || (await resolveOwnerUserId(ownerEmail));
+  const ownerId = input.ownerId.trim();
   if (!ownerId) {
     return { error: "FORBIDDEN" as UpdateWishlistError };
   }
@@ -444,6 +408,8 @@ export async function updateWishlistRecord(input: {
 
   const canonicalHost = normalizeCanonicalHost(input.canonicalHost);
   const timestamp = nowIso();
+  const nextHoldDays =
+    input.reservationHoldDays === undefined ? found.reservation_hold_days ?? null : input.reservationHoldDays;
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("wishlists")
@@ -451,6 +417,9 @@ export async function updateWishlistRecord(input: {
       title: input.title,
       occasion_date: input.occasionDate,
       occasion_note: input.occasionNote,
+      reservation_hold_days: nextHoldDays,
+      payment_instructions:
+        input.paymentInstructions === undefined ? found.payment_instructions ?? null : input.paymentInstructions,
       updated_at: timestamp,
     })
     .eq("id", found.id)
@@ -462,9 +431,13 @@ export async function updateWishlistRecord(input: {
     throw error || new Error("Unable to update wishlist.");
   }
 
+  if (nextHoldDays !== (found.reservation_hold_days ?? null)) {
+    await resetActiveReservationHolds({ wishlistId: found.id, holdDays: nextHoldDays, now: timestamp });
+  }
+
   const row = data as unknown as WishlistRow;
   const store = getStore();
-  const wishlist = mapWishlistRowToRecord(row, ownerEmail);
+  const wishlist = mapWishlistRowToRecord(row);
   const shareUrlPreview = buildPublicShareUrl(
     canonicalHost,
     store.shareTokensByHash[row.share_token_hash] || row.share_token_hint,
@@ -519,9 +492,7 @@ export async function resolvePublicWishlistByToken(
 export async function getWishlistRecordById(wishlistId: string): Promise<WishlistRecord | null> {
   const row = await findWishlistById(wishlistId);
   if (!row) return null;
-
-  const ownerEmail = await fetchOwnerEmailByUserId(row.owner_id);
-  return mapWishlistRowToRecord(row, ownerEmail || undefined);
+  return mapWishlistRowToRecord(row);
 }
 
 export async function getPublicShareTokenForWishlist(wishlistId: string): Promise<string | null> {
@@ -535,16 +506,12 @@ export type RotateShareLinkError = "NOT_FOUND" | "FORBIDDEN";
 
 export async function rotateWishlistShareLink(input: {
   wishlistId: string;
-  ownerEmail: string;
-  ownerId?: string;
+  ownerId: string;
   canonicalHost?: string;
   shareTokenBytes?: number;
   shareTokenPepper?: string;
-  idempotencyKey?: string;
-  idempotencyTtlSec?: number;
 }) {
-  const ownerEmail = normalizeEmail(input.ownerEmail);
-  const ownerId = input.ownerId?.trim() || (await resolveOwnerUserId(ownerEmail));
+  const ownerId = input.ownerId.trim();
   if (!ownerId) {
     return { error: "FORBIDDEN" as RotateShareLinkError };
   }
@@ -563,32 +530,6 @@ export async function rotateWishlistShareLink(input: {
   const canonicalHost = normalizeCanonicalHost(input.canonicalHost);
   const pepper = normalizeShareTokenPepper(input.shareTokenPepper ?? process.env.SHARE_TOKEN_PEPPER);
 
-  const safeIdempotencyKey = (input.idempotencyKey || "").trim();
-  if (safeIdempotencyKey) {
-    pruneRotationIdempotency();
-
-    const key = rotationIdempotencyKey({
-      wishlistId: input.wishlistId,
-      ownerEmail,
-      idempotencyKey: safeIdempotencyKey,
-    });
-
-    const replay = store.rotationIdempotency.some((entry) => entry.key === key);
-    if (replay) {
-      return {
-        ok: true as const,
-        alreadyProcessed: true as const,
-        rotatedAt: found.share_token_rotated_at,
-      };
-    }
-
-    const ttlSec = parsePositiveInt(input.idempotencyTtlSec?.toString(), 180);
-    store.rotationIdempotency.push({
-      key,
-      expiresAt: Date.now() + ttlSec * 1000,
-    });
-  }
-
   const previousHash = found.share_token_hash;
 
   const token = createShareToken(input.shareTokenBytes ?? parsePositiveInt(process.env.SHARE_TOKEN_BYTES, 24));
@@ -617,11 +558,11 @@ export async function rotateWishlistShareLink(input: {
   delete store.shareTokensByHash[previousHash];
   store.shareTokensByHash[tokenHash] = token;
 
-  const updatedRecord = mapWishlistRowToRecord(data as unknown as WishlistRow, ownerEmail);
+  const updatedRecord = mapWishlistRowToRecord(data as unknown as WishlistRow);
 
-  const auditEvent = createShareLinkAuditEvent({
+  const auditEvent = await createShareLinkAuditEvent({
     wishlistId: updatedRecord.id,
-    actorEmail: ownerEmail,
+    actorUserId: ownerId,
     action: "rotate_share_link",
     tokenHint: updatedRecord.shareTokenHint,
     disabledAt: updatedRecord.shareTokenDisabledAt,
@@ -630,11 +571,10 @@ export async function rotateWishlistShareLink(input: {
 
   return {
     ok: true as const,
-    alreadyProcessed: false as const,
     rotatedAt: timestamp,
     shareUrl: buildPublicShareUrl(canonicalHost, token),
     shareUrlPreview: buildPublicShareUrl(canonicalHost, token),
-    auditEventId: auditEvent.id,
+    auditEventId: auditEvent?.id ?? null,
   };
 }
 
@@ -642,7 +582,7 @@ export type UpdateShareLinkDisabledError = "NOT_FOUND";
 
 export async function updateWishlistShareLinkDisabled(input: {
   wishlistId: string;
-  actorEmail: string;
+  actorUserId: string;
   disabled: boolean;
 }) {
   const found = await findWishlistById(input.wishlistId);
@@ -653,8 +593,7 @@ export async function updateWishlistShareLinkDisabled(input: {
   const wasDisabled = Boolean(found.share_token_disabled_at);
   const alreadyApplied = input.disabled ? wasDisabled : !wasDisabled;
 
-  const ownerEmail = await fetchOwnerEmailByUserId(found.owner_id);
-  const ownerRecord = mapWishlistRowToRecord(found, ownerEmail || undefined);
+  const ownerRecord = mapWishlistRowToRecord(found);
 
   if (alreadyApplied) {
     return {
@@ -683,11 +622,11 @@ export async function updateWishlistShareLinkDisabled(input: {
     throw error || new Error("Unable to update share link status.");
   }
 
-  const updated = mapWishlistRowToRecord(data as unknown as WishlistRow, ownerEmail || undefined);
+  const updated = mapWishlistRowToRecord(data as unknown as WishlistRow);
 
-  const auditEvent = createShareLinkAuditEvent({
+  const auditEvent = await createShareLinkAuditEvent({
     wishlistId: updated.id,
-    actorEmail: normalizeEmail(input.actorEmail),
+    actorUserId: input.actorUserId,
     action: input.disabled ? "disable_share_link" : "enable_share_link",
     tokenHint: updated.shareTokenHint,
     disabledAt: updated.shareTokenDisabledAt,
@@ -698,49 +637,50 @@ export async function updateWishlistShareLinkDisabled(input: {
     ok: true as const,
     alreadyApplied: false as const,
     wishlist: updated,
-    auditEventId: auditEvent.id,
+    auditEventId: auditEvent?.id ?? null,
   };
 }
 
-export function listShareLinkAuditEvents(input: {
+export async function listShareLinkAuditEvents(input: {
   wishlistId?: string;
   action?: ShareLinkAuditAction;
   since?: string;
   limit?: number;
-}) {
-  const store = getStore();
-  const sinceTime = input.since ? new Date(input.since).getTime() : Number.NEGATIVE_INFINITY;
-  const limit = Math.min(Math.max(input.limit ?? 200, 1), 500);
-
-  return store.shareLinkAuditEvents
-    .filter((event) => {
-      if (input.wishlistId && event.wishlistId !== input.wishlistId) return false;
-      if (input.action && event.action !== input.action) return false;
-      if (new Date(event.createdAt).getTime() < sinceTime) return false;
-      return true;
-    })
-    .slice(0, limit);
-}
+}): Promise<ShareLinkAuditEvent[]> {
+  const events = await listAuditEvents({
+    entityType: "share_link",
+    wishlistId: input.wishlistId,
+    action: input.action,
+    since: input.since,
+    limit: input.limit,
+  });
 
-export function pruneShareLinkAuditEvents(input: { retentionDays: number }) {
-  const safeRetentionDays = Math.min(Math.max(Math.floor(input.retentionDays), 1), 3650);
-  const cutoffMs = Date.now() - safeRetentionDays * 24 * 60 * 60 * 1000;
-  const store = getStore();
-  const before = store.shareLinkAuditEvents.length;
-  store.shareLinkAuditEvents = store.shareLinkAuditEvents.filter(
-    (event) => new Date(event.createdAt).getTime() >= cutoffMs,
+  const emailsById = await fetchUserEmailsByIds(
+    events.map((event) => event.actorUserId).filter((userId): userId is string => Boolean(userId)),
   );
-  return {
-    removedCount: before - store.shareLinkAuditEvents.length,
-    retentionDays: safeRetentionDays,
-  };
+
+  return events.map((event) => ({
+    id: event.id,
+    wishlistId: event.wishlistId || event.entityId,
+    actorUserId: event.actorUserId,
+    actorEmail: (event.actorUserId && emailsById.get(event.actorUserId)) || "",
+    action: event.action as ShareLinkAuditAction,
+    createdAt: event.createdAt,
+    after: {
+      tokenHint: typeof event.after?.tokenHint === "string" ? event.after.tokenHint : "",
+      disabledAt: typeof event.after?.disabledAt === "string" ? event.after.disabledAt : null,
+    },
+  }));
+}
+
+export async function pruneShareLinkAuditEvents(input: { retentionDays: number }) {
+  return pruneAuditEvents({ entityType: "share_link", retentionDays: input.retentionDays });
 }
 
 export type DeleteWishlistError = "NOT_FOUND" | "FORBIDDEN";
 
-export async function deleteWishlistRecord(input: { wishlistId: string; ownerEmail: string; ownerId?: string }) {
-  const ownerEmail = normalizeEmail(input.ownerEmail);
-  const ownerId = input.ownerId?.trim() || (await resolveOwnerUserId(ownerEmail));
+export async function deleteWishlistRecord(input: { wishlistId: string; ownerId: string }) {
+  const ownerId = input.ownerId.trim();
   if (!ownerId) {
     return { error: "FORBIDDEN" as DeleteWishlistError };
   }
@@ -762,8 +702,6 @@ export async function deleteWishlistRecord(input: { wishlistId: string; ownerEma
 
   const store = getStore();
   delete store.shareTokensByHash[found.share_token_hash];
-  store.shareLinkAuditEvents = store.shareLinkAuditEvents.filter((event) => event.wishlistId !== found.id);
-  store.rotationIdempotency = store.rotationIdempotency.filter((entry) => !entry.key.startsWith(`${found.id}:`));
 
   return {
     ok: true as const,
@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { FormEvent, useEffect, useMemo, useState } from "react";
 
-import { getAuthenticatedEmail, persistReturnTo } from "@/app/_lib/auth-client";
+import { getAuthenticatedActorHeaders, persistReturnTo } from "@/app/_lib/auth-client";
 
 type ModerationResponse =
   | {
@@ -30,10 +30,6 @@ type AuditResponse =
   | {
       ok: true;
       retentionDays: number;
-      cleanup: {
-        removedItemEvents: number;
-        removedShareLinkEvents: number;
-      };
       wishlist: {
         id: string;
         title: string;
@@ -62,6 +58,94 @@ type AuditResponse =
       };
     };
 
+type AdminSessionResponse =
+  | {
+      ok: true;
+      admin: {
+        email: string;
+        userId: string;
+      };
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+      };
+    };
+
+type AdminRolesResponse =
+  | {
+      ok: true;
+      admins: Array<{
+        userId: string;
+        email: string | null;
+        displayName: string;
+      }>;
+      events: Array<{
+        id: string;
+        action: "grant_admin_role" | "revoke_admin_role";
+        targetUserId: string;
+        targetEmail: string | null;
+        actorEmail: string | null;
+        createdAt: string;
+      }>;
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+      };
+    };
+
+type RateLimitEventsResponse =
+  | {
+      ok: true;
+      events: Array<{
+        id: string;
+        scope: string;
+        subjectKind: "actor" | "ip" | "share_token";
+        subjectLabel: string;
+        actorEmail: string | null;
+        ipAddress: string | null;
+        shareTokenHint: string | null;
+        limit: number;
+        windowSec: number;
+        createdAt: string;
+      }>;
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+      };
+    };
+
+type RoleMutationResponse =
+  | {
+      ok: true;
+      alreadyApplied: boolean;
+      auditEventId: string | null;
+      userId: string;
+      role: "admin" | "user";
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+        fieldErrors?: Record<string, string>;
+      };
+    };
+
+const RATE_LIMIT_SUBJECT_LABELS: Record<"actor" | "ip" | "share_token", string> = {
+  actor: "Account",
+  ip: "IP address",
+  share_token: "Share token",
+};
+
 const AUDIT_ACTION_OPTIONS = [
   { value: "", label: "All actions" },
   { value: "disable_share_link", label: "Disable share link" },
@@ -69,10 +153,25 @@ const AUDIT_ACTION_OPTIONS = [
   { value: "rotate_share_link", label: "Rotate share link" },
   { value: "reserve", label: "Reserve" },
   { value: "unreserve", label: "Unreserve" },
+  { value: "mark_purchased", label: "Mark purchased" },
+  { value: "unmark_purchased", label: "Unmark purchased" },
+  { value: "renew_hold", label: "Renew hold" },
+  { value: "release_expired_hold", label: "Release expired hold" },
+  { value: "join_waitlist", label: "Join waitlist" },
+  { value: "leave_waitlist", label: "Leave waitlist" },
+  { value: "grant_waitlist_head_start", label: "Waitlist head start" },
   { value: "contribute", label: "Contribute" },
+  { value: "withdraw_contribution", label: "Withdraw contribution" },
+  { value: "reduce_contribution", label: "Reduce contribution" },
+  { value: "mark_contribution_paid", label: "Mark contribution paid" },
+  { value: "confirm_contribution", label: "Confirm contribution" },
+  { value: "set_organizer", label: "Set organizer" },
+  { value: "set_payment_instructions", label: "Set payment instructions" },
   { value: "archive", label: "Archive" },
   { value: "update", label: "Update" },
   { value: "create", label: "Create" },
+  { value: "auto_extend_deadline", label: "Auto-extend deadline" },
+  { value: "auto_archive", label: "Auto-archive (shortfall)" },
 ];
 
 export default function AdminAbusePage() {
@@ -99,13 +198,25 @@ export default function AdminAbusePage() {
   >([]);
 
   const [retentionDays, setRetentionDays] = useState<number>(180);
-  const [cleanupMessage, setCleanupMessage] = useState<string | null>(null);
   const [wishlistStatus, setWishlistStatus] = useState<{
     id: string;
     title: string;
     shareTokenDisabledAt: string | null;
   } | null>(null);
 
+  const [adminAccess, setAdminAccess] = useState<"checking" | "granted" | "denied">("checking");
+  const [adminEmail, setAdminEmail] = useState<string | null>(null);
+  const [admins, setAdmins] = useState<Extract<AdminRolesResponse, { ok: true }>["admins"]>([]);
+  const [roleEvents, setRoleEvents] = useState<Extract<AdminRolesResponse, { ok: true }>["events"]>([]);
+  const [roleEmail, setRoleEmail] = useState("");
+  const [isRoleMutating, setIsRoleMutating] = useState(false);
+  const [roleError, setRoleError] = useState<string | null>(null);
+  const [roleSuccess, setRoleSuccess] = useState<string | null>(null);
+
+  const [throttleEvents, setThrottleEvents] = useState<Extract<RateLimitEventsResponse, { ok: true }>["events"]>([]);
+  const [isThrottleLoading, setIsThrottleLoading] = useState(false);
+  const [throttleError, setThrottleError] = useState<string | null>(null);
+
   const [isLoading, setIsLoading] = useState(false);
   const [isMutating, setIsMutating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -131,10 +242,28 @@ export default function AdminAbusePage() {
     let cancelled = false;
 
     async function ensureAuth() {
-      const adminEmail = await getAuthenticatedEmail();
-      if (!cancelled && !adminEmail) {
+      const headers = await getAuthenticatedActorHeaders();
+      if (cancelled) return;
+      if (!headers) {
         persistReturnTo("/admin/abuse");
         router.replace("/login?returnTo=%2Fadmin%2Fabuse");
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/admin/session", { headers });
+        const payload = (await response.json()) as AdminSessionResponse;
+        if (cancelled) return;
+        if (!response.ok || !payload.ok) {
+          setAdminAccess("denied");
+          return;
+        }
+
+        setAdminEmail(payload.admin.email);
+        setAdminAccess("granted");
+        await Promise.all([fetchRoles(), fetchRateLimits()]);
+      } catch {
+        if (!cancelled) setAdminAccess("denied");
       }
     }
 
@@ -145,9 +274,111 @@ export default function AdminAbusePage() {
     };
   }, [router]);
 
+  async function fetchRoles() {
+    const headers = await getAuthenticatedActorHeaders();
+    if (!headers) return;
+
+    try {
+      const response = await fetch("/api/admin/roles", { headers });
+      const payload = (await response.json()) as AdminRolesResponse;
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok ? payload.error.message : "Unable to load admin roles.";
+        setRoleError(message);
+        return;
+      }
+
+      setAdmins(payload.admins);
+      setRoleEvents(payload.events);
+    } catch {
+      setRoleError("Unable to load admin roles right now.");
+    }
+  }
+
+  async function fetchRateLimits() {
+    const headers = await getAuthenticatedActorHeaders();
+    if (!headers) return;
+
+    setIsThrottleLoading(true);
+    setThrottleError(null);
+
+    try {
+      const response = await fetch("/api/admin/rate-limits", { headers });
+      const payload = (await response.json()) as RateLimitEventsResponse;
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok ? payload.error.message : "Unable to load rate limit events.";
+        setThrottleError(message);
+        return;
+      }
+
+      setThrottleEvents(payload.events);
+    } catch {
+      setThrottleError("Unable to load rate limit events right now.");
+    } finally {
+      setIsThrottleLoading(false);
+    }
+  }
+
+  async function applyRoleChange(email: string, role: "admin" | "user") {
+    const headers = await getAuthenticatedActorHeaders();
+    if (!headers) return;
+
+    const targetEmail = email.trim().toLowerCase();
+    if (!targetEmail) {
+      setRoleError("Account email is required.");
+      return;
+    }
+
+    const confirmed = window.confirm(
+      role === "admin" ? `Grant admin access to ${targetEmail}?` : `Revoke admin access from ${targetEmail}?`,
+    );
+    if (!confirmed) return;
+
+    setIsRoleMutating(true);
+    setRoleError(null);
+    setRoleSuccess(null);
+
+    try {
+      const response = await fetch("/api/admin/roles", {
+        method: "POST",
+        headers: {
+          ...headers,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({ email: targetEmail, role }),
+      });
+
+      const payload = (await response.json()) as RoleMutationResponse;
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok
+          ? payload.error.fieldErrors?.email || payload.error.message
+          : "Unable to update admin role.";
+        setRoleError(message);
+        return;
+      }
+
+      if (role === "admin") {
+        setRoleSuccess(payload.alreadyApplied ? `${targetEmail} is already an admin.` : `Admin access granted to ${targetEmail}.`);
+        setRoleEmail("");
+      } else {
+        setRoleSuccess(payload.alreadyApplied ? `${targetEmail} is not an admin.` : `Admin access revoked from ${targetEmail}.`);
+      }
+
+      await fetchRoles();
+    } catch {
+      setRoleError("Unable to update admin role right now.");
+    } finally {
+      setIsRoleMutating(false);
+    }
+  }
+
+  function onGrantRole(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    void applyRoleChange(roleEmail, "admin");
+  }
+
   async function fetchAudit() {
-    const adminEmail = await getAuthenticatedEmail();
-    if (!adminEmail) return;
+    const headers = await getAuthenticatedActorHeaders();
+    if (!headers) return;
 
     setIsLoading(true);
     setError(null);
@@ -158,11 +389,7 @@ export default function AdminAbusePage() {
     if (since) params.set("since", new Date(since).toISOString());
 
     try {
-      const response = await fetch(`/api/admin/audit-events?${params.toString()}`, {
-        headers: {
-          "x-admin-email": adminEmail,
-        },
-      });
+      const response = await fetch(`/api/admin/audit-events?${params.toString()}`, { headers });
 
       const payload = (await response.json()) as AuditResponse;
       if (!response.ok || !payload.ok) {
@@ -176,14 +403,6 @@ export default function AdminAbusePage() {
       setEvents(payload.events);
       setRetentionDays(payload.retentionDays);
       setWishlistStatus(payload.wishlist);
-
-      if (payload.cleanup.removedItemEvents > 0 || payload.cleanup.removedShareLinkEvents > 0) {
-        setCleanupMessage(
-          `Cleanup removed ${payload.cleanup.removedItemEvents + payload.cleanup.removedShareLinkEvents} old events.`,
-        );
-      } else {
-        setCleanupMessage(null);
-      }
     } catch {
       setError("Unable to load audit events right now.");
       setEvents([]);
@@ -194,8 +413,8 @@ export default function AdminAbusePage() {
   }
 
   async function applyModerationAction(mode: "disable" | "enable") {
-    const adminEmail = await getAuthenticatedEmail();
-    if (!adminEmail) return;
+    const headers = await getAuthenticatedActorHeaders();
+    if (!headers) return;
 
     const nextWishlistId = wishlistId.trim();
     if (!nextWishlistId) {
@@ -217,9 +436,7 @@ export default function AdminAbusePage() {
     try {
       const response = await fetch(`/api/admin/share-links/${encodeURIComponent(nextWishlistId)}/${mode}`, {
         method: "POST",
-        headers: {
-          "x-admin-email": adminEmail,
-        },
+        headers,
       });
 
       const payload = (await response.json()) as ModerationResponse;
@@ -250,6 +467,26 @@ export default function AdminAbusePage() {
     void fetchAudit();
   }
 
+  if (adminAccess !== "granted") {
+    return (
+      <main className="mx-auto min-h-screen max-w-5xl px-4 py-8 sm:px-6 sm:py-10">
+        <section className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm sm:p-6">
+          {adminAccess === "checking" ? (
+            <p className="text-sm text-zinc-600">Checking access...</p>
+          ) : (
+            <>
+              <h1 className="text-2xl font-semibold tracking-tight">Page not available</h1>
+              <p className="mt-1 text-sm text-zinc-600">This page is only available to admins.</p>
+              <Link className="mt-4 inline-flex rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800" href="/wishlists">
+                Back to My wishlists
+              </Link>
+            </>
+          )}
+        </section>
+      </main>
+    );
+  }
+
   return (
     <main className="mx-auto min-h-screen max-w-5xl px-4 py-8 sm:px-6 sm:py-10">
       <header className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm sm:p-6">
@@ -373,7 +610,6 @@ export default function AdminAbusePage() {
                   setActionFilter("");
                   setSince("");
                   setEvents([]);
-                  setCleanupMessage(null);
                 }}
                 type="button"
               >
@@ -382,7 +618,7 @@ export default function AdminAbusePage() {
             </div>
           </form>
 
-          {cleanupMessage ? <p className="mt-3 text-xs text-zinc-600">{cleanupMessage}</p> : null}
+          <p className="mt-3 text-xs text-zinc-600">Events older than {retentionDays} days are purged daily.</p>
 
           <div className="mt-4 space-y-3">
             {events.length === 0 ? (
@@ -398,7 +634,7 @@ export default function AdminAbusePage() {
                   </div>
                   <p className="mt-1 text-xs text-zinc-600">Source: {event.source}</p>
                   <p className="mt-1 text-xs text-zinc-600 break-all">Wishlist: {event.wishlistId}</p>
-                  <p className="mt-1 text-xs text-zinc-600 break-all">Actor: {event.actorEmail}</p>
+                  <p className="mt-1 text-xs text-zinc-600 break-all">Actor: {event.actorEmail || "system"}</p>
                   {event.details ? (
                     <p className="mt-1 text-xs text-zinc-600">
                       Token hint: {event.details.tokenHint}
@@ -411,6 +647,127 @@ export default function AdminAbusePage() {
           </div>
         </section>
       </section>
+
+      <section className="mt-6 rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h2 className="text-base font-semibold text-zinc-900">Throttled requests</h2>
+            <p className="mt-1 text-sm text-zinc-600">Recent rate-limit hits by account, IP address, or share token.</p>
+          </div>
+          <button
+            className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800 disabled:opacity-60"
+            disabled={isThrottleLoading}
+            onClick={() => fetchRateLimits()}
+            type="button"
+          >
+            {isThrottleLoading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+
+        {throttleError ? <p className="mt-3 text-sm text-rose-700">{throttleError}</p> : null}
+
+        <div className="mt-4 space-y-2">
+          {throttleEvents.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-zinc-300 p-4 text-sm text-zinc-600">No throttled requests recorded.</div>
+          ) : (
+            throttleEvents.map((event) => (
+              <article className="rounded-lg border border-zinc-200 p-3" key={event.id}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-zinc-900">
+                    {RATE_LIMIT_SUBJECT_LABELS[event.subjectKind]}:{" "}
+                    {event.subjectKind === "actor" ? event.actorEmail || event.subjectLabel : event.subjectLabel}
+                  </p>
+                  <p className="text-xs text-zinc-500">{new Date(event.createdAt).toLocaleString()}</p>
+                </div>
+                <p className="mt-1 text-xs text-zinc-600">
+                  Scope: {event.scope} • limit {event.limit} per {event.windowSec}s
+                </p>
+                <p className="mt-1 text-xs text-zinc-600 break-all">
+                  IP: {event.ipAddress || "unknown"}
+                  {event.shareTokenHint ? ` • token hint ${event.shareTokenHint}` : ""}
+                  {event.actorEmail && event.subjectKind !== "actor" ? ` • account ${event.actorEmail}` : ""}
+                </p>
+              </article>
+            ))
+          )}
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm">
+        <h2 className="text-base font-semibold text-zinc-900">Admin roles</h2>
+        <p className="mt-1 text-sm text-zinc-600">Grant or revoke admin access by account email. Changes apply on the next request.</p>
+
+        <form className="mt-4 flex flex-wrap items-end gap-2" onSubmit={onGrantRole}>
+          <label className="min-w-64 flex-1 text-sm">
+            <span className="mb-1 block font-medium text-zinc-800">Account email</span>
+            <input
+              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+              onChange={(event) => setRoleEmail(event.target.value)}
+              placeholder="moderator@example.com"
+              type="email"
+              value={roleEmail}
+            />
+          </label>
+          <button
+            className="rounded-md bg-zinc-900 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+            disabled={!roleEmail.trim() || isRoleMutating}
+            type="submit"
+          >
+            {isRoleMutating ? "Applying..." : "Grant admin"}
+          </button>
+        </form>
+
+        {roleError ? <p className="mt-3 text-sm text-rose-700">{roleError}</p> : null}
+        {roleSuccess ? <p className="mt-3 text-sm text-emerald-700">{roleSuccess}</p> : null}
+
+        <div className="mt-4 grid gap-6 lg:grid-cols-2">
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-zinc-900">Current admins</h3>
+            {admins.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-zinc-300 p-4 text-sm text-zinc-600">No admins loaded.</div>
+            ) : (
+              admins.map((admin) => (
+                <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-zinc-200 p-3" key={admin.userId}>
+                  <div>
+                    <p className="text-sm font-medium text-zinc-900">{admin.email || admin.userId}</p>
+                    <p className="text-xs text-zinc-600">{admin.displayName}</p>
+                  </div>
+                  {admin.email && admin.email !== adminEmail ? (
+                    <button
+                      className="rounded-md border border-rose-300 px-3 py-1 text-xs font-medium text-rose-900 disabled:opacity-60"
+                      disabled={isRoleMutating}
+                      onClick={() => applyRoleChange(admin.email || "", "user")}
+                      type="button"
+                    >
+                      Revoke
+                    </button>
+                  ) : null}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-zinc-900">Recent role changes</h3>
+            {roleEvents.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-zinc-300 p-4 text-sm text-zinc-600">No role changes recorded.</div>
+            ) : (
+              roleEvents.map((event) => (
+                <article className="rounded-lg border border-zinc-200 p-3" key={event.id}>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-zinc-900">
+                      {event.action === "grant_admin_role" ? "Granted admin" : "Revoked admin"}
+                    </p>
+                    <p className="text-xs text-zinc-500">{new Date(event.createdAt).toLocaleString()}</p>
+                  </div>
+                  <p className="mt-1 text-xs text-zinc-600 break-all">Account: {event.targetEmail || event.targetUserId}</p>
+                  <p className="mt-1 text-xs text-zinc-600 break-all">Actor: {event.actorEmail || "system"}</p>
+                </article>
+              ))
+            )}
+          </div>
+        </div>
+      </section>
     </main>
   );
 }
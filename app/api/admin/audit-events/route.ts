@@ -1,21 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { ItemAuditAction, listItemAuditEvents, pruneItemAuditEvents } from "@/app/_lib/item-store";
-import {
-  getWishlistRecordById,
-  listShareLinkAuditEvents,
-  pruneShareLinkAuditEvents,
-  ShareLinkAuditAction,
-} from "@/app/_lib/wishlist-store";
+import { ItemAuditAction, listItemAuditEvents } from "@/app/_lib/item-store";
+import { authenticateAdminRequest } from "@/app/_lib/request-auth";
+import { readRetentionPolicy } from "@/app/_lib/retention-job";
+import { getWishlistRecordById, listShareLinkAuditEvents, ShareLinkAuditAction } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const DEFAULT_RETENTION_DAYS = 180;
-
-type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "VALIDATION_ERROR";
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "VALIDATION_ERROR" | "INTERNAL_ERROR";
 
 type AdminAuditAction = ItemAuditAction | ShareLinkAuditAction;
 
-const ITEM_ACTIONS = new Set<ItemAuditAction>(["create", "update", "archive", "reserve", "unreserve", "contribute"]);
+const ITEM_ACTIONS = new Set<ItemAuditAction>([
+  "create",
+  "update",
+  "archive",
+  "reserve",
+  "unreserve",
+  "mark_purchased",
+  "unmark_purchased",
+  "renew_hold",
+  "release_expired_hold",
+  "join_waitlist",
+  "leave_waitlist",
+  "grant_waitlist_head_start",
+  "contribute",
+  "withdraw_contribution",
+  "reduce_contribution",
+  "mark_contribution_paid",
+  "confirm_contribution",
+  "set_organizer",
+  "set_payment_instructions",
+  "auto_extend_deadline",
+  "auto_archive",
+]);
 const SHARE_ACTIONS = new Set<ShareLinkAuditAction>(["rotate_share_link", "disable_share_link", "enable_share_link"]);
 
 function errorResponse(status: number, code: ApiErrorCode, message: string) {
@@ -31,31 +47,19 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function parseAdminAllowlist(raw: string | undefined): Set<string> {
-  return new Set(
-    (raw || "")
-      .split(",")
-      .map((value) => value.trim().toLowerCase())
-      .filter((value) => EMAIL_REGEX.test(value)),
-  );
-}
-
-function adminEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-admin-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
-}
-
-function isAuthorizedAdmin(adminEmail: string): boolean {
-  const allowlist = parseAdminAllowlist(process.env.ADMIN_EMAILS);
-  if (allowlist.size === 0) return false;
-  return allowlist.has(adminEmail);
-}
+async function authenticateAdmin(request: NextRequest) {
+  const admin = await authenticateAdminRequest(request);
+  if (!admin.ok) {
+    if (admin.code === "AUTH_TIMEOUT" || admin.code === "ROLE_UNAVAILABLE") {
+      return errorResponse(503, "INTERNAL_ERROR", "Admin verification is unavailable. Please retry.");
+    }
+    if (admin.code === "NOT_ADMIN") {
+      return errorResponse(403, "FORBIDDEN", "Admin role is required.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
+  }
 
-function parseRetentionDays(raw: string | undefined): number {
-  const parsed = Number(raw);
-  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_RETENTION_DAYS;
-  return Math.min(Math.max(Math.floor(parsed), 1), 3650);
+  return admin;
 }
 
 function parseLimit(raw: string | null): number {
@@ -79,14 +83,8 @@ function parseSince(raw: string | null): string | null {
 }
 
 export async function GET(request: NextRequest) {
-  const adminEmail = adminEmailFromHeader(request);
-  if (!adminEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
-  }
-
-  if (!isAuthorizedAdmin(adminEmail)) {
-    return errorResponse(403, "FORBIDDEN", "Admin role is required.");
-  }
+  const admin = await authenticateAdmin(request);
+  if (admin instanceof NextResponse) return admin;
 
   const searchParams = request.nextUrl.searchParams;
   const wishlistId = searchParams.get("wishlistId")?.trim() || undefined;
@@ -102,37 +100,50 @@ export async function GET(request: NextRequest) {
   }
 
   const limit = parseLimit(searchParams.get("limit"));
-  const retentionDays = parseRetentionDays(process.env.AUDIT_RETENTION_DAYS);
+  const retentionDays = readRetentionPolicy().auditEventsDays;
 
-  const cleanupItem = pruneItemAuditEvents({ retentionDays });
-  const cleanupShare = pruneShareLinkAuditEvents({ retentionDays });
+  let itemAuditEvents: Awaited<ReturnType<typeof listItemAuditEvents>>;
+  let shareAuditEvents: Awaited<ReturnType<typeof listShareLinkAuditEvents>>;
 
   const itemActionFilter = action && ITEM_ACTIONS.has(action as ItemAuditAction) ? (action as ItemAuditAction) : undefined;
   const shareActionFilter =
     action && SHARE_ACTIONS.has(action as ShareLinkAuditAction) ? (action as ShareLinkAuditAction) : undefined;
 
-  const itemEvents = listItemAuditEvents({
-    wishlistId,
-    action: itemActionFilter,
-    since: since || undefined,
-    limit,
-  }).map((event) => ({
+  try {
+    [itemAuditEvents, shareAuditEvents] = await Promise.all([
+      itemActionFilter || !shareActionFilter
+        ? listItemAuditEvents({
+            wishlistId,
+            action: itemActionFilter,
+            since: since || undefined,
+            limit,
+          })
+        : Promise.resolve([]),
+      shareActionFilter || !itemActionFilter
+        ? listShareLinkAuditEvents({
+            wishlistId,
+            action: shareActionFilter,
+            since: since || undefined,
+            limit,
+          })
+        : Promise.resolve([]),
+    ]);
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load audit events right now.");
+  }
+
+  const itemEvents = itemAuditEvents.map((event) => ({
     id: event.id,
     source: "item" as const,
     action: event.action,
     wishlistId: event.wishlistId,
     entityId: event.entityId,
-    actorEmail: event.ownerEmail,
+    actorEmail: event.actorEmail,
     createdAt: event.createdAt,
     details: null as { tokenHint: string; disabledAt: string | null } | null,
   }));
 
-  const shareEvents = listShareLinkAuditEvents({
-    wishlistId,
-    action: shareActionFilter,
-    since: since || undefined,
-    limit,
-  }).map((event) => ({
+  const shareEvents = shareAuditEvents.map((event) => ({
     id: event.id,
     source: "share_link" as const,
     action: event.action,
@@ -163,10 +174,6 @@ export async function GET(request: NextRequest) {
   return NextResponse.json({
     ok: true as const,
     retentionDays,
-    cleanup: {
-      removedItemEvents: cleanupItem.removedCount,
-      removedShareLinkEvents: cleanupShare.removedCount,
-    },
     wishlist,
     events,
   });
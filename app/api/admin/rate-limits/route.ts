@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listRateLimitEvents } from "@/app/_lib/rate-limiter";
+import { authenticateAdminRequest } from "@/app/_lib/request-auth";
+import { fetchUserEmailsByIds } from "@/app/_lib/user-directory";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "VALIDATION_ERROR" | "INTERNAL_ERROR";
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+async function authenticateAdmin(request: NextRequest) {
+  const admin = await authenticateAdminRequest(request);
+  if (!admin.ok) {
+    if (admin.code === "AUTH_TIMEOUT" || admin.code === "ROLE_UNAVAILABLE") {
+      return errorResponse(503, "INTERNAL_ERROR", "Admin verification is unavailable. Please retry.");
+    }
+    if (admin.code === "NOT_ADMIN") {
+      return errorResponse(403, "FORBIDDEN", "Admin role is required.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
+  }
+
+  return admin;
+}
+
+function parseLimit(raw: string | null): number {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) return 100;
+  return Math.min(Math.max(Math.floor(parsed), 1), 500);
+}
+
+function parseSince(raw: string | null): string | null {
+  if (!raw) return null;
+  const timestamp = new Date(raw).getTime();
+  if (!Number.isFinite(timestamp)) return null;
+  return new Date(timestamp).toISOString();
+}
+
+export async function GET(request: NextRequest) {
+  const admin = await authenticateAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  const searchParams = request.nextUrl.searchParams;
+  const since = parseSince(searchParams.get("since"));
+  if (searchParams.get("since") && !since) {
+    return errorResponse(422, "VALIDATION_ERROR", "Invalid since timestamp.");
+  }
+
+  try {
+    const events = await listRateLimitEvents({
+      since: since || undefined,
+      limit: parseLimit(searchParams.get("limit")),
+    });
+    const actorEmails = await fetchUserEmailsByIds(
+      events.map((event) => event.actorUserId).filter((id): id is string => Boolean(id)),
+    );
+
+    return NextResponse.json({
+      ok: true as const,
+      events: events.map((event) => ({
+        ...event,
+        actorEmail: event.actorUserId ? actorEmails.get(event.actorUserId) || null : null,
+      })),
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load rate limit events right now.");
+  }
+}
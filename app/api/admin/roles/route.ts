@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listAdminProfiles, listRoleAuditEvents, setProfileRole } from "@/app/_lib/admin-roles";
+import { authenticateAdminRequest } from "@/app/_lib/request-auth";
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "NOT_FOUND" | "VALIDATION_ERROR" | "CONFLICT" | "INTERNAL_ERROR";
+
+type RolePayload = {
+  email?: string;
+  role?: string;
+};
+
+function errorResponse(status: number, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string>) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: { code, message, fieldErrors },
+    },
+    { status },
+  );
+}
+
+async function authenticateAdmin(request: NextRequest) {
+  const admin = await authenticateAdminRequest(request);
+  if (!admin.ok) {
+    if (admin.code === "AUTH_TIMEOUT" || admin.code === "ROLE_UNAVAILABLE") {
+      return errorResponse(503, "INTERNAL_ERROR", "Admin verification is unavailable. Please retry.");
+    }
+    if (admin.code === "NOT_ADMIN") {
+      return errorResponse(403, "FORBIDDEN", "Admin role is required.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
+  }
+
+  return admin;
+}
+
+export async function GET(request: NextRequest) {
+  const admin = await authenticateAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  try {
+    const [admins, events] = await Promise.all([listAdminProfiles(), listRoleAuditEvents()]);
+
+    return NextResponse.json({
+      ok: true as const,
+      admins,
+      events,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load admin roles right now.");
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const admin = await authenticateAdmin(request);
+  if (admin instanceof NextResponse) return admin;
+
+  let payload: RolePayload;
+  try {
+    payload = (await request.json()) as RolePayload;
+  } catch {
+    return errorResponse(400, "VALIDATION_ERROR", "Invalid JSON payload.");
+  }
+
+  const email = payload.email?.trim().toLowerCase() || "";
+  const role = payload.role;
+  const fieldErrors: Record<string, string> = {};
+  if (!EMAIL_REGEX.test(email)) fieldErrors.email = "Enter a valid account email.";
+  if (role !== "admin" && role !== "user") fieldErrors.role = "Role must be admin or user.";
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", fieldErrors);
+  }
+
+  try {
+    const result = await setProfileRole({
+      targetEmail: email,
+      role: role === "admin" ? "admin" : "user",
+      actorUserId: admin.userId,
+    });
+
+    if ("error" in result) {
+      if (result.error === "TARGET_NOT_FOUND") {
+        return errorResponse(404, "NOT_FOUND", "No account exists for that email.");
+      }
+      return errorResponse(409, "CONFLICT", "You cannot revoke your own admin role.");
+    }
+
+    return NextResponse.json({
+      ok: true as const,
+      alreadyApplied: result.alreadyApplied,
+      auditEventId: result.auditEventId,
+      userId: result.targetUserId,
+      role: result.role,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to update admin role right now.");
+  }
+}
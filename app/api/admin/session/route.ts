@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminRequest } from "@/app/_lib/request-auth";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "INTERNAL_ERROR";
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const admin = await authenticateAdminRequest(request);
+  if (!admin.ok) {
+    if (admin.code === "AUTH_TIMEOUT" || admin.code === "ROLE_UNAVAILABLE") {
+      return errorResponse(503, "INTERNAL_ERROR", "Admin verification is unavailable. Please retry.");
+    }
+    if (admin.code === "NOT_ADMIN") {
+      return errorResponse(403, "FORBIDDEN", "Admin role is required.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
+  }
+
+  return NextResponse.json({
+    ok: true as const,
+    admin: {
+      email: admin.email,
+      userId: admin.userId,
+    },
+  });
+}
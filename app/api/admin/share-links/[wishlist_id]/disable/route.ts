@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { authenticateAdminRequest } from "@/app/_lib/request-auth";
 import { updateWishlistShareLinkDisabled } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
 type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
 
 function errorResponse(status: number, code: ApiErrorCode, message: string) {
@@ -19,43 +18,31 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function parseAdminAllowlist(raw: string | undefined): Set<string> {
-  return new Set(
-    (raw || "")
-      .split(",")
-      .map((value) => value.trim().toLowerCase())
-      .filter((value) => EMAIL_REGEX.test(value)),
-  );
-}
-
-function adminEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-admin-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
-}
+async function authenticateAdmin(request: NextRequest) {
+  const admin = await authenticateAdminRequest(request);
+  if (!admin.ok) {
+    if (admin.code === "AUTH_TIMEOUT" || admin.code === "ROLE_UNAVAILABLE") {
+      return errorResponse(503, "INTERNAL_ERROR", "Admin verification is unavailable. Please retry.");
+    }
+    if (admin.code === "NOT_ADMIN") {
+      return errorResponse(403, "FORBIDDEN", "Admin role is required.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
+  }
 
-function isAuthorizedAdmin(adminEmail: string): boolean {
-  const allowlist = parseAdminAllowlist(process.env.ADMIN_EMAILS);
-  if (allowlist.size === 0) return false;
-  return allowlist.has(adminEmail);
+  return admin;
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ wishlist_id: string }> }) {
-  const adminEmail = adminEmailFromHeader(request);
-  if (!adminEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Admin sign in is required.");
-  }
-
-  if (!isAuthorizedAdmin(adminEmail)) {
-    return errorResponse(403, "FORBIDDEN", "Admin role is required.");
-  }
+  const admin = await authenticateAdmin(request);
+  if (admin instanceof NextResponse) return admin;
 
   const { wishlist_id } = await context.params;
 
   try {
     const updated = await updateWishlistShareLinkDisabled({
       wishlistId: wishlist_id,
-      actorEmail: adminEmail,
+      actorUserId: admin.userId,
       disabled: true,
     });
 
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { archiveItem, restoreArchivedItem } from "@/app/_lib/item-store";
-
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
 
 type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
 
@@ -16,23 +15,29 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to archive items.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to archive items.");
+  if (owner instanceof NextResponse) return owner;
   const { id } = await context.params;
 
   let result: Awaited<ReturnType<typeof archiveItem>>;
   try {
-    result = await archiveItem({ itemId: id, ownerEmail });
+    result = await archiveItem({ itemId: id, ownerUserId: owner.userId });
   } catch {
     return errorResponse(500, "INTERNAL_ERROR", "Unable to archive item right now.");
   }
@@ -51,16 +56,13 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
 }
 
 export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to restore archived items.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to restore archived items.");
+  if (owner instanceof NextResponse) return owner;
   const { id } = await context.params;
 
   let result: Awaited<ReturnType<typeof restoreArchivedItem>>;
   try {
-    result = await restoreArchivedItem({ itemId: id, ownerEmail });
+    result = await restoreArchivedItem({ itemId: id, ownerUserId: owner.userId });
   } catch {
     return errorResponse(500, "INTERNAL_ERROR", "Unable to restore item right now.");
   }
@@ -5,9 +5,9 @@ import {
   prepareItemImageUpload,
   uploadItemImage,
 } from "@/app/_lib/item-store";
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
 import { getSupabaseAdminClient, getSupabaseStorageBucket } from "@/app/_lib/supabase-admin";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const DEFAULT_MAX_UPLOAD_MB = 10;
 const DEFAULT_ALLOWED_IMAGE_MIME = ["image/jpeg", "image/png", "image/webp", "image/gif"];
 const DEFAULT_SIGNED_URL_TTL_SEC = 300;
@@ -38,10 +38,19 @@ function errorResponse(status: number, code: ApiErrorCode, message: string, fiel
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 function parsePositiveInt(raw: string | undefined, fallback: number) {
@@ -136,11 +145,8 @@ function mapUploadError(code: string) {
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for image upload actions.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required for image upload actions.");
+  if (owner instanceof NextResponse) return owner;
   const { id } = await context.params;
 
   let payload: UploadUrlPayload;
@@ -157,7 +163,7 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
     const imageIndex = Number.isInteger(payload.imageIndex) && payload.imageIndex !== undefined && payload.imageIndex >= 0 ? payload.imageIndex : 0;
     const result = await createItemImagePreview({
       itemId: id,
-      ownerEmail,
+      ownerUserId: owner.userId,
       imageIndex,
     });
 
@@ -210,7 +216,7 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
 
   const result = await prepareItemImageUpload({
     itemId: id,
-    ownerEmail,
+    ownerUserId: owner.userId,
     filename: filename || "image",
     mimeType,
     sizeBytes,
@@ -233,11 +239,8 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
 }
 
 export async function PUT(request: NextRequest) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to upload images.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to upload images.");
+  if (owner instanceof NextResponse) return owner;
   const uploadToken = request.nextUrl.searchParams.get("uploadToken") || "";
 
   if (!uploadToken) {
@@ -258,7 +261,7 @@ export async function PUT(request: NextRequest) {
 
   const result = await uploadItemImage({
     uploadToken,
-    ownerEmail,
+    ownerUserId: owner.userId,
     mimeType,
     fileBytes: bytes,
   });
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { setItemOrganizer } from "@/app/_lib/item-store";
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "FORBIDDEN" | "NOT_FOUND" | "CONFLICT" | "INTERNAL_ERROR";
+
+type OrganizerPayload = {
+  email?: string | null;
+};
+
+function errorResponse(status: number, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string>) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: { code, message, fieldErrors },
+    },
+    { status },
+  );
+}
+
+async function authenticateOwner(request: NextRequest) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required.");
+  }
+
+  return owner;
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const owner = await authenticateOwner(request);
+  if (owner instanceof NextResponse) return owner;
+
+  const { id } = await context.params;
+
+  let payload: OrganizerPayload;
+  try {
+    payload = (await request.json()) as OrganizerPayload;
+  } catch {
+    return errorResponse(400, "VALIDATION_ERROR", "Invalid JSON payload.");
+  }
+
+  if (payload.email !== undefined && payload.email !== null && typeof payload.email !== "string") {
+    return errorResponse(422, "VALIDATION_ERROR", "Organizer email must be a string or null.", {
+      email: "Organizer email must be a string or null.",
+    });
+  }
+
+  try {
+    const result = await setItemOrganizer({
+      itemId: id,
+      ownerUserId: owner.userId,
+      organizerEmail: payload.email?.trim() || null,
+    });
+
+    if ("error" in result) {
+      if (result.error === "NOT_FOUND") {
+        return errorResponse(404, "NOT_FOUND", "Item not found.");
+      }
+      if (result.error === "FORBIDDEN") {
+        return errorResponse(403, "FORBIDDEN", "You do not have access to this item.");
+      }
+      if (result.error === "NOT_GROUP_FUNDED") {
+        return errorResponse(409, "CONFLICT", "Only group-funded items have an organizer.");
+      }
+      if (result.error === "ORGANIZER_IS_OWNER") {
+        return errorResponse(422, "VALIDATION_ERROR", "You cannot organize your own gift.", {
+          email: "Nominate someone other than yourself.",
+        });
+      }
+      return errorResponse(422, "VALIDATION_ERROR", "No account exists for that email.", {
+        email: "No account exists for that email.",
+      });
+    }
+
+    return NextResponse.json({
+      ok: true as const,
+      item: result.item,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to set the organizer right now.");
+  }
+}
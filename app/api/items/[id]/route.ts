@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { updateItem } from "@/app/_lib/item-store";
+import { type FundingOverflowMode, type ShortfallPolicy, updateItem } from "@/app/_lib/item-store";
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const URL_REGEX = /^https?:\/\//i;
 const STORAGE_URL_REGEX = /^storage:\/\//i;
 const TITLE_MAX = 120;
 const DESCRIPTION_MAX = 600;
 const IMAGE_LIMIT = 10;
+const QUANTITY_MAX = 999;
+const PAYMENT_INSTRUCTIONS_MAX = 500;
+const SHORTFALL_POLICIES = new Set<ShortfallPolicy>(["owner_decides", "auto_extend_7d", "auto_archive"]);
+const OVERFLOW_MODES = new Set<FundingOverflowMode>(["cap", "allow", "allow_percent"]);
 
 type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
 
@@ -20,6 +24,12 @@ type ItemPayload = {
   imageUrls?: string[] | null;
   isGroupFunded?: boolean;
   targetCents?: number | null;
+  fundingDeadlineAt?: string | null;
+  shortfallPolicy?: string | null;
+  fundingOverflowMode?: string | null;
+  fundingOverflowPercent?: number | null;
+  quantityDesired?: number | null;
+  paymentInstructions?: string | null;
 };
 
 function errorResponse(status: number, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string>) {
@@ -32,10 +42,19 @@ function errorResponse(status: number, code: ApiErrorCode, message: string, fiel
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 function validatePayload(body: ItemPayload) {
@@ -50,6 +69,22 @@ function validatePayload(body: ItemPayload) {
   const priceCents = body.priceCents ?? null;
   const isGroupFunded = Boolean(body.isGroupFunded);
   const targetCents = body.targetCents ?? null;
+  const rawDeadline = typeof body.fundingDeadlineAt === "string" ? body.fundingDeadlineAt.trim() : "";
+  const deadlineMs = rawDeadline ? Date.parse(rawDeadline) : Number.NaN;
+  const fundingDeadlineAt =
+    body.fundingDeadlineAt === undefined
+      ? undefined
+      : rawDeadline && Number.isFinite(deadlineMs)
+        ? new Date(deadlineMs).toISOString()
+        : null;
+  const shortfallPolicy =
+    body.shortfallPolicy === undefined ? undefined : ((body.shortfallPolicy || "owner_decides") as ShortfallPolicy);
+  const fundingOverflowMode =
+    body.fundingOverflowMode === undefined ? undefined : ((body.fundingOverflowMode || "cap") as FundingOverflowMode);
+  const fundingOverflowPercent = body.fundingOverflowPercent === undefined ? undefined : body.fundingOverflowPercent;
+  const quantityDesired = body.quantityDesired ?? undefined;
+  const paymentInstructions =
+    body.paymentInstructions === undefined ? undefined : body.paymentInstructions?.trim() || null;
 
   if (!title) fieldErrors.title = "Item title is required.";
   if (title.length > TITLE_MAX) fieldErrors.title = `Item title must be ${TITLE_MAX} chars or less.`;
@@ -75,6 +110,13 @@ function validatePayload(body: ItemPayload) {
     fieldErrors.priceCents = "Price must be a non-negative integer in cents.";
   }
 
+  if (
+    quantityDesired !== undefined &&
+    (!Number.isInteger(quantityDesired) || quantityDesired < 1 || quantityDesired > QUANTITY_MAX)
+  ) {
+    fieldErrors.quantityDesired = `Quantity must be a whole number from 1 to ${QUANTITY_MAX}.`;
+  }
+
   if (targetCents !== null && (!Number.isInteger(targetCents) || targetCents <= 0)) {
     fieldErrors.targetCents = "Target must be a positive integer in cents.";
   }
@@ -83,6 +125,32 @@ function validatePayload(body: ItemPayload) {
     fieldErrors.targetCents = "Target is required when group funded is enabled.";
   }
 
+  if (isGroupFunded) {
+    if (rawDeadline && !fundingDeadlineAt) {
+      fieldErrors.fundingDeadlineAt = "Funding deadline must be a valid date.";
+    }
+
+    if (shortfallPolicy !== undefined && !SHORTFALL_POLICIES.has(shortfallPolicy)) {
+      fieldErrors.shortfallPolicy = "Shortfall policy must be owner_decides, auto_extend_7d, or auto_archive.";
+    }
+
+    if (fundingOverflowMode !== undefined && !OVERFLOW_MODES.has(fundingOverflowMode)) {
+      fieldErrors.fundingOverflowMode = "Overflow mode must be cap, allow, or allow_percent.";
+    }
+
+    if (
+      fundingOverflowPercent !== undefined &&
+      fundingOverflowPercent !== null &&
+      (!Number.isInteger(fundingOverflowPercent) || fundingOverflowPercent < 1 || fundingOverflowPercent > 100)
+    ) {
+      fieldErrors.fundingOverflowPercent = "Overflow percentage must be a whole number from 1 to 100.";
+    }
+
+    if (paymentInstructions && paymentInstructions.length > PAYMENT_INSTRUCTIONS_MAX) {
+      fieldErrors.paymentInstructions = `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} chars or less.`;
+    }
+  }
+
   return {
     fieldErrors,
     value: {
@@ -94,16 +162,19 @@ function validatePayload(body: ItemPayload) {
       imageUrls,
       isGroupFunded,
       targetCents: isGroupFunded ? targetCents : null,
+      fundingDeadlineAt: isGroupFunded ? fundingDeadlineAt : null,
+      shortfallPolicy: isGroupFunded ? shortfallPolicy : ("owner_decides" as ShortfallPolicy),
+      fundingOverflowMode: isGroupFunded ? fundingOverflowMode : ("cap" as FundingOverflowMode),
+      fundingOverflowPercent: isGroupFunded ? fundingOverflowPercent : null,
+      quantityDesired,
+      paymentInstructions: isGroupFunded ? paymentInstructions : null,
     },
   };
 }
 
 export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to update items.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to update items.");
+  if (owner instanceof NextResponse) return owner;
   let payload: ItemPayload;
   try {
     payload = (await request.json()) as ItemPayload;
@@ -122,7 +193,7 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
   try {
     updated = await updateItem({
       itemId: id,
-      ownerEmail,
+      ownerUserId: owner.userId,
       title: validated.value.title,
       description: validated.value.description,
       url: validated.value.url,
@@ -131,6 +202,12 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
       imageUrls: validated.value.imageUrls,
       isGroupFunded: validated.value.isGroupFunded,
       targetCents: validated.value.targetCents,
+      fundingDeadlineAt: validated.value.fundingDeadlineAt,
+      shortfallPolicy: validated.value.shortfallPolicy,
+      fundingOverflowMode: validated.value.fundingOverflowMode,
+      fundingOverflowPercent: validated.value.fundingOverflowPercent,
+      quantityDesired: validated.value.quantityDesired,
+      paymentInstructions: validated.value.paymentInstructions,
     });
   } catch {
     return errorResponse(500, "INTERNAL_ERROR", "Unable to update item right now.");
@@ -140,6 +217,21 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
     if (updated.error === "NOT_FOUND") {
       return errorResponse(404, "NOT_FOUND", "Item not found.");
     }
+    if (updated.error === "DEADLINE_IN_PAST") {
+      return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", {
+        fundingDeadlineAt: "Funding deadline must be in the future.",
+      });
+    }
+    if (updated.error === "DEADLINE_REQUIRED") {
+      return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", {
+        fundingDeadlineAt: "Set a funding deadline to use an automatic shortfall policy.",
+      });
+    }
+    if (updated.error === "OVERFLOW_PERCENT_REQUIRED") {
+      return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", {
+        fundingOverflowPercent: "Overflow percentage must be a whole number from 1 to 100.",
+      });
+    }
     return errorResponse(403, "FORBIDDEN", "You do not have access to this item.");
   }
 
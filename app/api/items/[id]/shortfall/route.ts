@@ -57,7 +57,7 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
   try {
     const resolved = await resolveGroupFundingShortfall({
       itemId: id,
-      ownerEmail: owner.email,
+      ownerUserId: owner.userId,
       action,
     });
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
+
 const DEFAULT_OPENAI_TIMEOUT_MS = 8000;
 const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
 const TITLE_MAX = 120;
@@ -10,7 +11,7 @@ const DESCRIPTION_BULLET_MAX = 5;
 const DESCRIPTION_BULLET_LINE_MAX = 120;
 const MAX_DRAFT_TEXT_CHARS = 4000;
 
-type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "AI_CONFIG_MISSING" | "INTERNAL_ERROR";
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "VALIDATION_ERROR" | "AI_CONFIG_MISSING" | "INTERNAL_ERROR";
 
 type ParsedDraftPayload = {
   title: string | null;
@@ -29,10 +30,19 @@ function errorResponse(status: number, code: ApiErrorCode, message: string, fiel
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 function parsePositiveInt(raw: string | undefined, fallback: number): number {
@@ -279,10 +289,8 @@ async function inferDraftFieldsWithOpenAi(input: {
 }
 
 export async function POST(request: NextRequest) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to parse item text.");
-  }
+  const owner = await authenticateOwner(request, "Sign in is required to parse item text.");
+  if (owner instanceof NextResponse) return owner;
 
   const payload = (await request.json().catch(() => null)) as { draftText?: string } | null;
   const draftText = (payload?.draftText || "").trim();
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { randomUUID } from "node:crypto";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
+
 const URL_REGEX = /^https?:\/\//i;
 const REQUEST_ID_REGEX = /^[a-zA-Z0-9._:-]{6,120}$/;
 const DEFAULT_METADATA_TIMEOUT_MS = 5000;
@@ -27,10 +28,19 @@ function errorResponse(status: number, code: string, message: string, fieldError
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 function requestIdFromRequest(request: NextRequest): string {
@@ -882,10 +892,8 @@ export async function POST(request: NextRequest) {
   const openAiApiKey = (process.env.OPENAI_API_KEY || "").trim();
   const openAiModel = (process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL).trim();
 
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to fetch metadata.");
-  }
+  const owner = await authenticateOwner(request, "Sign in is required to fetch metadata.");
+  if (owner instanceof NextResponse) return owner;
 
   const payload = (await request.json().catch(() => null)) as { url?: string; specNotes?: string } | null;
   const urlValue = payload?.url?.trim() || "";
@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { createItem, listItemsForWishlist } from "@/app/_lib/item-store";
+import { createItem, type FundingOverflowMode, listItemsForWishlist, type ShortfallPolicy } from "@/app/_lib/item-store";
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
 import { listWishlistRecords } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const URL_REGEX = /^https?:\/\//i;
 const STORAGE_URL_REGEX = /^storage:\/\//i;
 const TITLE_MAX = 120;
 const DESCRIPTION_MAX = 600;
 const IMAGE_LIMIT = 10;
+const QUANTITY_MAX = 999;
+const PAYMENT_INSTRUCTIONS_MAX = 500;
+const SHORTFALL_POLICIES = new Set<ShortfallPolicy>(["owner_decides", "auto_extend_7d", "auto_archive"]);
+const OVERFLOW_MODES = new Set<FundingOverflowMode>(["cap", "allow", "allow_percent"]);
 
 type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
 
@@ -22,6 +26,12 @@ type ItemPayload = {
   imageUrls?: string[] | null;
   isGroupFunded?: boolean;
   targetCents?: number | null;
+  fundingDeadlineAt?: string | null;
+  shortfallPolicy?: string | null;
+  fundingOverflowMode?: string | null;
+  fundingOverflowPercent?: number | null;
+  quantityDesired?: number | null;
+  paymentInstructions?: string | null;
 };
 
 function errorResponse(status: number, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string>) {
@@ -34,10 +44,19 @@ function errorResponse(status: number, code: ApiErrorCode, message: string, fiel
   );
 }
 
-function ownerEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-owner-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateOwner(request: NextRequest, requiredMessage: string) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return owner;
 }
 
 function validatePayload(body: ItemPayload) {
@@ -53,6 +72,15 @@ function validatePayload(body: ItemPayload) {
   const priceCents = body.priceCents ?? null;
   const isGroupFunded = Boolean(body.isGroupFunded);
   const targetCents = body.targetCents ?? null;
+  const rawDeadline = typeof body.fundingDeadlineAt === "string" ? body.fundingDeadlineAt.trim() : "";
+  const deadlineMs = rawDeadline ? Date.parse(rawDeadline) : Number.NaN;
+  const fundingDeadlineAt = rawDeadline && Number.isFinite(deadlineMs) ? new Date(deadlineMs).toISOString() : null;
+  const shortfallPolicy = (body.shortfallPolicy || "owner_decides") as ShortfallPolicy;
+  const fundingOverflowMode = (body.fundingOverflowMode || "cap") as FundingOverflowMode;
+  const fundingOverflowPercent = body.fundingOverflowPercent ?? null;
+  const quantityDesired = body.quantityDesired ?? 1;
+  const paymentInstructions =
+    body.paymentInstructions === undefined ? undefined : body.paymentInstructions?.trim() || null;
 
   if (!wishlistId) fieldErrors.wishlistId = "Wishlist ID is required.";
 
@@ -80,6 +108,13 @@ function validatePayload(body: ItemPayload) {
     fieldErrors.priceCents = "Price must be a non-negative integer in cents.";
   }
 
+  if (
+    quantityDesired !== undefined &&
+    (!Number.isInteger(quantityDesired) || quantityDesired < 1 || quantityDesired > QUANTITY_MAX)
+  ) {
+    fieldErrors.quantityDesired = `Quantity must be a whole number from 1 to ${QUANTITY_MAX}.`;
+  }
+
   if (targetCents !== null && (!Number.isInteger(targetCents) || targetCents <= 0)) {
     fieldErrors.targetCents = "Target must be a positive integer in cents.";
   }
@@ -88,6 +123,36 @@ function validatePayload(body: ItemPayload) {
     fieldErrors.targetCents = "Target is required when group funded is enabled.";
   }
 
+  if (isGroupFunded) {
+    if (rawDeadline && !fundingDeadlineAt) {
+      fieldErrors.fundingDeadlineAt = "Funding deadline must be a valid date.";
+    } else if (deadlineMs <= Date.now()) {
+      fieldErrors.fundingDeadlineAt = "Funding deadline must be in the future.";
+    }
+
+    if (!SHORTFALL_POLICIES.has(shortfallPolicy)) {
+      fieldErrors.shortfallPolicy = "Shortfall policy must be owner_decides, auto_extend_7d, or auto_archive.";
+    } else if (shortfallPolicy !== "owner_decides" && !fundingDeadlineAt && !fieldErrors.fundingDeadlineAt) {
+      fieldErrors.fundingDeadlineAt = "Set a funding deadline to use an automatic shortfall policy.";
+    }
+
+    if (!OVERFLOW_MODES.has(fundingOverflowMode)) {
+      fieldErrors.fundingOverflowMode = "Overflow mode must be cap, allow, or allow_percent.";
+    } else if (
+      fundingOverflowMode === "allow_percent" &&
+      (fundingOverflowPercent === null ||
+        !Number.isInteger(fundingOverflowPercent) ||
+        fundingOverflowPercent < 1 ||
+        fundingOverflowPercent > 100)
+    ) {
+      fieldErrors.fundingOverflowPercent = "Overflow percentage must be a whole number from 1 to 100.";
+    }
+
+    if (paymentInstructions && paymentInstructions.length > PAYMENT_INSTRUCTIONS_MAX) {
+      fieldErrors.paymentInstructions = `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} chars or less.`;
+    }
+  }
+
   return {
     fieldErrors,
     value: {
@@ -100,16 +165,19 @@ function validatePayload(body: ItemPayload) {
       imageUrls,
       isGroupFunded,
       targetCents: isGroupFunded ? targetCents : null,
+      fundingDeadlineAt: isGroupFunded ? fundingDeadlineAt : null,
+      shortfallPolicy: isGroupFunded ? shortfallPolicy : ("owner_decides" as ShortfallPolicy),
+      fundingOverflowMode: isGroupFunded ? fundingOverflowMode : ("cap" as FundingOverflowMode),
+      fundingOverflowPercent: isGroupFunded && fundingOverflowMode === "allow_percent" ? fundingOverflowPercent : null,
+      quantityDesired,
+      paymentInstructions: isGroupFunded ? paymentInstructions : null,
     },
   };
 }
 
 export async function POST(request: NextRequest) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to create items.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to create items.");
+  if (owner instanceof NextResponse) return owner;
   let payload: ItemPayload;
   try {
     payload = (await request.json()) as ItemPayload;
@@ -123,7 +191,7 @@ export async function POST(request: NextRequest) {
   }
 
   const ownerWishlists = await listWishlistRecords({
-    ownerEmail,
+    ownerId: owner.userId,
     search: "",
     sort: "updated_desc",
     canonicalHost: process.env.CANONICAL_HOST,
@@ -137,7 +205,7 @@ export async function POST(request: NextRequest) {
   try {
     const created = await createItem({
       wishlistId: validated.value.wishlistId,
-      ownerEmail,
+      ownerUserId: owner.userId,
       title: validated.value.title,
       description: validated.value.description,
       url: validated.value.url,
@@ -146,6 +214,12 @@ export async function POST(request: NextRequest) {
       imageUrls: validated.value.imageUrls,
       isGroupFunded: validated.value.isGroupFunded,
       targetCents: validated.value.targetCents,
+      fundingDeadlineAt: validated.value.fundingDeadlineAt,
+      shortfallPolicy: validated.value.shortfallPolicy,
+      fundingOverflowMode: validated.value.fundingOverflowMode,
+      fundingOverflowPercent: validated.value.fundingOverflowPercent,
+      quantityDesired: validated.value.quantityDesired,
+      paymentInstructions: validated.value.paymentInstructions,
     });
 
     return NextResponse.json(
@@ -162,11 +236,8 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
-  const ownerEmail = ownerEmailFromHeader(request);
-  if (!ownerEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to load items.");
-  }
-
+  const owner = await authenticateOwner(request, "Sign in is required to load items.");
+  if (owner instanceof NextResponse) return owner;
   const wishlistId = request.nextUrl.searchParams.get("wishlistId") || "";
   if (!wishlistId) {
     return errorResponse(422, "VALIDATION_ERROR", "Wishlist ID is required.", {
@@ -175,7 +246,7 @@ export async function GET(request: NextRequest) {
   }
 
   const ownerWishlists = await listWishlistRecords({
-    ownerEmail,
+    ownerId: owner.userId,
     search: "",
     sort: "updated_desc",
     canonicalHost: process.env.CANONICAL_HOST,
@@ -187,7 +258,7 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const items = await listItemsForWishlist({ wishlistId, ownerEmail });
+    const items = await listItemsForWishlist({ wishlistId, ownerUserId: owner.userId });
 
     return NextResponse.json({
       ok: true as const,
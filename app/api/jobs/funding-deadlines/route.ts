@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { sweepFundingDeadlines } from "@/app/_lib/item-store";
+import { authenticateJobRequest } from "@/app/_lib/request-auth";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "INTERNAL_ERROR";
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+async function handle(request: NextRequest) {
+  const auth = authenticateJobRequest(request);
+  if (!auth.ok) {
+    if (auth.code === "JOB_SECRET_UNSET") {
+      return errorResponse(403, "FORBIDDEN", "Scheduled jobs are not configured.");
+    }
+    if (auth.code === "AUTH_INVALID") {
+      return errorResponse(403, "FORBIDDEN", "Job secret is invalid.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Job secret is required.");
+  }
+
+  try {
+    const report = await sweepFundingDeadlines();
+    console.info("funding_deadline_sweep_completed", {
+      sweptAt: report.sweptAt,
+      scannedCount: report.scannedCount,
+      extendedCount: report.extendedCount,
+      archivedCount: report.archivedCount,
+      failedCount: report.failedCount,
+    });
+
+    return NextResponse.json({
+      ok: true as const,
+      report,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to sweep funding deadlines right now.");
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { sweepReservationHolds } from "@/app/_lib/archive-alerts";
+import { authenticateJobRequest } from "@/app/_lib/request-auth";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "INTERNAL_ERROR";
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+async function handle(request: NextRequest) {
+  const auth = authenticateJobRequest(request);
+  if (!auth.ok) {
+    if (auth.code === "JOB_SECRET_UNSET") {
+      return errorResponse(403, "FORBIDDEN", "Scheduled jobs are not configured.");
+    }
+    if (auth.code === "AUTH_INVALID") {
+      return errorResponse(403, "FORBIDDEN", "Job secret is invalid.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Job secret is required.");
+  }
+
+  try {
+    const report = await sweepReservationHolds();
+    console.info("reservation_hold_sweep_completed", {
+      sweptAt: report.sweptAt,
+      scannedCount: report.scannedCount,
+      remindedCount: report.remindedCount,
+      releasedCount: report.releasedCount,
+      failedCount: report.failedCount,
+      lapsedHeadStartItemCount: report.lapsedHeadStartItemCount,
+      headStartsGrantedCount: report.headStartsGrantedCount,
+    });
+
+    return NextResponse.json({
+      ok: true as const,
+      report,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to sweep reservation holds right now.");
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
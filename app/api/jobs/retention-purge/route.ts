@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateJobRequest } from "@/app/_lib/request-auth";
+import { runRetentionPurge } from "@/app/_lib/retention-job";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "INTERNAL_ERROR";
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+async function handle(request: NextRequest) {
+  const auth = authenticateJobRequest(request);
+  if (!auth.ok) {
+    if (auth.code === "JOB_SECRET_UNSET") {
+      return errorResponse(403, "FORBIDDEN", "Scheduled jobs are not configured.");
+    }
+    if (auth.code === "AUTH_INVALID") {
+      return errorResponse(403, "FORBIDDEN", "Job secret is invalid.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Job secret is required.");
+  }
+
+  let report: Awaited<ReturnType<typeof runRetentionPurge>>;
+  try {
+    report = await runRetentionPurge();
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to run retention purge right now.");
+  }
+
+  const failedTables = Object.entries(report.tables)
+    .filter(([, result]) => !result.ok)
+    .map(([table]) => table);
+
+  if (failedTables.length > 0) {
+    return NextResponse.json(
+      {
+        ok: false as const,
+        error: {
+          code: "INTERNAL_ERROR" as ApiErrorCode,
+          message: `Retention purge failed for: ${failedTables.join(", ")}.`,
+        },
+        report,
+      },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({
+    ok: true as const,
+    report,
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return handle(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handle(request);
+}
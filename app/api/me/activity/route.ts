@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { listActivityForActor } from "@/app/_lib/item-store";
-import { getPublicShareTokenForWishlist, getWishlistRecordById } from "@/app/_lib/wishlist-store";
+import { isValidActivityCursor, listActivityForActor, type ActivityStatusFilter } from "@/app/_lib/item-store";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
+import { getPublicShareTokenForWishlist } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "INTERNAL_ERROR";
 
-type ApiErrorCode = "AUTH_REQUIRED";
+const STATUS_FILTERS = new Set<ActivityStatusFilter>(["all", "active"]);
 
 function errorResponse(status: number, code: ApiErrorCode, message: string) {
   return NextResponse.json(
@@ -20,53 +21,84 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 export async function GET(request: NextRequest) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to view activity.");
+  const actor = await authenticateActor(request, "Sign in is required to view activity.");
+  if (actor instanceof NextResponse) return actor;
+  const searchParams = request.nextUrl.searchParams;
+  const wishlistIdFilter = searchParams.get("wishlistId")?.trim() || null;
+  const statusParam = searchParams.get("status")?.trim() || "all";
+  const cursor = searchParams.get("cursor")?.trim() || null;
+  const limitParam = searchParams.get("limit");
+  const limit = limitParam ? Number(limitParam) : undefined;
+
+  if (!STATUS_FILTERS.has(statusParam as ActivityStatusFilter)) {
+    return errorResponse(422, "VALIDATION_ERROR", "Status must be all or active.");
+  }
+  if (cursor && !isValidActivityCursor(cursor)) {
+    return errorResponse(422, "VALIDATION_ERROR", "Cursor is invalid.");
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return errorResponse(422, "VALIDATION_ERROR", "Limit must be a positive integer.");
   }
 
-  const wishlistIdFilter = request.nextUrl.searchParams.get("wishlistId")?.trim() || null;
+  let page: Awaited<ReturnType<typeof listActivityForActor>>;
+  try {
+    page = await listActivityForActor({
+      actorUserId: actor.userId,
+      wishlistId: wishlistIdFilter,
+      status: statusParam as ActivityStatusFilter,
+      cursor,
+      limit,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load activity right now.");
+  }
 
-  const rows = await listActivityForActor({ actorEmail });
+  const wishlistIds = Array.from(new Set(page.entries.map((row) => row.wishlistId)));
+  const shareTokens = new Map(
+    await Promise.all(
+      wishlistIds.map(async (wishlistId) => [wishlistId, await getPublicShareTokenForWishlist(wishlistId)] as const),
+    ),
+  );
 
-  const filteredRows = rows.filter((row) => (wishlistIdFilter ? row.wishlistId === wishlistIdFilter : true));
-  const activities = await Promise.all(
-    filteredRows.map(async (row) => {
-      const [wishlist, shareToken] = await Promise.all([
-        getWishlistRecordById(row.wishlistId),
-        getPublicShareTokenForWishlist(row.wishlistId),
-      ]);
+  const activities = page.entries.map((row) => {
+    const shareToken = shareTokens.get(row.wishlistId);
 
-      return {
-        id: row.id,
-        kind: row.kind,
-        action: row.action,
-        wishlistId: row.wishlistId,
-        wishlistTitle: wishlist?.title || "Wishlist",
-        itemId: row.itemId,
-        itemTitle: row.itemTitle,
-        amountCents: row.amountCents,
-        status: row.status,
-        openCount: row.openCount,
-        happenedAt: row.happenedAt,
-        openItemPath: shareToken
-          ? row.itemId
-            ? `/l/${shareToken}?item=${row.itemId}`
-            : `/l/${shareToken}`
-          : null,
-      };
-    }),
-  );
+    return {
+      id: row.id,
+      kind: row.kind,
+      action: row.action,
+      wishlistId: row.wishlistId,
+      wishlistTitle: row.wishlistTitle || "Wishlist",
+      itemId: row.itemId,
+      itemTitle: row.itemTitle,
+      amountCents: row.amountCents,
+      status: row.status,
+      openCount: row.openCount,
+      happenedAt: row.happenedAt,
+      openItemPath: shareToken
+        ? row.itemId
+          ? `/l/${shareToken}?item=${row.itemId}`
+          : `/l/${shareToken}`
+        : null,
+    };
+  });
 
   return NextResponse.json({
     ok: true as const,
     activities,
+    nextCursor: page.nextCursor,
   });
 }
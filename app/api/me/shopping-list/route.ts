@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listShoppingListForActor, renewReservationHold, setReservationPurchased } from "@/app/_lib/item-store";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
+import { getPublicShareTokenForWishlist } from "@/app/_lib/wishlist-store";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "NOT_FOUND" | "CONFLICT" | "INTERNAL_ERROR";
+
+type PurchasePayload = {
+  itemId?: string;
+  purchased?: boolean;
+  renewHold?: boolean;
+};
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+      },
+    },
+    { status },
+  );
+}
+
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
+}
+
+export async function GET(request: NextRequest) {
+  const actor = await authenticateActor(request, "Sign in is required to view your shopping list.");
+  if (actor instanceof NextResponse) return actor;
+
+  let entries: Awaited<ReturnType<typeof listShoppingListForActor>>;
+  try {
+    entries = await listShoppingListForActor({ actorUserId: actor.userId });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load your shopping list right now.");
+  }
+
+  const wishlistIds = Array.from(new Set(entries.map((entry) => entry.wishlistId)));
+  const shareTokens = new Map(
+    await Promise.all(
+      wishlistIds.map(async (wishlistId) => [wishlistId, await getPublicShareTokenForWishlist(wishlistId)] as const),
+    ),
+  );
+
+  const items = entries.map((entry) => {
+    const shareToken = shareTokens.get(entry.wishlistId);
+
+    return {
+      itemId: entry.itemId,
+      itemTitle: entry.itemTitle,
+      itemUrl: entry.itemUrl,
+      priceCents: entry.priceCents,
+      quantity: entry.quantity,
+      wishlistId: entry.wishlistId,
+      wishlistTitle: entry.wishlistTitle || "Wishlist",
+      occasionDate: entry.occasionDate,
+      status: entry.status,
+      purchasedAt: entry.purchasedAt,
+      holdExpiresAt: entry.holdExpiresAt,
+      openItemPath: shareToken ? `/l/${shareToken}?item=${entry.itemId}` : null,
+    };
+  });
+
+  return NextResponse.json({
+    ok: true as const,
+    items,
+  });
+}
+
+async function renewHold(itemId: string, actorUserId: string) {
+  let result: Awaited<ReturnType<typeof renewReservationHold>>;
+  try {
+    result = await renewReservationHold({ itemId, actorUserId });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to renew this hold right now.");
+  }
+
+  if ("error" in result) {
+    if (result.error === "NOT_FOUND") {
+      return errorResponse(404, "NOT_FOUND", "Item not found.");
+    }
+    if (result.error === "ALREADY_PURCHASED") {
+      return errorResponse(409, "CONFLICT", "Purchased items do not need a hold renewal.");
+    }
+    return errorResponse(409, "CONFLICT", "You do not have an active reservation for this item.");
+  }
+
+  return NextResponse.json({
+    ok: true as const,
+    item: {
+      itemId,
+      status: result.status,
+      purchasedAt: null,
+      holdExpiresAt: result.holdExpiresAt,
+    },
+  });
+}
+
+export async function PATCH(request: NextRequest) {
+  const actor = await authenticateActor(request, "Sign in is required to update your shopping list.");
+  if (actor instanceof NextResponse) return actor;
+
+  let payload: PurchasePayload;
+  try {
+    payload = (await request.json()) as PurchasePayload;
+  } catch {
+    return errorResponse(400, "VALIDATION_ERROR", "Invalid JSON payload.");
+  }
+
+  const itemId = (payload.itemId || "").trim();
+  if (!itemId) {
+    return errorResponse(422, "VALIDATION_ERROR", "Item is required.");
+  }
+  if (payload.renewHold === true) {
+    return renewHold(itemId, actor.userId);
+  }
+  if (typeof payload.purchased !== "boolean") {
+    return errorResponse(422, "VALIDATION_ERROR", "Purchased must be true or false.");
+  }
+
+  let result: Awaited<ReturnType<typeof setReservationPurchased>>;
+  try {
+    result = await setReservationPurchased({
+      itemId,
+      actorUserId: actor.userId,
+      purchased: payload.purchased,
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to update your shopping list right now.");
+  }
+
+  if ("error" in result) {
+    if (result.error === "NOT_FOUND") {
+      return errorResponse(404, "NOT_FOUND", "Item not found.");
+    }
+    return errorResponse(409, "CONFLICT", "You do not have an active reservation for this item.");
+  }
+
+  return NextResponse.json({
+    ok: true as const,
+    item: {
+      itemId,
+      status: result.status,
+      purchasedAt: result.purchasedAt,
+      holdExpiresAt: result.holdExpiresAt,
+    },
+  });
+}
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { getLatestPendingArchiveAlert, markArchiveAlertSeen } from "@/app/_lib/archive-alerts";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
 import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
 type ApiErrorCode = "AUTH_REQUIRED" | "NOT_FOUND" | "VALIDATION_ERROR" | "INTERNAL_ERROR";
 
 function errorResponse(
@@ -26,17 +25,21 @@ function errorResponse(
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 export async function GET(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for archive alerts.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required for archive alerts.");
+  if (actor instanceof NextResponse) return actor;
 
   const { share_token } = await context.params;
   const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
@@ -47,13 +50,9 @@ export async function GET(request: NextRequest, context: { params: Promise<{ sha
   try {
     const result = await getLatestPendingArchiveAlert({
       wishlistId: resolvedWishlist.wishlist.id,
-      actorEmail,
+      actorUserId: actor.userId,
     });
 
-    if ("error" in result) {
-      return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for archive alerts.");
-    }
-
     return NextResponse.json({
       ok: true as const,
       alert: result.alert,
@@ -64,10 +63,8 @@ export async function GET(request: NextRequest, context: { params: Promise<{ sha
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for archive alerts.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required for archive alerts.");
+  if (actor instanceof NextResponse) return actor;
 
   const { share_token } = await context.params;
   const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
@@ -87,11 +84,8 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     const result = await markArchiveAlertSeen({
       notificationId,
       wishlistId: resolvedWishlist.wishlist.id,
-      actorEmail,
+      actorUserId: actor.userId,
     });
-    if ("error" in result) {
-      return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for archive alerts.");
-    }
 
     return NextResponse.json({
       ok: true as const,
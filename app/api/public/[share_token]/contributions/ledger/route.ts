@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listOrganizerLedger } from "@/app/_lib/item-store";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
+import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "NOT_FOUND" | "VALIDATION_ERROR" | "INTERNAL_ERROR";
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  fieldErrors?: Record<string, string>,
+) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+        fieldErrors,
+      },
+    },
+    {
+      status,
+      headers: {
+        "cache-control": "private, no-store, max-age=0",
+      },
+    },
+  );
+}
+
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
+  const actor = await authenticateActor(request, "Sign in is required to view the payment ledger.");
+  if (actor instanceof NextResponse) return actor;
+
+  const itemId = request.nextUrl.searchParams.get("itemId")?.trim() || "";
+  if (!itemId) {
+    return errorResponse(422, "VALIDATION_ERROR", "Item id is required.", {
+      itemId: "Item id is required.",
+    });
+  }
+
+  const { share_token } = await context.params;
+  const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
+  if ("error" in resolvedWishlist) {
+    return errorResponse(404, "NOT_FOUND", "This shared wishlist is unavailable.");
+  }
+
+  try {
+    const ledger = await listOrganizerLedger({
+      wishlistId: resolvedWishlist.wishlist.id,
+      itemId,
+      actorUserId: actor.userId,
+    });
+
+    if ("error" in ledger) {
+      if (ledger.error === "FORBIDDEN") {
+        return errorResponse(403, "FORBIDDEN", "Only the organizer of this gift can view payments.");
+      }
+      return errorResponse(404, "NOT_FOUND", "Item not found.");
+    }
+
+    return NextResponse.json(
+      {
+        ok: true as const,
+        itemId: ledger.itemId,
+        paymentInstructions: ledger.paymentInstructions,
+        entries: ledger.entries,
+      },
+      {
+        headers: {
+          "cache-control": "private, no-store, max-age=0",
+        },
+      },
+    );
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to load the payment ledger.");
+  }
+}
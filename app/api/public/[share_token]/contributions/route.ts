@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import {
-  consumeActionRateLimit,
-  contributeToPublicItem,
-  hydratePublicItemImage,
-  readIdempotency,
-  writeIdempotency,
-} from "@/app/_lib/item-store";
+import { claimIdempotencyKey, finalizeIdempotencyKey, releaseIdempotencyKey } from "@/app/_lib/idempotency-store";
+import { contributeToPublicItem, hydratePublicItemImage } from "@/app/_lib/item-store";
+import { consumePublicActionRateLimit, parseClientIp } from "@/app/_lib/rate-limiter";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
 import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const DEFAULT_RATE_LIMIT_ACTIONS_PER_MIN = 20;
 const DEFAULT_IDEMPOTENCY_TTL_SEC = 180;
 
 type ApiErrorCode =
@@ -19,7 +14,10 @@ type ApiErrorCode =
   | "NOT_FOUND"
   | "CONFLICT"
   | "RATE_LIMITED"
-  | "IDEMPOTENCY_KEY_REUSED";
+  | "OVER_TARGET"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "INTERNAL_ERROR";
 
 type ContributionPayload = {
   itemId?: string;
@@ -33,6 +31,7 @@ function errorResponse(
   options?: {
     fieldErrors?: Record<string, string>;
     retryAfterSec?: number;
+    maxAllowedCents?: number;
   },
 ) {
   return NextResponse.json(
@@ -43,6 +42,7 @@ function errorResponse(
         message,
         fieldErrors: options?.fieldErrors,
         retryAfterSec: options?.retryAfterSec,
+        maxAllowedCents: options?.maxAllowedCents,
       },
     },
     {
@@ -56,10 +56,16 @@ function errorResponse(
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 function parsePositiveInt(raw: string | undefined, fallback: number) {
@@ -68,34 +74,18 @@ function parsePositiveInt(raw: string | undefined, fallback: number) {
   return Math.floor(parsed);
 }
 
-function parseClientIp(request: NextRequest) {
-  const forwarded = request.headers.get("x-forwarded-for") || "";
-  const first = forwarded.split(",")[0]?.trim();
-  if (first) return first;
-
-  const realIp = request.headers.get("x-real-ip")?.trim();
-  if (realIp) return realIp;
-
-  return "unknown";
-}
-
 function idempotencyTtlSec() {
   return parsePositiveInt(process.env.IDEMPOTENCY_TTL_SEC, DEFAULT_IDEMPOTENCY_TTL_SEC);
 }
 
-function actionRateLimitPerMin() {
-  return parsePositiveInt(process.env.RATE_LIMIT_ACTIONS_PER_MIN, DEFAULT_RATE_LIMIT_ACTIONS_PER_MIN);
-}
-
 function idempotencyHeader(request: NextRequest) {
   return request.headers.get("x-idempotency-key")?.trim() || "";
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for this action.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required for this action.");
+  if (actor instanceof NextResponse) return actor;
+  const actorUserId = actor.userId;
 
   const idempotencyKey = idempotencyHeader(request);
   if (!idempotencyKey) {
@@ -143,17 +133,28 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     amountCents,
   };
 
-  const existing = readIdempotency({
-    scope,
-    actorEmail,
-    key: idempotencyKey,
-    payload: idempotencyPayload,
-  });
+  const idempotency = { scope, actorUserId, key: idempotencyKey };
+  let existing: Awaited<ReturnType<typeof claimIdempotencyKey>>;
+  try {
+    existing = await claimIdempotencyKey({
+      ...idempotency,
+      payload: idempotencyPayload,
+      ttlSec: idempotencyTtlSec(),
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to process this request right now.");
+  }
 
   if (existing.kind === "payload_mismatch") {
     return errorResponse(409, "IDEMPOTENCY_KEY_REUSED", "Idempotency key cannot be reused for a different request.");
   }
 
+  if (existing.kind === "in_progress") {
+    return errorResponse(409, "IDEMPOTENCY_IN_PROGRESS", "An identical request is still being processed. Retry shortly.", {
+      retryAfterSec: 1,
+    });
+  }
+
   if (existing.kind === "cached") {
     return NextResponse.json(existing.body, {
       status: existing.status,
@@ -163,41 +164,67 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     });
   }
 
-  const rateResult = consumeActionRateLimit({
-    scope: "public-actions",
-    actorEmail,
+  const rateResult = await consumePublicActionRateLimit({
+    actorUserId,
     ipAddress: parseClientIp(request),
-    limitPerMin: actionRateLimitPerMin(),
+    shareToken: share_token,
   });
 
   if (!rateResult.ok) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
     return errorResponse(429, "RATE_LIMITED", "Too many actions. Try again shortly.", {
       retryAfterSec: rateResult.retryAfterSec,
     });
   }
 
-  const mutation = await contributeToPublicItem({
-    wishlistId: resolvedWishlist.wishlist.id,
-    itemId,
-    actorEmail,
-    amountCents: amountCents as number,
-  });
+  let mutation: Awaited<ReturnType<typeof contributeToPublicItem>>;
+  try {
+    mutation = await contributeToPublicItem({
+      wishlistId: resolvedWishlist.wishlist.id,
+      itemId,
+      actorUserId,
+      amountCents: amountCents as number,
+    });
+  } catch {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to save this contribution right now.");
+  }
 
   if ("error" in mutation) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+
     if (mutation.error === "NOT_FOUND") {
       return errorResponse(404, "NOT_FOUND", "Item not found.");
     }
 
-    if (mutation.error === "ACTOR_NOT_FOUND") {
-      return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for this action.");
+    if (mutation.error === "INVALID_AMOUNT") {
+      return errorResponse(
+        422,
+        "VALIDATION_ERROR",
+        "Contribution must be at least 1.00, or exactly the amount left when less remains.",
+        {
+          fieldErrors: {
+            amountCents: "Contribution must be at least 1.00, or exactly the amount left when less remains.",
+          },
+        },
+      );
     }
 
-    if (mutation.error === "INVALID_AMOUNT") {
-      return errorResponse(422, "VALIDATION_ERROR", "Contribution must be at least 1.00.", {
-        fieldErrors: {
-          amountCents: "Contribution must be at least 1.00.",
+    if (mutation.error === "OVER_TARGET") {
+      const maxAllowedCents = "maxAllowedCents" in mutation ? mutation.maxAllowedCents ?? 0 : 0;
+      return errorResponse(
+        409,
+        "OVER_TARGET",
+        maxAllowedCents > 0
+          ? "This pledge is more than the amount left to fund."
+          : "This item is already fully funded.",
+        {
+          maxAllowedCents,
+          fieldErrors: {
+            amountCents: "Pledge exceeds the amount left to fund.",
+          },
         },
-      });
+      );
     }
 
     if (mutation.error === "NOT_GROUP_FUNDED") {
@@ -207,27 +234,31 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     return errorResponse(409, "CONFLICT", "This action is unavailable for archived items.");
   }
 
-  const hydratedItem = await hydratePublicItemImage(mutation.item);
-
-  const responseBody = {
-    ok: true as const,
-    contribution: {
-      id: mutation.contribution.id,
-      amountCents: mutation.contribution.amountCents,
-      createdAt: mutation.contribution.createdAt,
-    },
-    item: hydratedItem,
-  };
-
-  writeIdempotency({
-    scope,
-    actorEmail,
-    key: idempotencyKey,
-    payload: idempotencyPayload,
-    status: 200,
-    body: responseBody,
-    ttlSec: idempotencyTtlSec(),
-  });
-
-  return NextResponse.json(responseBody);
+  let completedResponse: { status: number; body: unknown } | null = null;
+  try {
+    const hydratedItem = await hydratePublicItemImage(mutation.item);
+
+    const responseBody = {
+      ok: true as const,
+      contribution: {
+        id: mutation.contribution.id,
+        amountCents: mutation.contribution.amountCents,
+        createdAt: mutation.contribution.createdAt,
+      },
+      paymentInstructions: mutation.paymentInstructions,
+      item: hydratedItem,
+    };
+    completedResponse = { status: 200, body: responseBody };
+
+    return NextResponse.json(responseBody);
+  } finally {
+    try {
+      await finalizeIdempotencyKey({ ...idempotency, response: completedResponse });
+    } catch (error) {
+      console.warn("idempotency_finalize_failed", {
+        scope,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
 }
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { listActiveReservationItemIdsForActor } from "@/app/_lib/item-store";
+import {
+  listActiveReservationItemIdsForActor,
+  listOrganizedItemIdsForActor,
+  listPledgesForActor,
+  listWaitlistEntriesForActor,
+} from "@/app/_lib/item-store";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
 import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
 type ApiErrorCode = "AUTH_REQUIRED" | "NOT_FOUND" | "INTERNAL_ERROR";
 
 function errorResponse(status: number, code: ApiErrorCode, message: string) {
@@ -20,17 +24,21 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 export async function GET(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to view your reservations.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required to view your reservations.");
+  if (actor instanceof NextResponse) return actor;
 
   const { share_token } = await context.params;
   const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
@@ -39,14 +47,20 @@ export async function GET(request: NextRequest, context: { params: Promise<{ sha
   }
 
   try {
-    const itemIds = await listActiveReservationItemIdsForActor({
-      wishlistId: resolvedWishlist.wishlist.id,
-      actorEmail,
-    });
+    const scope = { wishlistId: resolvedWishlist.wishlist.id, actorUserId: actor.userId };
+    const [itemIds, waitlist, pledges, organizingItemIds] = await Promise.all([
+      listActiveReservationItemIdsForActor(scope),
+      listWaitlistEntriesForActor(scope),
+      listPledgesForActor(scope),
+      listOrganizedItemIdsForActor(scope),
+    ]);
 
     return NextResponse.json({
       ok: true as const,
       itemIds,
+      waitlist,
+      pledges,
+      organizingItemIds,
     });
   } catch {
     return errorResponse(500, "INTERNAL_ERROR", "Unable to load reservations right now.");
@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { recordWishlistOpen } from "@/app/_lib/item-store";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
 import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-
 type ApiErrorCode = "AUTH_REQUIRED" | "NOT_FOUND" | "INTERNAL_ERROR";
 
 function errorResponse(status: number, code: ApiErrorCode, message: string) {
@@ -20,17 +19,21 @@ function errorResponse(status: number, code: ApiErrorCode, message: string) {
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to track wishlist activity.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required to track wishlist activity.");
+  if (actor instanceof NextResponse) return actor;
 
   const { share_token } = await context.params;
   const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
@@ -41,13 +44,9 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
   try {
     const result = await recordWishlistOpen({
       wishlistId: resolvedWishlist.wishlist.id,
-      actorEmail,
+      actorUserId: actor.userId,
     });
 
-    if ("error" in result) {
-      return errorResponse(401, "AUTH_REQUIRED", "Sign in is required to track wishlist activity.");
-    }
-
     return NextResponse.json({
       ok: true as const,
       openCount: result.openCount,
@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from "@/app/_lib/idempotency-store";
+import { setItemPaymentInstructionsAsOrganizer } from "@/app/_lib/item-store";
+import { consumePublicActionRateLimit, parseClientIp } from "@/app/_lib/rate-limiter";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
+import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
+
+const DEFAULT_IDEMPOTENCY_TTL_SEC = 180;
+const PAYMENT_INSTRUCTIONS_MAX = 500;
+
+type ApiErrorCode =
+  | "AUTH_REQUIRED"
+  | "VALIDATION_ERROR"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "RATE_LIMITED"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "INTERNAL_ERROR";
+
+type PaymentInstructionsPayload = {
+  itemId?: string;
+  instructions?: string | null;
+};
+
+function errorResponse(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  options?: {
+    fieldErrors?: Record<string, string>;
+    retryAfterSec?: number;
+  },
+) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: {
+        code,
+        message,
+        fieldErrors: options?.fieldErrors,
+        retryAfterSec: options?.retryAfterSec,
+      },
+    },
+    {
+      status,
+      headers: options?.retryAfterSec
+        ? {
+            "retry-after": String(options.retryAfterSec),
+          }
+        : undefined,
+    },
+  );
+}
+
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
+}
+
+function parsePositiveInt(raw: string | undefined, fallback: number) {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return Math.floor(parsed);
+}
+
+function idempotencyTtlSec() {
+  return parsePositiveInt(process.env.IDEMPOTENCY_TTL_SEC, DEFAULT_IDEMPOTENCY_TTL_SEC);
+}
+
+function idempotencyHeader(request: NextRequest) {
+  return request.headers.get("x-idempotency-key")?.trim() || "";
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
+  const actor = await authenticateActor(request, "Sign in is required for this action.");
+  if (actor instanceof NextResponse) return actor;
+  const actorUserId = actor.userId;
+
+  const idempotencyKey = idempotencyHeader(request);
+  if (!idempotencyKey) {
+    return errorResponse(422, "VALIDATION_ERROR", "Idempotency key is required.", {
+      fieldErrors: {
+        idempotencyKey: "Idempotency key is required.",
+      },
+    });
+  }
+
+  let payload: PaymentInstructionsPayload;
+  try {
+    payload = (await request.json()) as PaymentInstructionsPayload;
+  } catch {
+    return errorResponse(400, "VALIDATION_ERROR", "Invalid JSON payload.");
+  }
+
+  const itemId = (payload.itemId || "").trim();
+  const instructions = typeof payload.instructions === "string" ? payload.instructions.trim() : "";
+
+  const fieldErrors: Record<string, string> = {};
+  if (!itemId) {
+    fieldErrors.itemId = "Item is required.";
+  }
+  if (payload.instructions !== undefined && payload.instructions !== null && typeof payload.instructions !== "string") {
+    fieldErrors.instructions = "Payment instructions must be text.";
+  }
+  if (instructions.length > PAYMENT_INSTRUCTIONS_MAX) {
+    fieldErrors.instructions = `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} characters or less.`;
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", {
+      fieldErrors,
+    });
+  }
+
+  const { share_token } = await context.params;
+  const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
+  if ("error" in resolvedWishlist) {
+    return errorResponse(404, "NOT_FOUND", "This shared wishlist is unavailable.");
+  }
+
+  const scope = `payment-instructions:${share_token}`;
+  const idempotencyPayload = {
+    shareToken: share_token,
+    itemId,
+    instructions,
+  };
+
+  const idempotency = { scope, actorUserId, key: idempotencyKey };
+  let existing: Awaited<ReturnType<typeof claimIdempotencyKey>>;
+  try {
+    existing = await claimIdempotencyKey({
+      ...idempotency,
+      payload: idempotencyPayload,
+      ttlSec: idempotencyTtlSec(),
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to process this request right now.");
+  }
+
+  if (existing.kind === "payload_mismatch") {
+    return errorResponse(409, "IDEMPOTENCY_KEY_REUSED", "Idempotency key cannot be reused for a different request.");
+  }
+
+  if (existing.kind === "in_progress") {
+    return errorResponse(409, "IDEMPOTENCY_IN_PROGRESS", "An identical request is still being processed. Retry shortly.", {
+      retryAfterSec: 1,
+    });
+  }
+
+  if (existing.kind === "cached") {
+    return NextResponse.json(existing.body, {
+      status: existing.status,
+      headers: {
+        "x-idempotent-replay": "1",
+      },
+    });
+  }
+
+  const rateResult = await consumePublicActionRateLimit({
+    actorUserId,
+    ipAddress: parseClientIp(request),
+    shareToken: share_token,
+  });
+
+  if (!rateResult.ok) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+    return errorResponse(429, "RATE_LIMITED", "Too many actions. Try again shortly.", {
+      retryAfterSec: rateResult.retryAfterSec,
+    });
+  }
+
+  let mutation: Awaited<ReturnType<typeof setItemPaymentInstructionsAsOrganizer>>;
+  try {
+    mutation = await setItemPaymentInstructionsAsOrganizer({
+      wishlistId: resolvedWishlist.wishlist.id,
+      itemId,
+      actorUserId,
+      instructions: instructions || null,
+    });
+  } catch {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to save payment instructions right now.");
+  }
+
+  if ("error" in mutation) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+
+    if (mutation.error === "NOT_FOUND") {
+      return errorResponse(404, "NOT_FOUND", "Item not found.");
+    }
+
+    if (mutation.error === "FORBIDDEN") {
+      return errorResponse(403, "FORBIDDEN", "Only the organizer of this gift can set payment instructions.");
+    }
+
+    if (mutation.error === "TOO_LONG") {
+      return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", {
+        fieldErrors: {
+          instructions: `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} characters or less.`,
+        },
+      });
+    }
+
+    return errorResponse(409, "CONFLICT", "This action is unavailable for archived items.");
+  }
+
+  const responseBody = {
+    ok: true as const,
+    itemId: mutation.itemId,
+    paymentInstructions: mutation.paymentInstructions,
+  };
+
+  try {
+    await completeIdempotencyKey({
+      ...idempotency,
+      status: 200,
+      body: responseBody,
+    });
+  } catch (error) {
+    console.warn("idempotency_complete_failed", {
+      scope,
+      error: error instanceof Error ? error.message : "unknown",
+    });
+  }
+
+  return NextResponse.json(responseBody);
+}
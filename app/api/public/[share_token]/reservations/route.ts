@@ -1,17 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import {
-  consumeActionRateLimit,
-  hydratePublicItemImage,
-  readIdempotency,
-  reservePublicItem,
-  unreservePublicItem,
-  writeIdempotency,
-} from "@/app/_lib/item-store";
+import { claimIdempotencyKey, finalizeIdempotencyKey, releaseIdempotencyKey } from "@/app/_lib/idempotency-store";
+import { hydratePublicItemImage, reservePublicItem, unreservePublicItem } from "@/app/_lib/item-store";
+import { consumePublicActionRateLimit, parseClientIp } from "@/app/_lib/rate-limiter";
+import { authenticateActorRequest } from "@/app/_lib/request-auth";
 import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-const DEFAULT_RATE_LIMIT_ACTIONS_PER_MIN = 20;
 const DEFAULT_IDEMPOTENCY_TTL_SEC = 180;
 
 type ApiErrorCode =
@@ -20,11 +14,15 @@ type ApiErrorCode =
   | "NOT_FOUND"
   | "CONFLICT"
   | "RATE_LIMITED"
-  | "IDEMPOTENCY_KEY_REUSED";
+  | "QUANTITY_UNAVAILABLE"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "INTERNAL_ERROR";
 
 type ReservationPayload = {
   itemId?: string;
   action?: "reserve" | "unreserve";
+  quantity?: number;
 };
 
 function errorResponse(
@@ -34,6 +32,7 @@ function errorResponse(
   options?: {
     fieldErrors?: Record<string, string>;
     retryAfterSec?: number;
+    quantityRemaining?: number;
   },
 ) {
   return NextResponse.json(
@@ -44,6 +43,7 @@ function errorResponse(
         message,
         fieldErrors: options?.fieldErrors,
         retryAfterSec: options?.retryAfterSec,
+        quantityRemaining: options?.quantityRemaining,
       },
     },
     {
@@ -57,10 +57,16 @@ function errorResponse(
   );
 }
 
-function actorEmailFromHeader(request: NextRequest) {
-  const value = request.headers.get("x-actor-email")?.trim().toLowerCase() || "";
-  if (!EMAIL_REGEX.test(value)) return null;
-  return value;
+async function authenticateActor(request: NextRequest, requiredMessage: string) {
+  const actor = await authenticateActorRequest(request);
+  if (!actor.ok) {
+    if (actor.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", requiredMessage);
+  }
+
+  return actor;
 }
 
 function parsePositiveInt(raw: string | undefined, fallback: number) {
@@ -69,34 +75,18 @@ function parsePositiveInt(raw: string | undefined, fallback: number) {
   return Math.floor(parsed);
 }
 
-function parseClientIp(request: NextRequest) {
-  const forwarded = request.headers.get("x-forwarded-for") || "";
-  const first = forwarded.split(",")[0]?.trim();
-  if (first) return first;
-
-  const realIp = request.headers.get("x-real-ip")?.trim();
-  if (realIp) return realIp;
-
-  return "unknown";
-}
-
 function idempotencyTtlSec() {
   return parsePositiveInt(process.env.IDEMPOTENCY_TTL_SEC, DEFAULT_IDEMPOTENCY_TTL_SEC);
 }
 
-function actionRateLimitPerMin() {
-  return parsePositiveInt(process.env.RATE_LIMIT_ACTIONS_PER_MIN, DEFAULT_RATE_LIMIT_ACTIONS_PER_MIN);
-}
-
 function idempotencyHeader(request: NextRequest) {
   return request.headers.get("x-idempotency-key")?.trim() || "";
 }
 
 export async function POST(request: NextRequest, context: { params: Promise<{ share_token: string }> }) {
-  const actorEmail = actorEmailFromHeader(request);
-  if (!actorEmail) {
-    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for this action.");
-  }
+  const actor = await authenticateActor(request, "Sign in is required for this action.");
+  if (actor instanceof NextResponse) return actor;
+  const actorUserId = actor.userId;
 
   const idempotencyKey = idempotencyHeader(request);
   if (!idempotencyKey) {
@@ -125,6 +115,15 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     });
   }
 
+  const quantity = payload.quantity ?? 1;
+  if (action === "reserve" && (!Number.isInteger(quantity) || quantity < 1 || quantity > 999)) {
+    return errorResponse(422, "VALIDATION_ERROR", "Quantity must be a whole number between 1 and 999.", {
+      fieldErrors: {
+        quantity: "Quantity must be a whole number between 1 and 999.",
+      },
+    });
+  }
+
   const { share_token } = await context.params;
   const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
   if ("error" in resolvedWishlist) {
@@ -136,19 +135,31 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     shareToken: share_token,
     itemId,
     action,
+    quantity: action === "reserve" ? quantity : undefined,
   };
 
-  const existing = readIdempotency({
-    scope,
-    actorEmail,
-    key: idempotencyKey,
-    payload: idempotencyPayload,
-  });
+  const idempotency = { scope, actorUserId, key: idempotencyKey };
+  let existing: Awaited<ReturnType<typeof claimIdempotencyKey>>;
+  try {
+    existing = await claimIdempotencyKey({
+      ...idempotency,
+      payload: idempotencyPayload,
+      ttlSec: idempotencyTtlSec(),
+    });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to process this request right now.");
+  }
 
   if (existing.kind === "payload_mismatch") {
     return errorResponse(409, "IDEMPOTENCY_KEY_REUSED", "Idempotency key cannot be reused for a different request.");
   }
 
+  if (existing.kind === "in_progress") {
+    return errorResponse(409, "IDEMPOTENCY_IN_PROGRESS", "An identical request is still being processed. Retry shortly.", {
+      retryAfterSec: 1,
+    });
+  }
+
   if (existing.kind === "cached") {
     return NextResponse.json(existing.body, {
       status: existing.status,
@@ -158,71 +169,89 @@ export async function POST(request: NextRequest, context: { params: Promise<{ sh
     });
   }
 
-  const rateResult = consumeActionRateLimit({
-    scope: "public-actions",
-    actorEmail,
+  const rateResult = await consumePublicActionRateLimit({
+    actorUserId,
     ipAddress: parseClientIp(request),
-    limitPerMin: actionRateLimitPerMin(),
+    shareToken: share_token,
   });
 
   if (!rateResult.ok) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
     return errorResponse(429, "RATE_LIMITED", "Too many actions. Try again shortly.", {
       retryAfterSec: rateResult.retryAfterSec,
     });
   }
 
-  const mutation =
-    action === "reserve"
-      ? await reservePublicItem({
-          wishlistId: resolvedWishlist.wishlist.id,
-          itemId,
-          actorEmail,
-        })
-      : await unreservePublicItem({
-          wishlistId: resolvedWishlist.wishlist.id,
-          itemId,
-          actorEmail,
-        });
+  let mutation: Awaited<ReturnType<typeof reservePublicItem>> | Awaited<ReturnType<typeof unreservePublicItem>>;
+  try {
+    mutation =
+      action === "reserve"
+        ? await reservePublicItem({
+            wishlistId: resolvedWishlist.wishlist.id,
+            itemId,
+            actorUserId,
+            quantity,
+          })
+        : await unreservePublicItem({
+            wishlistId: resolvedWishlist.wishlist.id,
+            itemId,
+            actorUserId,
+          });
+  } catch {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to update this reservation right now.");
+  }
 
   if ("error" in mutation) {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
+
     if (mutation.error === "NOT_FOUND") {
       return errorResponse(404, "NOT_FOUND", "Item not found.");
     }
 
     if (mutation.error === "ALREADY_RESERVED") {
-      return errorResponse(409, "CONFLICT", "Item is already reserved.");
+      return errorResponse(409, "CONFLICT", "Item is already reserved. Join the waitlist to hear if it frees up.");
     }
 
-    if (mutation.error === "NO_ACTIVE_RESERVATION") {
-      return errorResponse(409, "CONFLICT", "You do not have an active reservation for this item.");
+    if (mutation.error === "QUANTITY_UNAVAILABLE") {
+      const quantityRemaining = "quantityRemaining" in mutation ? mutation.quantityRemaining ?? 0 : 0;
+      return errorResponse(409, "QUANTITY_UNAVAILABLE", `Only ${quantityRemaining} still needed.`, {
+        quantityRemaining,
+        fieldErrors: {
+          quantity: "Quantity exceeds what is still needed.",
+        },
+      });
     }
 
-    if (mutation.error === "ACTOR_NOT_FOUND") {
-      return errorResponse(401, "AUTH_REQUIRED", "Sign in is required for this action.");
+    if (mutation.error === "NO_ACTIVE_RESERVATION") {
+      return errorResponse(409, "CONFLICT", "You do not have an active reservation for this item.");
     }
 
     return errorResponse(409, "CONFLICT", "This action is unavailable for archived items.");
   }
 
-  const hydratedItem = await hydratePublicItemImage(mutation.item);
-
-  const responseBody = {
-    ok: true as const,
-    reservation: {
-      status: mutation.reservationStatus,
-    },
-    item: hydratedItem,
-  };
-
-  writeIdempotency({
-    scope,
-    actorEmail,
-    key: idempotencyKey,
-    payload: idempotencyPayload,
-    status: 200,
-    body: responseBody,
-    ttlSec: idempotencyTtlSec(),
-  });
+  let completedResponse: { status: number; body: unknown } | null = null;
+  try {
+    const hydratedItem = await hydratePublicItemImage(mutation.item);
 
-  return NextResponse.json(responseBody);
+    const responseBody = {
+      ok: true as const,
+      reservation: {
+        status: mutation.reservationStatus,
+      },
+      item: hydratedItem,
+    };
+    completedResponse = { status: 200, body: responseBody };
+
+    return NextResponse.json(responseBody);
+  } finally {
+    try {
+      await finalizeIdempotencyKey({ ...idempotency, response: completedResponse });
+    } catch (error) {
+      console.warn("idempotency_finalize_failed", {
+        scope,
+        error: error instanceof Error ? error.message : "unknown",
+      });
+    }
+  }
 }
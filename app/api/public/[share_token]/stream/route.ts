@@ -1,40 +1,31 @@
 import { NextResponse } from "next/server";
 
-import { resolvePublicWishlistReadModel } from "@/app/_lib/public-wishlist";
+import {
+  resolvePublicWishlistReadModel,
+  type PublicWishlistDelta,
+  type PublicWishlistReadModel,
+} from "@/app/_lib/public-wishlist";
+import {
+  getStreamMetricsStore,
+  joinPublicWishlistHub,
+  replayPublicWishlistEvents,
+  type StreamMetricsStore,
+} from "@/app/_lib/public-wishlist-hub";
+import { consumePublicReadRateLimit, parseClientIp } from "@/app/_lib/rate-limiter";
 
 const DEFAULT_STREAM_HEARTBEAT_SEC = 5;
 const DEFAULT_RECONNECT_WINDOW_SEC = 120;
 
-type ApiErrorCode = "NOT_FOUND";
+type ApiErrorCode = "NOT_FOUND" | "RATE_LIMITED";
 
 type StreamMessage =
   | {
       type: "snapshot";
       version: string;
-      wishlist: {
-        id: string;
-        title: string;
-        occasionDate: string | null;
-        occasionNote: string | null;
-        currency: string;
-        shareUrl: string;
-        itemCount: number;
-      };
-      items: Array<{
-        id: string;
-        title: string;
-        description: string | null;
-        url: string | null;
-        imageUrl: string | null;
-        priceCents: number | null;
-        isGroupFunded: boolean;
-        targetCents: number | null;
-        fundedCents: number;
-        contributorCount: number;
-        progressRatio: number;
-        availability: "available" | "reserved";
-      }>;
+      wishlist: PublicWishlistReadModel["wishlist"];
+      items: PublicWishlistReadModel["items"];
     }
+  | PublicWishlistDelta
   | {
       type: "heartbeat";
       version: string;
@@ -43,16 +34,20 @@ type StreamMessage =
       type: "not_found";
     };
 
-function errorResponse(status: number, code: ApiErrorCode, message: string) {
+function errorResponse(status: number, code: ApiErrorCode, message: string, retryAfterSec?: number) {
   return NextResponse.json(
     {
       ok: false as const,
       error: {
         code,
         message,
+        retryAfterSec,
       },
     },
-    { status },
+    {
+      status,
+      headers: retryAfterSec ? { "retry-after": String(retryAfterSec) } : undefined,
+    },
   );
 }
 
@@ -68,30 +63,6 @@ function parseReconnectWindowSeconds(raw: string | undefined) {
   return Math.min(Math.max(Math.floor(parsed), 30), 3600);
 }
 
-type StreamMetricsStore = {
-  totalConnections: number;
-  totalDisconnects: number;
-  reconnects: number;
-  lastConnectedAtByToken: Record<string, number>;
-};
-
-declare global {
-  // eslint-disable-next-line no-var
-  var __publicWishlistStreamMetrics: StreamMetricsStore | undefined;
-}
-
-function getStreamMetricsStore(): StreamMetricsStore {
-  if (!globalThis.__publicWishlistStreamMetrics) {
-    globalThis.__publicWishlistStreamMetrics = {
-      totalConnections: 0,
-      totalDisconnects: 0,
-      reconnects: 0,
-      lastConnectedAtByToken: {},
-    };
-  }
-  return globalThis.__publicWishlistStreamMetrics;
-}
-
 function tokenHint(token: string) {
   return token.slice(0, 8);
 }
@@ -101,6 +72,14 @@ function reconnectRate(metrics: StreamMetricsStore) {
   return Number((metrics.reconnects / metrics.totalConnections).toFixed(3));
 }
 
+function hubMetrics(metrics: StreamMetricsStore, wishlistId: string) {
+  return {
+    wishlistSubscribers: metrics.subscribersByWishlistId[wishlistId] || 0,
+    refreshes: metrics.refreshes,
+    refreshesSaved: metrics.refreshesSaved,
+  };
+}
+
 function logStreamMetric(input: {
   event: "stream_connect" | "stream_disconnect";
   tokenHint: string;
@@ -109,18 +88,31 @@ function logStreamMetric(input: {
   totalDisconnects: number;
   reconnects: number;
   reconnectRate: number;
+  wishlistSubscribers: number;
+  refreshes: number;
+  refreshesSaved: number;
 }) {
   console.info("public_wishlist_stream_metric", input);
 }
 
 function encodeMessage(message: StreamMessage): Uint8Array {
-  const payload = `data: ${JSON.stringify(message)}\n\n`;
+  const id = "version" in message ? `id: ${message.version}\n` : "";
+  const payload = `${id}data: ${JSON.stringify(message)}\n\n`;
   return new TextEncoder().encode(payload);
 }
 
 export async function GET(request: Request, context: { params: Promise<{ share_token: string }> }) {
   const { share_token } = await context.params;
 
+  const rateResult = await consumePublicReadRateLimit({
+    scope: "public-stream",
+    ipAddress: parseClientIp(request),
+    shareToken: share_token,
+  });
+  if (!rateResult.ok) {
+    return errorResponse(429, "RATE_LIMITED", "Too many stream connections. Try again shortly.", rateResult.retryAfterSec);
+  }
+
   const initial = await resolvePublicWishlistReadModel({
     shareToken: share_token,
     canonicalHost: process.env.CANONICAL_HOST,
@@ -133,13 +125,16 @@ export async function GET(request: Request, context: { params: Promise<{ share_t
   const heartbeatSec = parseHeartbeatSeconds(process.env.STREAM_HEARTBEAT_SEC);
   const reconnectWindowSec = parseReconnectWindowSeconds(process.env.STREAM_RECONNECT_WINDOW_SEC);
   const reconnectWindowMs = reconnectWindowSec * 1000;
-  let lastVersion = "";
+  const wishlistId = initial.model.wishlist.id;
+  const lastEventId =
+    request.headers.get("last-event-id")?.trim() || new URL(request.url).searchParams.get("lastEventId")?.trim() || "";
+  const replay = lastEventId ? replayPublicWishlistEvents(wishlistId, lastEventId, initial.model.version) : null;
+  let lastVersion = initial.model.version;
 
   const stream = new ReadableStream<Uint8Array>({
     start(controller) {
-      let intervalId: ReturnType<typeof setInterval> | null = null;
       let closed = false;
-      let inFlight = false;
+      let leaveHub: (() => void) | null = null;
       const metrics = getStreamMetricsStore();
       const now = Date.now();
       const previousConnectedAt = metrics.lastConnectedAtByToken[share_token];
@@ -158,15 +153,14 @@ export async function GET(request: Request, context: { params: Promise<{ share_t
         totalDisconnects: metrics.totalDisconnects,
         reconnects: metrics.reconnects,
         reconnectRate: reconnectRate(metrics),
+        ...hubMetrics(metrics, wishlistId),
       });
 
       const cleanup = (reason: string) => {
         if (closed) return;
         closed = true;
-        if (intervalId) {
-          clearInterval(intervalId);
-          intervalId = null;
-        }
+        leaveHub?.();
+        leaveHub = null;
         request.signal.removeEventListener("abort", onAbort);
         metrics.totalDisconnects += 1;
         logStreamMetric({
@@ -177,6 +171,7 @@ export async function GET(request: Request, context: { params: Promise<{ share_t
           totalDisconnects: metrics.totalDisconnects,
           reconnects: metrics.reconnects,
           reconnectRate: reconnectRate(metrics),
+          ...hubMetrics(metrics, wishlistId),
         });
       };
 
@@ -189,18 +184,44 @@ export async function GET(request: Request, context: { params: Promise<{ share_t
         }
       };
 
-      const emit = async () => {
-        if (closed || inFlight) return;
-        inFlight = true;
-
+      const enqueue = (message: StreamMessage) => {
+        if (closed) return;
         try {
-          const resolved = await resolvePublicWishlistReadModel({
-            shareToken: share_token,
-            canonicalHost: process.env.CANONICAL_HOST,
+          controller.enqueue(encodeMessage(message));
+        } catch {
+          cleanup("enqueue_failed");
+        }
+      };
+
+      request.signal.addEventListener("abort", onAbort);
+
+      if (replay) {
+        for (const delta of replay) {
+          enqueue(delta);
+        }
+        if (replay.length === 0) {
+          enqueue({
+            type: "heartbeat",
+            version: lastVersion,
           });
+        }
+      } else {
+        enqueue({
+          type: "snapshot",
+          version: initial.model.version,
+          wishlist: initial.model.wishlist,
+          items: initial.model.items,
+        });
+      }
 
-          if (!resolved.ok) {
-            controller.enqueue(encodeMessage({ type: "not_found" }));
+      leaveHub = joinPublicWishlistHub({
+        wishlistId,
+        shareToken: share_token,
+        model: initial.model,
+        heartbeatMs: heartbeatSec * 1000,
+        listener: (event) => {
+          if (event.type === "not_found") {
+            enqueue({ type: "not_found" });
             cleanup("not_found");
             try {
               controller.close();
@@ -210,34 +231,34 @@ export async function GET(request: Request, context: { params: Promise<{ share_t
             return;
           }
 
-          if (resolved.model.version !== lastVersion) {
-            lastVersion = resolved.model.version;
-            controller.enqueue(
-              encodeMessage({
+          if (event.type === "update") {
+            if (event.model.version === lastVersion) return;
+
+            const deltas = event.previousVersion === lastVersion ? event.deltas : null;
+            lastVersion = event.model.version;
+
+            if (!deltas) {
+              enqueue({
                 type: "snapshot",
-                version: resolved.model.version,
-                wishlist: resolved.model.wishlist,
-                items: resolved.model.items,
-              }),
-            );
-          } else {
-            controller.enqueue(
-              encodeMessage({
-                type: "heartbeat",
-                version: lastVersion,
-              }),
-            );
+                version: event.model.version,
+                wishlist: { ...event.model.wishlist, shareUrl: initial.model.wishlist.shareUrl },
+                items: event.model.items,
+              });
+              return;
+            }
+
+            for (const delta of deltas) {
+              enqueue(delta);
+            }
+            if (deltas.length > 0) return;
           }
-        } finally {
-          inFlight = false;
-        }
-      };
 
-      request.signal.addEventListener("abort", onAbort);
-      void emit();
-      intervalId = setInterval(() => {
-        void emit();
-      }, heartbeatSec * 1000);
+          enqueue({
+            type: "heartbeat",
+            version: lastVersion,
+          });
+        },
+      });
     },
     cancel() {
       // Request abort listener handles timer cleanup for most disconnects.
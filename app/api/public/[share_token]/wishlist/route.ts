@@ -1,30 +1,69 @@
 import { NextResponse } from "next/server";
 
 import { resolvePublicWishlistReadModel } from "@/app/_lib/public-wishlist";
+import { getLivePublicWishlistVersion, replayPublicWishlistEvents } from "@/app/_lib/public-wishlist-hub";
+import { consumePublicReadRateLimit, parseClientIp } from "@/app/_lib/rate-limiter";
+import { resolvePublicWishlistByToken } from "@/app/_lib/wishlist-store";
 
-type ApiErrorCode = "NOT_FOUND";
+type ApiErrorCode = "NOT_FOUND" | "RATE_LIMITED";
 
-function errorResponse(status: number, code: ApiErrorCode, message: string) {
+function errorResponse(status: number, code: ApiErrorCode, message: string, retryAfterSec?: number) {
   return NextResponse.json(
     {
       ok: false as const,
       error: {
         code,
         message,
+        retryAfterSec,
       },
     },
     {
       status,
       headers: {
         "cache-control": "private, no-store, max-age=0",
+        ...(retryAfterSec ? { "retry-after": String(retryAfterSec) } : {}),
       },
     },
   );
 }
 
-export async function GET(_request: Request, context: { params: Promise<{ share_token: string }> }) {
+export async function GET(request: Request, context: { params: Promise<{ share_token: string }> }) {
   const { share_token } = await context.params;
 
+  const rateResult = await consumePublicReadRateLimit({
+    scope: "public-wishlist",
+    ipAddress: parseClientIp(request),
+    shareToken: share_token,
+  });
+  if (!rateResult.ok) {
+    return errorResponse(429, "RATE_LIMITED", "Too many requests. Try again shortly.", rateResult.retryAfterSec);
+  }
+
+  const since = new URL(request.url).searchParams.get("since")?.trim() || "";
+  if (since) {
+    const resolvedWishlist = await resolvePublicWishlistByToken(share_token);
+    if ("error" in resolvedWishlist) {
+      return errorResponse(404, "NOT_FOUND", "This shared wishlist is unavailable.");
+    }
+
+    const liveVersion = getLivePublicWishlistVersion(resolvedWishlist.wishlist.id);
+    const deltas = liveVersion ? replayPublicWishlistEvents(resolvedWishlist.wishlist.id, since, liveVersion) : null;
+    if (liveVersion && deltas) {
+      return NextResponse.json(
+        {
+          ok: true as const,
+          version: liveVersion,
+          deltas,
+        },
+        {
+          headers: {
+            "cache-control": "private, no-store, max-age=0",
+          },
+        },
+      );
+    }
+  }
+
   const resolved = await resolvePublicWishlistReadModel({
     shareToken: share_token,
     canonicalHost: process.env.CANONICAL_HOST,
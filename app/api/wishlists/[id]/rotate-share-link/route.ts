@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from "@/app/_lib/idempotency-store";
 import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
 import { rotateWishlistShareLink } from "@/app/_lib/wishlist-store";
 
@@ -11,6 +12,8 @@ type ApiErrorCode =
   | "VALIDATION_ERROR"
   | "FORBIDDEN"
   | "NOT_FOUND"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "IDEMPOTENCY_IN_PROGRESS"
   | "INTERNAL_ERROR";
 
 function errorResponse(status: number, code: ApiErrorCode, message: string, fieldErrors?: Record<string, string>) {
@@ -53,35 +56,73 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
   }
 
   const { id } = await context.params;
+  const idempotency = {
+    scope: `rotate-share-link:${id}`,
+    actorUserId: owner.userId,
+    key: idempotencyKey,
+  };
+
+  try {
+    const claim = await claimIdempotencyKey({
+      ...idempotency,
+      payload: { wishlistId: id },
+      ttlSec: parsePositiveInt(process.env.IDEMPOTENCY_TTL_SEC, DEFAULT_IDEMPOTENCY_TTL_SEC),
+    });
+
+    if (claim.kind === "payload_mismatch") {
+      return errorResponse(409, "IDEMPOTENCY_KEY_REUSED", "Idempotency key cannot be reused for a different request.");
+    }
+
+    if (claim.kind === "in_progress") {
+      return errorResponse(409, "IDEMPOTENCY_IN_PROGRESS", "An identical request is still being processed. Retry shortly.");
+    }
+
+    if (claim.kind === "cached") {
+      return NextResponse.json(claim.body, {
+        status: claim.status,
+        headers: {
+          "x-idempotent-replay": "1",
+        },
+      });
+    }
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to rotate share link right now.");
+  }
 
   try {
     const rotated = await rotateWishlistShareLink({
       wishlistId: id,
-      ownerEmail: owner.email,
       ownerId: owner.userId,
       canonicalHost: process.env.CANONICAL_HOST,
       shareTokenBytes: parsePositiveInt(process.env.SHARE_TOKEN_BYTES, DEFAULT_SHARE_TOKEN_BYTES),
       shareTokenPepper: process.env.SHARE_TOKEN_PEPPER,
-      idempotencyKey,
-      idempotencyTtlSec: parsePositiveInt(process.env.IDEMPOTENCY_TTL_SEC, DEFAULT_IDEMPOTENCY_TTL_SEC),
     });
 
     if ("error" in rotated) {
+      await releaseIdempotencyKey(idempotency).catch(() => undefined);
       if (rotated.error === "NOT_FOUND") {
         return errorResponse(404, "NOT_FOUND", "Wishlist not found.");
       }
       return errorResponse(403, "FORBIDDEN", "You do not have access to rotate this wishlist link.");
     }
 
-    if (rotated.alreadyProcessed) {
-      return NextResponse.json({
+    // Replays never carry the new token; only the original response reveals it.
+    await completeIdempotencyKey({
+      ...idempotency,
+      status: 200,
+      body: {
         ok: true as const,
         alreadyProcessed: true as const,
         rotatedAt: rotated.rotatedAt,
         shareUrl: null,
         shareUrlPreview: null,
+      },
+    }).catch((error) => {
+      console.warn("idempotency_complete_failed", {
+        scope: idempotency.scope,
+        error: error instanceof Error ? error.message : "unknown",
       });
-    }
+    });
 
     return NextResponse.json({
       ok: true as const,
@@ -92,6 +133,7 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
       auditEventId: rotated.auditEventId,
     });
   } catch {
+    await releaseIdempotencyKey(idempotency).catch(() => undefined);
     return errorResponse(500, "INTERNAL_ERROR", "Unable to rotate share link right now.");
   }
 }
@@ -7,6 +7,8 @@ import { deleteWishlistRecord, updateWishlistRecord } from "@/app/_lib/wishlist-
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 const TITLE_MAX = 80;
 const NOTE_MAX = 200;
+const HOLD_DAYS_MAX = 90;
+const PAYMENT_INSTRUCTIONS_MAX = 500;
 
 type ApiErrorCode = "AUTH_REQUIRED" | "VALIDATION_ERROR" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
 
@@ -54,11 +56,16 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
     title?: string;
     occasionDate?: string | null;
     occasionNote?: string | null;
+    reservationHoldDays?: number | null;
+    paymentInstructions?: string | null;
   };
 
   const title = (body.title || "").trim();
   const occasionDate = body.occasionDate?.trim() || null;
   const occasionNote = body.occasionNote?.trim() || null;
+  const reservationHoldDays = body.reservationHoldDays;
+  const paymentInstructions =
+    body.paymentInstructions === undefined ? undefined : body.paymentInstructions?.trim() || null;
 
   const fieldErrors: Record<string, string> = {};
   if (!title) fieldErrors.title = "Wishlist title is required.";
@@ -70,6 +77,17 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
     fieldErrors.occasionNote = `Occasion note must be ${NOTE_MAX} characters or less.`;
   }
 
+  if (
+    reservationHoldDays !== undefined &&
+    reservationHoldDays !== null &&
+    (!Number.isInteger(reservationHoldDays) || reservationHoldDays < 1 || reservationHoldDays > HOLD_DAYS_MAX)
+  ) {
+    fieldErrors.reservationHoldDays = `Reservation hold must be a whole number of days from 1 to ${HOLD_DAYS_MAX}.`;
+  }
+  if (paymentInstructions && paymentInstructions.length > PAYMENT_INSTRUCTIONS_MAX) {
+    fieldErrors.paymentInstructions = `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} characters or less.`;
+  }
+
   if (Object.keys(fieldErrors).length > 0) {
     return errorResponse(422, "VALIDATION_ERROR", "Please fix the highlighted fields.", fieldErrors);
   }
@@ -77,11 +95,12 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
   try {
     const updated = await updateWishlistRecord({
       wishlistId: id,
-      ownerEmail: owner.email,
       ownerId: owner.userId,
       title,
       occasionDate,
       occasionNote,
+      reservationHoldDays,
+      paymentInstructions,
       canonicalHost: process.env.CANONICAL_HOST,
     });
 
@@ -100,6 +119,8 @@ export async function PATCH(request: NextRequest, context: { params: Promise<{ i
         occasionDate: updated.wishlist.occasionDate,
         occasionNote: updated.wishlist.occasionNote,
         currency: updated.wishlist.currency,
+        reservationHoldDays: updated.wishlist.reservationHoldDays,
+        paymentInstructions: updated.wishlist.paymentInstructions,
         updatedAt: updated.wishlist.updatedAt,
         shareUrlPreview: updated.shareUrlPreview,
       },
@@ -120,13 +141,11 @@ export async function DELETE(request: NextRequest, context: { params: Promise<{
   try {
     await deleteItemsForWishlist({
       wishlistId: id,
-      ownerEmail: owner.email,
-      ownerId: owner.userId,
+      ownerUserId: owner.userId,
     });
 
     const deleted = await deleteWishlistRecord({
       wishlistId: id,
-      ownerEmail: owner.email,
       ownerId: owner.userId,
     });
 
@@ -145,7 +164,6 @@ export async function DELETE(request: NextRequest, context: { params: Promise<{
     console.error("wishlist_delete_failed", {
       wishlistId: id,
       ownerId: owner.userId,
-      ownerEmail: owner.email,
       error: error instanceof Error ? error.message : "unknown",
     });
     return errorResponse(500, "INTERNAL_ERROR", "Unable to delete wishlist right now.");
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listOwnerStreamItemsForWishlist, type OwnerStreamItem } from "@/app/_lib/item-store";
+import { diffOwnerStreamItems, type OwnerStreamDelta } from "@/app/_lib/owner-wishlist-stream";
+import { authenticateOwnerRequest } from "@/app/_lib/request-auth";
+import { subscribeToWishlistChanges, type WishlistChangeSubscription } from "@/app/_lib/wishlist-change-feed";
+
+const DEFAULT_STREAM_HEARTBEAT_SEC = 5;
+
+type ApiErrorCode = "AUTH_REQUIRED" | "FORBIDDEN" | "NOT_FOUND" | "INTERNAL_ERROR";
+
+type OwnerStreamMessage =
+  | {
+      type: "snapshot";
+      items: OwnerStreamItem[];
+    }
+  | OwnerStreamDelta
+  | {
+      type: "heartbeat";
+    }
+  | {
+      type: "not_found";
+    };
+
+function errorResponse(status: number, code: ApiErrorCode, message: string) {
+  return NextResponse.json(
+    {
+      ok: false as const,
+      error: { code, message },
+    },
+    { status },
+  );
+}
+
+async function authenticateOwner(request: NextRequest) {
+  const owner = await authenticateOwnerRequest(request);
+  if (!owner.ok) {
+    if (owner.code === "AUTH_TIMEOUT") {
+      return errorResponse(503, "INTERNAL_ERROR", "Auth verification timed out. Please retry.");
+    }
+    if (owner.code === "AUTH_MISMATCH") {
+      return errorResponse(403, "FORBIDDEN", "Request owner does not match the signed-in account.");
+    }
+    return errorResponse(401, "AUTH_REQUIRED", "Sign in is required.");
+  }
+
+  return owner;
+}
+
+function parseHeartbeatSeconds(raw: string | undefined) {
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_STREAM_HEARTBEAT_SEC;
+  return Math.min(Math.max(Math.floor(parsed), 5), 60);
+}
+
+function encodeMessage(message: OwnerStreamMessage): Uint8Array {
+  return new TextEncoder().encode(`data: ${JSON.stringify(message)}\n\n`);
+}
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const owner = await authenticateOwner(request);
+  if (owner instanceof NextResponse) return owner;
+
+  const { id } = await context.params;
+
+  let initial: OwnerStreamItem[] | null;
+  try {
+    initial = await listOwnerStreamItemsForWishlist({ wishlistId: id, ownerUserId: owner.userId });
+  } catch {
+    return errorResponse(500, "INTERNAL_ERROR", "Unable to open live updates right now.");
+  }
+
+  if (!initial) {
+    return errorResponse(404, "NOT_FOUND", "Wishlist not found.");
+  }
+
+  const heartbeatSec = parseHeartbeatSeconds(process.env.STREAM_HEARTBEAT_SEC);
+  let lastItems = initial;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let intervalId: ReturnType<typeof setInterval> | null = null;
+      let closed = false;
+      let inFlight = false;
+      let refreshPending = false;
+      let changeFeed: WishlistChangeSubscription | null = null;
+
+      const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        if (intervalId) {
+          clearInterval(intervalId);
+          intervalId = null;
+        }
+        changeFeed?.unsubscribe();
+        changeFeed = null;
+        request.signal.removeEventListener("abort", onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          return;
+        }
+      };
+
+      const enqueue = (message: OwnerStreamMessage) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encodeMessage(message));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const refresh = async (): Promise<boolean> => {
+        if (closed) return false;
+        if (inFlight) {
+          refreshPending = true;
+          return false;
+        }
+        inFlight = true;
+
+        try {
+          const items = await listOwnerStreamItemsForWishlist({ wishlistId: id, ownerUserId: owner.userId });
+          if (!items) {
+            enqueue({ type: "not_found" });
+            cleanup();
+            try {
+              controller.close();
+            } catch {
+              // Ignore stream close race.
+            }
+            return false;
+          }
+
+          const deltas = diffOwnerStreamItems(lastItems, items);
+          lastItems = items;
+          for (const delta of deltas) {
+            enqueue(delta);
+          }
+          return deltas.length > 0;
+        } catch {
+          return false;
+        } finally {
+          inFlight = false;
+          if (refreshPending && !closed) {
+            refreshPending = false;
+            void refresh();
+          }
+        }
+      };
+
+      const heartbeat = async () => {
+        if (closed) return;
+        if (!changeFeed?.isLive() && (await refresh())) return;
+        enqueue({ type: "heartbeat" });
+      };
+
+      request.signal.addEventListener("abort", onAbort);
+
+      enqueue({ type: "snapshot", items: initial });
+
+      changeFeed = subscribeToWishlistChanges(id, (event) => {
+        if (event.type === "changed" || event.live) {
+          void refresh();
+        }
+      });
+
+      intervalId = setInterval(() => {
+        void heartbeat();
+      }, heartbeatSec * 1000);
+    },
+    cancel() {
+      // Request abort listener handles timer cleanup for most disconnects.
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no",
+    },
+  });
+}
@@ -45,7 +45,6 @@ export async function GET(request: NextRequest) {
   const sort = parseSort(searchParams.get("sort"));
 
   const wishlists = await listWishlistRecords({
-    ownerEmail: owner.email,
     ownerId: owner.userId,
     search,
     sort,
@@ -105,7 +104,6 @@ export async function POST(request: NextRequest) {
 
   try {
     const created = await createWishlistRecord({
-      ownerEmail: owner.email,
       ownerId: owner.userId,
       title,
       occasionDate,
@@ -123,6 +121,8 @@ export async function POST(request: NextRequest) {
           occasionDate: created.record.occasionDate,
           occasionNote: created.record.occasionNote,
           currency: created.record.currency,
+          reservationHoldDays: created.record.reservationHoldDays,
+          paymentInstructions: created.record.paymentInstructions,
           updatedAt: created.record.updatedAt,
           shareUrl: created.shareUrl,
           shareUrlPreview: created.shareUrlPreview,
@@ -4,7 +4,12 @@ import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
-import { getAuthenticatedEmail, persistReturnTo } from "@/app/_lib/auth-client";
+import {
+  getAuthenticatedActorHeaders,
+  getAuthenticatedEmail,
+  getAuthenticatedIdentity,
+  persistReturnTo,
+} from "@/app/_lib/auth-client";
 
 type ApiErrorResponse = {
   ok: false;
@@ -13,6 +18,7 @@ type ApiErrorResponse = {
     message: string;
     fieldErrors?: Record<string, string>;
     retryAfterSec?: number;
+    maxAllowedCents?: number;
   };
 };
 
@@ -25,9 +31,16 @@ type PublicItem = {
   priceCents: number | null;
   isGroupFunded: boolean;
   targetCents: number | null;
+  fundingDeadlineAt: string | null;
   fundedCents: number;
+  paidCents: number;
   contributorCount: number;
   progressRatio: number;
+  remainingCents: number | null;
+  maxContributionCents: number | null;
+  quantityDesired: number;
+  quantityReserved: number;
+  quantityRemaining: number;
   availability: "available" | "reserved";
 };
 
@@ -63,6 +76,7 @@ type StreamMessage =
       };
       items: PublicItem[];
     }
+  | StreamDelta
   | {
       type: "heartbeat";
       version: string;
@@ -71,6 +85,42 @@ type StreamMessage =
       type: "not_found";
     };
 
+type PublicWishlistChangesResponse =
+  | PublicWishlistResponse
+  | {
+      ok: true;
+      version: string;
+      deltas: StreamDelta[];
+    };
+
+type StreamDelta =
+  | {
+      type: "item_changed";
+      version: string;
+      previousVersion: string;
+      itemId: string;
+      changes: Partial<PublicItem>;
+    }
+  | {
+      type: "item_added";
+      version: string;
+      previousVersion: string;
+      index: number;
+      item: PublicItem;
+    }
+  | {
+      type: "item_removed";
+      version: string;
+      previousVersion: string;
+      itemId: string;
+    }
+  | {
+      type: "wishlist_changed";
+      version: string;
+      previousVersion: string;
+      changes: Partial<Omit<PublicWishlistModel["wishlist"], "shareUrl">>;
+    };
+
 type ReservationActionResponse =
   | {
       ok: true;
@@ -89,6 +139,7 @@ type ContributionActionResponse =
         amountCents: number;
         createdAt: string;
       };
+      paymentInstructions: string | null;
       item: PublicItem;
     }
   | ApiErrorResponse;
@@ -98,6 +149,7 @@ type ArchiveAlertResponse =
       ok: true;
       alert: {
         id: string;
+        kind: "archived" | "hold_reminder" | "hold_released" | "waitlist_available";
         archivedItemTitle: string;
         archivedItemPriceCents: number | null;
         suggestedItemIds: string[];
@@ -106,10 +158,99 @@ type ArchiveAlertResponse =
     }
   | ApiErrorResponse;
 
+type WaitlistEntry = {
+  itemId: string;
+  status: "waiting" | "notified";
+  headStartExpiresAt: string | null;
+};
+
+type FulfillmentStatus = "pledged" | "paid" | "confirmed";
+
+type MyPledge = {
+  contributionId: string;
+  itemId: string;
+  originalAmountCents: number;
+  amountCents: number;
+  fulfillmentStatus: FulfillmentStatus;
+  paymentMethod: string | null;
+  paymentInstructions: string | null;
+  createdAt: string;
+  changeableUntil: string;
+};
+
 type MyReservationsResponse =
   | {
       ok: true;
       itemIds: string[];
+      waitlist: WaitlistEntry[];
+      pledges: MyPledge[];
+      organizingItemIds: string[];
+    }
+  | ApiErrorResponse;
+
+type LedgerEntry = {
+  contributionId: string;
+  contributorEmail: string;
+  amountCents: number;
+  fulfillmentStatus: FulfillmentStatus;
+  paymentMethod: string | null;
+  paidAt: string | null;
+  confirmedAt: string | null;
+  createdAt: string;
+};
+
+type LedgerResponse =
+  | {
+      ok: true;
+      itemId: string;
+      paymentInstructions: string | null;
+      entries: LedgerEntry[];
+    }
+  | ApiErrorResponse;
+
+type PaymentInstructionsResponse =
+  | {
+      ok: true;
+      itemId: string;
+      paymentInstructions: string | null;
+    }
+  | ApiErrorResponse;
+
+type FulfillmentResponse =
+  | {
+      ok: true;
+      contribution: {
+        id: string;
+        fulfillmentStatus: FulfillmentStatus;
+        paymentMethod?: string | null;
+      };
+      item: PublicItem;
+    }
+  | ApiErrorResponse;
+
+type PledgeReversalResponse =
+  | {
+      ok: true;
+      reversal: {
+        id: string;
+        contributionId: string;
+        amountCents: number;
+        remainingCents: number;
+        withdrawn: boolean;
+        createdAt: string;
+      };
+      item: PublicItem;
+    }
+  | ApiErrorResponse;
+
+type WaitlistActionResponse =
+  | {
+      ok: true;
+      waitlist: {
+        itemId: string;
+        status: "waiting" | "cancelled";
+        position: number | null;
+      };
     }
   | ApiErrorResponse;
 
@@ -138,10 +279,69 @@ function formatDate(value: string | null) {
   return parsed.toLocaleDateString();
 }
 
+const FULFILLMENT_LABELS: Record<FulfillmentStatus, string> = {
+  pledged: "Pledged",
+  paid: "Paid, awaiting confirmation",
+  confirmed: "Payment confirmed",
+};
+
+function formatQuantityNeeded(item: PublicItem) {
+  return `${item.quantityRemaining} of ${item.quantityDesired} still needed`;
+}
+
+function formatDeadlineCountdown(value: string | null, nowMs: number) {
+  if (!value) return null;
+  const deadlineMs = Date.parse(value);
+  if (Number.isNaN(deadlineMs)) return null;
+
+  const remainingMs = deadlineMs - nowMs;
+  if (remainingMs <= 0) return "Funding deadline passed";
+
+  const totalMinutes = Math.floor(remainingMs / 60000);
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h left to fund`;
+  if (hours > 0) return `${hours}h ${minutes}m left to fund`;
+  return `${Math.max(minutes, 1)}m left to fund`;
+}
+
+function applyStreamDelta(model: PublicWishlistModel, delta: StreamDelta): PublicWishlistModel {
+  if (delta.type === "wishlist_changed") {
+    return { ...model, version: delta.version, wishlist: { ...model.wishlist, ...delta.changes } };
+  }
+
+  if (delta.type === "item_removed") {
+    return { ...model, version: delta.version, items: model.items.filter((item) => item.id !== delta.itemId) };
+  }
+
+  if (delta.type === "item_added") {
+    const items = model.items.filter((item) => item.id !== delta.item.id);
+    items.splice(Math.min(delta.index, items.length), 0, delta.item);
+    return { ...model, version: delta.version, items };
+  }
+
+  return {
+    ...model,
+    version: delta.version,
+    items: model.items.map((item) => (item.id === delta.itemId ? { ...item, ...delta.changes } : item)),
+  };
+}
+
+const IMAGE_REFRESH_THROTTLE_MS = 60000;
+
 function buildAuthReturnTo(shareToken: string, itemId: string) {
   return `/l/${shareToken}?item=${encodeURIComponent(itemId)}`;
 }
 
+function pledgeLimitMessage(maxAllowedCents: number, currency: string) {
+  if (maxAllowedCents >= 100) return `You can pledge up to ${formatMoney(maxAllowedCents, currency)}.`;
+  if (maxAllowedCents > 0) {
+    return `Only ${maxAllowedCents} cents left to fund. Pledge exactly ${formatMoney(maxAllowedCents, currency)} to complete it.`;
+  }
+  return "This item is already fully funded.";
+}
+
 function parseContributionToCents(value: string): number {
   const normalized = value.replace(/,/g, "").trim();
   if (!normalized) return Number.NaN;
@@ -165,6 +365,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
   const [isLoading, setIsLoading] = useState(true);
   const [pageError, setPageError] = useState<string | null>(null);
   const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
+  const [nowMs, setNowMs] = useState(() => Date.now());
 
   const [search, setSearch] = useState("");
   const [availabilityFilter, setAvailabilityFilter] = useState<"all" | "available" | "reserved">("all");
@@ -173,6 +374,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
 
   const [activeItemId, setActiveItemId] = useState<string | null>(null);
   const [contributionInput, setContributionInput] = useState("");
+  const [reserveQuantityInput, setReserveQuantityInput] = useState("1");
   const [isMutating, setIsMutating] = useState(false);
   const [actionError, setActionError] = useState<string | null>(null);
   const [actionSuccess, setActionSuccess] = useState<string | null>(null);
@@ -180,25 +382,43 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
   const [reservationActionBlink, setReservationActionBlink] = useState<"reserve" | "unreserve" | null>(null);
   const [authEmail, setAuthEmail] = useState<string | null>(null);
   const [myReservedItemIds, setMyReservedItemIds] = useState<string[]>([]);
+  const [myWaitlist, setMyWaitlist] = useState<WaitlistEntry[]>([]);
+  const [myPledges, setMyPledges] = useState<MyPledge[]>([]);
+  const [myReservationsRefreshKey, setMyReservationsRefreshKey] = useState(0);
+  const [editingPledgeId, setEditingPledgeId] = useState<string | null>(null);
+  const [pledgeAmountInput, setPledgeAmountInput] = useState("");
+  const [payingPledgeId, setPayingPledgeId] = useState<string | null>(null);
+  const [paymentMethodInput, setPaymentMethodInput] = useState("");
+  const [myOrganizingItemIds, setMyOrganizingItemIds] = useState<string[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [organizerInstructionsInput, setOrganizerInstructionsInput] = useState("");
   const [archiveAlert, setArchiveAlert] = useState<Extract<ArchiveAlertResponse, { ok: true }>["alert"]>(null);
   const [suggestedItemIds, setSuggestedItemIds] = useState<string[]>([]);
   const [isDismissingArchiveAlert, setIsDismissingArchiveAlert] = useState(false);
   const trackedOpenKeyRef = useRef<string | null>(null);
+  const modelVersionRef = useRef<string | null>(null);
   const trackedArchiveAlertVersionRef = useRef<string | null>(null);
   const reservationActionBlinkTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const imageRefreshAtRef = useRef(0);
+
+  const applyModel = useCallback(
+    (
+      nextModel: PublicWishlistModel | ((current: PublicWishlistModel | null) => PublicWishlistModel | null),
+      preserveScroll: boolean,
+    ) => {
+      if (!preserveScroll || typeof window === "undefined") {
+        setModel(nextModel);
+        return;
+      }
 
-  const applyModel = useCallback((nextModel: PublicWishlistModel, preserveScroll: boolean) => {
-    if (!preserveScroll || typeof window === "undefined") {
+      const scrollY = window.scrollY;
       setModel(nextModel);
-      return;
-    }
-
-    const scrollY = window.scrollY;
-    setModel(nextModel);
-    window.requestAnimationFrame(() => {
-      window.scrollTo({ top: scrollY, behavior: "auto" });
-    });
-  }, []);
+      window.requestAnimationFrame(() => {
+        window.scrollTo({ top: scrollY, behavior: "auto" });
+      });
+    },
+    [],
+  );
 
   const loadPublicModel = useCallback(async () => {
     const response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/wishlist`, {
@@ -215,6 +435,56 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     return payload;
   }, [shareToken]);
 
+  const loadPublicModelChanges = useCallback(
+    async (since: string) => {
+      const response = await fetch(
+        `/api/public/${encodeURIComponent(shareToken)}/wishlist?since=${encodeURIComponent(since)}`,
+        {
+          cache: "no-store",
+        },
+      );
+
+      const payload = (await response.json()) as PublicWishlistChangesResponse;
+
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok ? payload.error.message : "This shared wishlist is unavailable.";
+        throw new Error(message);
+      }
+
+      return payload;
+    },
+    [shareToken],
+  );
+
+  useEffect(() => {
+    modelVersionRef.current = model?.version ?? null;
+  }, [model]);
+
+  const refreshItemImages = useCallback(async () => {
+    const now = Date.now();
+    if (now - imageRefreshAtRef.current < IMAGE_REFRESH_THROTTLE_MS) return;
+    imageRefreshAtRef.current = now;
+
+    try {
+      const payload = await loadPublicModel();
+      const imageUrls = new Map(payload.items.map((item) => [item.id, item.imageUrl]));
+      applyModel(
+        (current) =>
+          current
+            ? {
+                ...current,
+                items: current.items.map((item) =>
+                  imageUrls.has(item.id) ? { ...item, imageUrl: imageUrls.get(item.id) ?? null } : item,
+                ),
+              }
+            : current,
+        true,
+      );
+    } catch {
+      return;
+    }
+  }, [applyModel, loadPublicModel]);
+
   const updateItemInModel = useCallback((nextItem: PublicItem) => {
     setModel((current) => {
       if (!current) return current;
@@ -277,9 +547,15 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     };
   }, [loadPublicModel]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNowMs(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
     let source: EventSource | null = null;
+    let streamVersion: string | null = null;
     let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
     const clearReconnect = () => {
@@ -288,7 +564,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
       reconnectTimer = null;
     };
 
-    const connect = () => {
+    const connect = (resume = true) => {
       if (cancelled) return;
 
       if (source) {
@@ -298,7 +574,9 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
 
       setConnectionState((current) => (current === "disconnected" ? "connecting" : current));
 
-      source = new EventSource(`/api/public/${encodeURIComponent(shareToken)}/stream`);
+      streamVersion = resume ? modelVersionRef.current : null;
+      const query = streamVersion ? `?lastEventId=${encodeURIComponent(streamVersion)}` : "";
+      source = new EventSource(`/api/public/${encodeURIComponent(shareToken)}/stream${query}`);
 
       source.onopen = () => {
         if (cancelled) return;
@@ -316,6 +594,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
         }
 
         if (message.type === "heartbeat") {
+          streamVersion = message.version;
           return;
         }
 
@@ -330,6 +609,17 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
           return;
         }
 
+        if (message.type !== "snapshot") {
+          if (streamVersion !== message.previousVersion) {
+            connect(false);
+            return;
+          }
+          streamVersion = message.version;
+          applyModel((current) => (current ? applyStreamDelta(current, message) : current), true);
+          return;
+        }
+
+        streamVersion = message.version;
         applyModel(
           {
             ok: true,
@@ -376,9 +666,17 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
 
     const poll = async () => {
       try {
-        const payload = await loadPublicModel();
+        const since = modelVersionRef.current;
+        const payload = since ? await loadPublicModelChanges(since) : await loadPublicModel();
         if (cancelled) return;
-        applyModel(payload, true);
+        if ("deltas" in payload) {
+          applyModel((current) => {
+            if (!current || current.version !== since) return current;
+            return { ...payload.deltas.reduce(applyStreamDelta, current), version: payload.version };
+          }, true);
+        } else {
+          applyModel(payload, true);
+        }
         setPageError(null);
       } catch (error) {
         if (cancelled) return;
@@ -393,7 +691,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
       cancelled = true;
       clearInterval(interval);
     };
-  }, [applyModel, connectionState, loadPublicModel]);
+  }, [applyModel, connectionState, loadPublicModel, loadPublicModelChanges]);
 
   useEffect(() => {
     if (!model) return;
@@ -415,12 +713,15 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     if (trackedOpenKeyRef.current === key) return;
     trackedOpenKeyRef.current = key;
 
-    void fetch(`/api/public/${encodeURIComponent(shareToken)}/opened`, {
-      method: "POST",
-      headers: {
-        "x-actor-email": authEmail,
-      },
-    }).catch(() => undefined);
+    void (async () => {
+      const actorHeaders = await getAuthenticatedActorHeaders();
+      if (!actorHeaders) return;
+
+      await fetch(`/api/public/${encodeURIComponent(shareToken)}/opened`, {
+        method: "POST",
+        headers: actorHeaders,
+      });
+    })().catch(() => undefined);
   }, [authEmail, model, shareToken]);
 
   useEffect(() => {
@@ -432,10 +733,11 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
 
     void (async () => {
       try {
+        const actorHeaders = await getAuthenticatedActorHeaders();
+        if (!actorHeaders) return;
+
         const response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/archive-alert`, {
-          headers: {
-            "x-actor-email": authEmail,
-          },
+          headers: actorHeaders,
         });
         const payload = (await response.json()) as ArchiveAlertResponse;
         if (!response.ok || !payload.ok || !payload.alert) return;
@@ -458,27 +760,88 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
 
     void (async () => {
       try {
+        const actorHeaders = await getAuthenticatedActorHeaders();
+        if (!actorHeaders) {
+          if (!cancelled) {
+            setMyReservedItemIds([]);
+            setMyWaitlist([]);
+            setMyPledges([]);
+            setMyOrganizingItemIds([]);
+          }
+          return;
+        }
+
         const response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/my-reservations`, {
-          headers: {
-            "x-actor-email": authEmail,
-          },
+          headers: actorHeaders,
           cache: "no-store",
         });
         const payload = (await response.json()) as MyReservationsResponse;
         if (!response.ok || !payload.ok) {
-          if (!cancelled) setMyReservedItemIds([]);
+          if (!cancelled) {
+            setMyReservedItemIds([]);
+            setMyWaitlist([]);
+            setMyPledges([]);
+            setMyOrganizingItemIds([]);
+          }
           return;
         }
-        if (!cancelled) setMyReservedItemIds(payload.itemIds || []);
+        if (!cancelled) {
+          setMyReservedItemIds(payload.itemIds || []);
+          setMyWaitlist(payload.waitlist || []);
+          setMyPledges(payload.pledges || []);
+          setMyOrganizingItemIds(payload.organizingItemIds || []);
+        }
       } catch {
-        if (!cancelled) setMyReservedItemIds([]);
+        if (!cancelled) {
+          setMyReservedItemIds([]);
+          setMyWaitlist([]);
+          setMyPledges([]);
+          setMyOrganizingItemIds([]);
+        }
       }
     })();
 
     return () => {
       cancelled = true;
     };
-  }, [authEmail, model?.version, shareToken]);
+  }, [authEmail, model?.version, myReservationsRefreshKey, shareToken]);
+
+  const ledgerItemId = activeItemId && myOrganizingItemIds.includes(activeItemId) ? activeItemId : null;
+
+  useEffect(() => {
+    if (!ledgerItemId) {
+      setLedgerEntries([]);
+      setOrganizerInstructionsInput("");
+      return;
+    }
+
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const actorHeaders = await getAuthenticatedActorHeaders();
+        if (!actorHeaders) return;
+
+        const response = await fetch(
+          `/api/public/${encodeURIComponent(shareToken)}/contributions/ledger?itemId=${encodeURIComponent(ledgerItemId)}`,
+          {
+            headers: actorHeaders,
+            cache: "no-store",
+          },
+        );
+        const payload = (await response.json()) as LedgerResponse;
+        if (cancelled) return;
+        setLedgerEntries(response.ok && payload.ok ? payload.entries : []);
+        setOrganizerInstructionsInput(response.ok && payload.ok ? payload.paymentInstructions || "" : "");
+      } catch {
+        if (!cancelled) setLedgerEntries([]);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ledgerItemId, model?.version, shareToken]);
 
   const filteredItems = useMemo(() => {
     if (!model) return [];
@@ -526,11 +889,38 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
   }, [activeItemId, model]);
   const myReservedItemIdSet = useMemo(() => new Set(myReservedItemIds), [myReservedItemIds]);
   const isReservedByMe = useCallback(
-    (item: PublicItem | null | undefined) => Boolean(item && item.availability === "reserved" && myReservedItemIdSet.has(item.id)),
+    (item: PublicItem | null | undefined) =>
+      Boolean(
+        item && myReservedItemIdSet.has(item.id) && (item.availability === "reserved" || item.quantityDesired > 1),
+      ),
     [myReservedItemIdSet],
   );
+  const myWaitlistByItemId = useMemo(
+    () => new Map(myWaitlist.map((entry) => [entry.itemId, entry] as const)),
+    [myWaitlist],
+  );
+  const headStartUntil = useCallback(
+    (item: PublicItem | null | undefined) => {
+      const entry = item ? myWaitlistByItemId.get(item.id) : undefined;
+      if (!entry || entry.status !== "notified" || !entry.headStartExpiresAt) return null;
+      return Date.parse(entry.headStartExpiresAt) > nowMs ? entry.headStartExpiresAt : null;
+    },
+    [myWaitlistByItemId, nowMs],
+  );
   const activeItemReservedByMe = isReservedByMe(activeItem);
-  const activeItemReservedByOther = Boolean(activeItem && activeItem.availability === "reserved" && !activeItemReservedByMe);
+  const activeItemHeadStartUntil = headStartUntil(activeItem);
+  const activeItemReservedByOther = Boolean(
+    activeItem && activeItem.availability === "reserved" && !activeItemReservedByMe && !activeItemHeadStartUntil,
+  );
+  const activeItemWaitlisted = Boolean(activeItem && myWaitlistByItemId.get(activeItem.id)?.status === "waiting");
+  const activeItemPledges = useMemo(
+    () => (activeItem ? myPledges.filter((pledge) => pledge.itemId === activeItem.id) : []),
+    [activeItem, myPledges],
+  );
+  const activeItemOrganizedByMe = Boolean(activeItem && myOrganizingItemIds.includes(activeItem.id));
+  const activeItemReservableQuantity = activeItem
+    ? activeItem.quantityRemaining + (activeItemHeadStartUntil ? 1 : 0)
+    : 0;
 
   const hasActiveFilters = Boolean(search.trim()) || availabilityFilter !== "all" || fundingFilter !== "all";
   const activeFilterCount =
@@ -539,17 +929,28 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
   async function reserveAction(action: "reserve" | "unreserve") {
     if (!activeItem) return;
 
-    const actorEmail = await getAuthenticatedEmail();
-    if (!actorEmail) {
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
       setAuthEmail(null);
       redirectToLoginForItem(activeItem.id);
       return;
     }
-    setAuthEmail(actorEmail);
+    setAuthEmail(identity.email);
     if (reservationActionBlinkTimerRef.current) {
       clearTimeout(reservationActionBlinkTimerRef.current);
       reservationActionBlinkTimerRef.current = null;
     }
+    const quantity = action === "reserve" && activeItem.quantityDesired > 1 ? Number(reserveQuantityInput) : 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      setActionError("Enter a whole number of items to reserve.");
+      return;
+    }
+
+    if (action === "reserve" && quantity > activeItemReservableQuantity) {
+      setActionError(`Only ${activeItemReservableQuantity} still needed.`);
+      return;
+    }
+
     setReservationActionBlink(action);
     reservationActionBlinkTimerRef.current = setTimeout(() => {
       setReservationActionBlink(null);
@@ -566,12 +967,13 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-actor-email": actorEmail,
+          authorization: `Bearer ${identity.accessToken}`,
           "x-idempotency-key": createIdempotencyKey(),
         },
         body: JSON.stringify({
           itemId: activeItem.id,
           action,
+          quantity: action === "reserve" ? quantity : undefined,
         }),
       });
     } catch {
@@ -592,8 +994,9 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     updateItemInModel(payload.item);
     if (action === "reserve") {
       setMyReservedItemIds((current) => (current.includes(payload.item.id) ? current : [...current, payload.item.id]));
+      setMyWaitlist((current) => current.filter((entry) => entry.itemId !== payload.item.id));
       closeModal();
-      setReserveConfirmation("Item reserved.");
+      setReserveConfirmation(quantity > 1 ? `${quantity} reserved.` : "Item reserved.");
       return;
     }
 
@@ -601,20 +1004,225 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     setActionSuccess("Reservation released.");
   }
 
+  async function waitlistAction(action: "join" | "leave") {
+    if (!activeItem) return;
+
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
+      setAuthEmail(null);
+      redirectToLoginForItem(activeItem.id);
+      return;
+    }
+    setAuthEmail(identity.email);
+
+    setIsMutating(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    let response: Response;
+    try {
+      response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/waitlist`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${identity.accessToken}`,
+          "x-idempotency-key": createIdempotencyKey(),
+        },
+        body: JSON.stringify({
+          itemId: activeItem.id,
+          action,
+        }),
+      });
+    } catch {
+      setIsMutating(false);
+      setActionError("Unable to update the waitlist. Please retry.");
+      return;
+    }
+
+    const payload = (await response.json()) as WaitlistActionResponse;
+    setIsMutating(false);
+
+    if (!response.ok || !payload.ok) {
+      const message = payload && !payload.ok ? payload.error.message : "Unable to update the waitlist.";
+      setActionError(message);
+      return;
+    }
+
+    const itemId = payload.waitlist.itemId;
+    if (payload.waitlist.status === "waiting") {
+      setMyWaitlist((current) => [
+        ...current.filter((entry) => entry.itemId !== itemId),
+        { itemId, status: "waiting", headStartExpiresAt: null },
+      ]);
+      setActionSuccess(
+        payload.waitlist.position && payload.waitlist.position > 1
+          ? `You are #${payload.waitlist.position} on the waitlist. We will email you if it frees up.`
+          : "You are first on the waitlist. We will email you if it frees up.",
+      );
+      return;
+    }
+
+    setMyWaitlist((current) => current.filter((entry) => entry.itemId !== itemId));
+    setActionSuccess("You left the waitlist.");
+  }
+
+  async function changePledgeAction(pledge: MyPledge, withdraw: boolean) {
+    if (!activeItem) return;
+
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
+      setAuthEmail(null);
+      redirectToLoginForItem(activeItem.id);
+      return;
+    }
+    setAuthEmail(identity.email);
+
+    const amountCents = withdraw ? 0 : parseContributionToCents(pledgeAmountInput);
+    if (!withdraw && (!Number.isInteger(amountCents) || amountCents < 100 || amountCents >= pledge.amountCents)) {
+      setActionError("New amount must be at least 1.00 and below your current pledge.");
+      return;
+    }
+
+    setIsMutating(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    let response: Response;
+    try {
+      response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/contributions/reversals`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${identity.accessToken}`,
+          "x-idempotency-key": createIdempotencyKey(),
+        },
+        body: JSON.stringify({
+          contributionId: pledge.contributionId,
+          amountCents,
+        }),
+      });
+    } catch {
+      setIsMutating(false);
+      setActionError("Unable to change this pledge. Please retry.");
+      return;
+    }
+
+    const payload = (await response.json()) as PledgeReversalResponse;
+    setIsMutating(false);
+
+    if (!response.ok || !payload.ok) {
+      const message = payload && !payload.ok ? payload.error.message : "Unable to change this pledge.";
+      setActionError(message);
+      return;
+    }
+
+    updateItemInModel(payload.item);
+    setMyPledges((current) =>
+      payload.reversal.withdrawn
+        ? current.filter((entry) => entry.contributionId !== pledge.contributionId)
+        : current.map((entry) =>
+            entry.contributionId === pledge.contributionId
+              ? { ...entry, amountCents: payload.reversal.remainingCents }
+              : entry,
+          ),
+    );
+    setEditingPledgeId(null);
+    setPledgeAmountInput("");
+    setActionSuccess(payload.reversal.withdrawn ? "Pledge withdrawn." : "Pledge reduced.");
+  }
+
+  async function fulfillmentAction(contributionId: string, action: "mark_paid" | "confirm") {
+    if (!activeItem) return;
+
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
+      setAuthEmail(null);
+      redirectToLoginForItem(activeItem.id);
+      return;
+    }
+    setAuthEmail(identity.email);
+
+    setIsMutating(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    let response: Response;
+    try {
+      response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/contributions/fulfillment`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${identity.accessToken}`,
+          "x-idempotency-key": createIdempotencyKey(),
+        },
+        body: JSON.stringify({
+          contributionId,
+          action,
+          paymentMethod: action === "mark_paid" ? paymentMethodInput.trim() : undefined,
+        }),
+      });
+    } catch {
+      setIsMutating(false);
+      setActionError("Unable to update this payment. Please retry.");
+      return;
+    }
+
+    const payload = (await response.json()) as FulfillmentResponse;
+    setIsMutating(false);
+
+    if (!response.ok || !payload.ok) {
+      const message = payload && !payload.ok ? payload.error.message : "Unable to update this payment.";
+      setActionError(message);
+      return;
+    }
+
+    updateItemInModel(payload.item);
+    const { fulfillmentStatus } = payload.contribution;
+    setMyPledges((current) =>
+      current.map((entry) =>
+        entry.contributionId === contributionId
+          ? {
+              ...entry,
+              fulfillmentStatus,
+              paymentMethod:
+                payload.contribution.paymentMethod !== undefined ? payload.contribution.paymentMethod : entry.paymentMethod,
+            }
+          : entry,
+      ),
+    );
+    setLedgerEntries((current) =>
+      current.map((entry) => (entry.contributionId === contributionId ? { ...entry, fulfillmentStatus } : entry)),
+    );
+    setPayingPledgeId(null);
+    setPaymentMethodInput("");
+    setActionSuccess(action === "mark_paid" ? "Marked as paid. The organizer will confirm receipt." : "Payment confirmed.");
+  }
+
   async function contributeAction() {
     if (!activeItem) return;
 
-    const actorEmail = await getAuthenticatedEmail();
-    if (!actorEmail) {
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
       setAuthEmail(null);
       redirectToLoginForItem(activeItem.id);
       return;
     }
-    setAuthEmail(actorEmail);
+    setAuthEmail(identity.email);
 
     const amountCents = parseContributionToCents(contributionInput);
-    if (!Number.isInteger(amountCents) || amountCents < 100) {
-      setActionError("Contribution must be at least 1.00.");
+    const maxContributionCents = activeItem.maxContributionCents;
+    const completesSmallRemainder = maxContributionCents !== null && amountCents === maxContributionCents;
+    if (!Number.isInteger(amountCents) || amountCents <= 0 || (amountCents < 100 && !completesSmallRemainder)) {
+      setActionError(
+        maxContributionCents !== null && maxContributionCents > 0 && maxContributionCents < 100
+          ? pledgeLimitMessage(maxContributionCents, model?.wishlist.currency || "USD")
+          : "Contribution must be at least 1.00.",
+      );
+      return;
+    }
+
+    if (maxContributionCents !== null && amountCents > maxContributionCents) {
+      setActionError(pledgeLimitMessage(maxContributionCents, model?.wishlist.currency || "USD"));
       return;
     }
 
@@ -628,7 +1236,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-actor-email": actorEmail,
+          authorization: `Bearer ${identity.accessToken}`,
           "x-idempotency-key": createIdempotencyKey(),
         },
         body: JSON.stringify({
@@ -646,16 +1254,75 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     setIsMutating(false);
 
     if (!response.ok || !payload.ok) {
+      if (payload && !payload.ok && payload.error.code === "OVER_TARGET") {
+        setActionError(pledgeLimitMessage(payload.error.maxAllowedCents ?? 0, model?.wishlist.currency || "USD"));
+        return;
+      }
       const message = payload && !payload.ok ? payload.error.message : "Unable to submit contribution.";
       setActionError(message);
       return;
     }
 
     updateItemInModel(payload.item);
+    if (payload.paymentInstructions) {
+      setContributionInput("");
+      setMyReservationsRefreshKey((current) => current + 1);
+      setActionSuccess("Contribution saved. Here is how to hand over your share.");
+      return;
+    }
     closeModal();
     setReserveConfirmation("Contribution saved.");
   }
 
+  async function savePaymentInstructionsAction() {
+    if (!activeItem) return;
+
+    const identity = await getAuthenticatedIdentity();
+    if (!identity) {
+      setAuthEmail(null);
+      redirectToLoginForItem(activeItem.id);
+      return;
+    }
+    setAuthEmail(identity.email);
+
+    setIsMutating(true);
+    setActionError(null);
+    setActionSuccess(null);
+
+    let response: Response;
+    try {
+      response = await fetch(`/api/public/${encodeURIComponent(shareToken)}/payment-instructions`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          authorization: `Bearer ${identity.accessToken}`,
+          "x-idempotency-key": createIdempotencyKey(),
+        },
+        body: JSON.stringify({
+          itemId: activeItem.id,
+          instructions: organizerInstructionsInput.trim() || null,
+        }),
+      });
+    } catch {
+      setIsMutating(false);
+      setActionError("Unable to save payment instructions. Please retry.");
+      return;
+    }
+
+    const payload = (await response.json()) as PaymentInstructionsResponse;
+    setIsMutating(false);
+
+    if (!response.ok || !payload.ok) {
+      const message = payload && !payload.ok ? payload.error.message : "Unable to save payment instructions.";
+      setActionError(message);
+      return;
+    }
+
+    setOrganizerInstructionsInput(payload.paymentInstructions || "");
+    setMyReservationsRefreshKey((current) => current + 1);
+    setActionSuccess("Payment instructions saved for contributors.");
+  }
+
   async function dismissArchiveAlert() {
     if (!archiveAlert || !authEmail) {
       setArchiveAlert(null);
@@ -665,11 +1332,17 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     setIsDismissingArchiveAlert(true);
 
     try {
+      const actorHeaders = await getAuthenticatedActorHeaders();
+      if (!actorHeaders) {
+        setArchiveAlert(null);
+        return;
+      }
+
       await fetch(`/api/public/${encodeURIComponent(shareToken)}/archive-alert`, {
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-actor-email": authEmail,
+          ...actorHeaders,
         },
         body: JSON.stringify({
           notificationId: archiveAlert.id,
@@ -688,6 +1361,11 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
     setActionError(null);
     setActionSuccess(null);
     setContributionInput("");
+    setReserveQuantityInput("1");
+    setEditingPledgeId(null);
+    setPledgeAmountInput("");
+    setPayingPledgeId(null);
+    setPaymentMethodInput("");
   }, []);
 
   const closeModal = useCallback(() => {
@@ -763,13 +1441,27 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
           <div className="w-full max-w-xl rounded-2xl border border-amber-300 bg-gradient-to-r from-amber-50 via-white to-sky-50 px-4 py-3 shadow-lg">
             <div className="flex items-start justify-between gap-3">
               <div>
-                <p className="text-sm font-semibold text-amber-900">Reserved item was archived</p>
+                <p className="text-sm font-semibold text-amber-900">
+                  {archiveAlert.kind === "hold_reminder"
+                    ? "Your reservation hold ends soon"
+                    : archiveAlert.kind === "hold_released"
+                      ? "Your reservation hold expired and was released"
+                      : archiveAlert.kind === "waitlist_available"
+                        ? "An item you are waiting for is free"
+                        : "Reserved item was archived"}
+                </p>
                 <p className="mt-1 text-xs text-zinc-700">
                   "{archiveAlert.archivedItemTitle}"{" "}
                   {archiveAlert.archivedItemPriceCents !== null
                     ? `(${formatMoney(archiveAlert.archivedItemPriceCents, model?.wishlist.currency || "USD")})`
                     : ""}
-                  . Suggested similar-price items are highlighted at the top.
+                  {archiveAlert.kind === "hold_reminder"
+                    ? ". Mark it purchased or renew the hold from your shopping list to keep it."
+                    : archiveAlert.kind === "hold_released"
+                      ? ". The item is available to other guests again."
+                      : archiveAlert.kind === "waitlist_available"
+                        ? ". You have first pick for a short while before it opens to everyone."
+                        : ". Suggested similar-price items are highlighted at the top."}
                 </p>
               </div>
               <button
@@ -879,6 +1571,7 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
                 const progressPercent = Math.max(0, Math.min(100, Math.round(item.progressRatio * 100)));
                 const isSuggested = suggestedOrder.has(item.id);
                 const reservedByMe = isReservedByMe(item);
+                const myHeadStart = !reservedByMe && Boolean(headStartUntil(item));
 
                 return (
                   <article
@@ -891,7 +1584,12 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
                       <div className="h-20 w-20 shrink-0 overflow-hidden rounded-md border border-zinc-200 bg-zinc-50">
                         {item.imageUrl ? (
                           // eslint-disable-next-line @next/next/no-img-element
-                          <img alt={`${item.title} image`} className="h-full w-full object-cover" src={item.imageUrl} />
+                          <img
+                            alt={`${item.title} image`}
+                            className="h-full w-full object-cover"
+                            onError={() => void refreshItemImages()}
+                            src={item.imageUrl}
+                          />
                         ) : (
                           <div className="flex h-full items-center justify-center text-[11px] text-zinc-500">No image</div>
                         )}
@@ -914,17 +1612,21 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
                           </div>
                           <span
                             className={`justify-self-end rounded-full px-2.5 py-1 text-xs font-medium ${
-                              item.availability === "available"
-                                ? "bg-emerald-100 text-emerald-800"
-                                : reservedByMe
-                                  ? "bg-sky-100 text-sky-800"
+                              reservedByMe || myHeadStart
+                                ? "bg-sky-100 text-sky-800"
+                                : item.availability === "available"
+                                  ? "bg-emerald-100 text-emerald-800"
                                 : "bg-amber-100 text-amber-900"
                             }`}
                           >
-                            {item.availability === "available"
-                              ? "Available"
-                              : reservedByMe
-                                ? "Reserved by you"
+                            {reservedByMe
+                              ? "Reserved by you"
+                              : myHeadStart
+                                ? "Your first pick"
+                                : item.availability === "available"
+                                ? item.quantityDesired > 1
+                                  ? formatQuantityNeeded(item)
+                                  : "Available"
                                 : "Reserved"}
                           </span>
                         </div>
@@ -941,6 +1643,27 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
                             <div className="mt-1 h-2 overflow-hidden rounded-full bg-zinc-100">
                               <div className="h-full rounded-full bg-zinc-800" style={{ width: `${progressPercent}%` }} />
                             </div>
+                            {item.fundedCents > 0 ? (
+                              <p className="mt-1 text-xs text-zinc-600">
+                                Pledged {formatMoney(item.fundedCents, model.wishlist.currency)} • Paid{" "}
+                                {formatMoney(item.paidCents, model.wishlist.currency)}
+                              </p>
+                            ) : null}
+                            {item.remainingCents !== null ? (
+                              <p className="mt-1 text-xs font-medium text-zinc-700">
+                                {item.remainingCents > 0
+                                  ? `${formatMoney(item.remainingCents, model.wishlist.currency)} left to fund`
+                                  : "Fully funded"}
+                              </p>
+                            ) : null}
+                            {item.fundingDeadlineAt ? (
+                              <p
+                                className="mt-1 text-xs text-zinc-600"
+                                title={new Date(item.fundingDeadlineAt).toLocaleString()}
+                              >
+                                {formatDeadlineCountdown(item.fundingDeadlineAt, nowMs)}
+                              </p>
+                            ) : null}
                           </div>
                         ) : null}
 
@@ -950,10 +1673,10 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
                             onClick={() => openModal(item.id)}
                             type="button"
                           >
-                            {item.availability === "available"
-                              ? "Reserve"
-                              : reservedByMe
-                                ? "Manage reservation"
+                            {reservedByMe
+                              ? "Manage reservation"
+                              : item.availability === "available"
+                                ? "Reserve"
                                 : "View details"}
                           </button>
                           {item.isGroupFunded ? (
@@ -999,38 +1722,70 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
               <h3 className="text-sm font-semibold text-zinc-900">Reservation</h3>
               <p className="mt-1 text-xs text-zinc-600">
                 Current status:{" "}
-                {activeItem.availability === "available"
-                  ? "Available"
-                  : activeItemReservedByMe
-                    ? "Reserved by you"
-                    : "Reserved by another guest"}
+                {activeItemReservedByMe
+                  ? "Reserved by you"
+                  : activeItemHeadStartUntil
+                    ? "Held for you"
+                    : activeItem.availability === "available"
+                      ? "Available"
+                      : "Reserved by another guest"}
               </p>
-              <div className="mt-3 flex flex-wrap gap-2">
-                {activeItem.availability === "available" ? (
+              {activeItemHeadStartUntil ? (
+                <p className="mt-1 text-xs font-medium text-sky-800">
+                  You have first pick until {new Date(activeItemHeadStartUntil).toLocaleTimeString()}; after that it opens
+                  to every guest.
+                </p>
+              ) : null}
+              {activeItem.quantityDesired > 1 ? (
+                <p className="mt-1 text-xs font-medium text-zinc-700">{formatQuantityNeeded(activeItem)}</p>
+              ) : null}
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                {!activeItemReservedByMe && activeItemReservableQuantity > 0 && activeItem.quantityDesired > 1 ? (
+                  <input
+                    aria-label="Quantity to reserve"
+                    className="w-20 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                    max={activeItemReservableQuantity}
+                    min={1}
+                    onChange={(event) => setReserveQuantityInput(event.target.value)}
+                    type="number"
+                    value={reserveQuantityInput}
+                  />
+                ) : null}
+                {activeItemReservedByMe ? (
                   <button
                     className={`rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800 transition-all duration-200 hover:-translate-y-0.5 hover:border-zinc-400 hover:bg-white hover:shadow-md active:translate-y-0 active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-60 ${
-                      reservationActionBlink === "reserve" ? "reservation-action-blink" : ""
+                      reservationActionBlink === "unreserve" ? "reservation-action-blink" : ""
                     }`}
                     disabled={isMutating}
-                    onClick={() => reserveAction("reserve")}
+                    onClick={() => reserveAction("unreserve")}
                     type="button"
                   >
-                    Reserve
+                    Release my reservation
                   </button>
-                ) : activeItemReservedByMe ? (
+                ) : activeItemReservableQuantity > 0 ? (
                   <button
                     className={`rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800 transition-all duration-200 hover:-translate-y-0.5 hover:border-zinc-400 hover:bg-white hover:shadow-md active:translate-y-0 active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-60 ${
-                      reservationActionBlink === "unreserve" ? "reservation-action-blink" : ""
+                      reservationActionBlink === "reserve" ? "reservation-action-blink" : ""
                     }`}
                     disabled={isMutating}
-                    onClick={() => reserveAction("unreserve")}
+                    onClick={() => reserveAction("reserve")}
                     type="button"
                   >
-                    Release my reservation
+                    Reserve
                   </button>
                 ) : null}
                 {activeItemReservedByOther ? (
-                  <p className="text-xs font-medium text-zinc-600">This item is already reserved by another guest.</p>
+                  <>
+                    <p className="text-xs font-medium text-zinc-600">This item is already reserved by another guest.</p>
+                    <button
+                      className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800 disabled:cursor-not-allowed disabled:opacity-60"
+                      disabled={isMutating}
+                      onClick={() => waitlistAction(activeItemWaitlisted ? "leave" : "join")}
+                      type="button"
+                    >
+                      {activeItemWaitlisted ? "Leave waitlist" : "Notify me if this frees up"}
+                    </button>
+                  </>
                 ) : null}
               </div>
             </section>
@@ -1039,7 +1794,17 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
               <h3 className="text-sm font-semibold text-zinc-900">Contribution</h3>
               {activeItem.isGroupFunded ? (
                 <>
-                  <p className="mt-1 text-xs text-zinc-600">Enter amount in dollars (minimum 1.00).</p>
+                  <p className="mt-1 text-xs text-zinc-600">
+                    {activeItem.maxContributionCents !== null &&
+                    activeItem.maxContributionCents > 0 &&
+                    activeItem.maxContributionCents < 100
+                      ? `Only ${activeItem.maxContributionCents} cents left: pledge exactly ${formatMoney(activeItem.maxContributionCents, model?.wishlist.currency || "USD")}.`
+                      : `Enter amount in dollars (minimum 1.00${
+                          activeItem.maxContributionCents !== null
+                            ? `, up to ${formatMoney(activeItem.maxContributionCents, model?.wishlist.currency || "USD")}`
+                            : ""
+                        }).`}
+                  </p>
                   <div className="mt-3 flex flex-wrap items-center gap-2">
                     <input
                       className="w-32 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
@@ -1060,6 +1825,172 @@ export default function PublicWishlistClient({ shareToken }: { shareToken: strin
               ) : (
                 <p className="mt-1 text-xs text-zinc-600">This item is not group funded.</p>
               )}
+              {activeItemPledges[0]?.paymentInstructions ? (
+                <div className="mt-3 rounded-md border border-sky-200 bg-sky-50 px-3 py-2 text-xs text-sky-900">
+                  <p className="font-semibold">How to pay</p>
+                  <p className="mt-1 whitespace-pre-line">{activeItemPledges[0].paymentInstructions}</p>
+                </div>
+              ) : null}
+              {activeItemPledges.length > 0 ? (
+                <ul className="mt-3 space-y-2 border-t border-zinc-100 pt-3">
+                  {activeItemPledges.map((pledge) => {
+                    const currency = model?.wishlist.currency || "USD";
+                    const changeable =
+                      pledge.fulfillmentStatus === "pledged" && Date.parse(pledge.changeableUntil) > nowMs;
+                    return (
+                      <li className="text-xs text-zinc-700" key={pledge.contributionId}>
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <span>
+                            Your pledge: {formatMoney(pledge.amountCents, currency)}
+                            {pledge.amountCents !== pledge.originalAmountCents
+                              ? ` (was ${formatMoney(pledge.originalAmountCents, currency)})`
+                              : ""}
+                            {` • ${FULFILLMENT_LABELS[pledge.fulfillmentStatus]}`}
+                            {pledge.paymentMethod ? ` via ${pledge.paymentMethod}` : ""}
+                          </span>
+                          <div className="flex gap-2">
+                            {pledge.fulfillmentStatus === "pledged" ? (
+                              <button
+                                className="rounded-md border border-zinc-300 px-2.5 py-1 font-medium text-zinc-800 disabled:opacity-60"
+                                disabled={isMutating}
+                                onClick={() => {
+                                  setPayingPledgeId(payingPledgeId === pledge.contributionId ? null : pledge.contributionId);
+                                  setPaymentMethodInput("");
+                                }}
+                                type="button"
+                              >
+                                Mark paid
+                              </button>
+                            ) : null}
+                            {changeable ? (
+                              <>
+                                <button
+                                  className="rounded-md border border-zinc-300 px-2.5 py-1 font-medium text-zinc-800 disabled:opacity-60"
+                                  disabled={isMutating}
+                                  onClick={() => {
+                                    setEditingPledgeId(editingPledgeId === pledge.contributionId ? null : pledge.contributionId);
+                                    setPledgeAmountInput("");
+                                  }}
+                                  type="button"
+                                >
+                                  Reduce
+                                </button>
+                                <button
+                                  className="rounded-md border border-rose-300 px-2.5 py-1 font-medium text-rose-800 disabled:opacity-60"
+                                  disabled={isMutating}
+                                  onClick={() => void changePledgeAction(pledge, true)}
+                                  type="button"
+                                >
+                                  Withdraw
+                                </button>
+                              </>
+                            ) : null}
+                          </div>
+                        </div>
+                        {changeable ? (
+                          <p className="mt-1 text-zinc-500">
+                            Changeable until {new Date(pledge.changeableUntil).toLocaleString()}
+                          </p>
+                        ) : null}
+                        {pledge.fulfillmentStatus === "pledged" && payingPledgeId === pledge.contributionId ? (
+                          <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <input
+                              aria-label="How you paid"
+                              className="w-48 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                              maxLength={200}
+                              onChange={(event) => setPaymentMethodInput(event.target.value)}
+                              placeholder="How you paid (optional)"
+                              value={paymentMethodInput}
+                            />
+                            <button
+                              className="rounded-md bg-zinc-900 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+                              disabled={isMutating}
+                              onClick={() => void fulfillmentAction(pledge.contributionId, "mark_paid")}
+                              type="button"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        ) : null}
+                        {changeable && editingPledgeId === pledge.contributionId ? (
+                          <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <input
+                              aria-label="New pledge amount"
+                              className="w-32 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                              onChange={(event) => setPledgeAmountInput(event.target.value)}
+                              placeholder="New amount"
+                              value={pledgeAmountInput}
+                            />
+                            <button
+                              className="rounded-md bg-zinc-900 px-3 py-2 text-sm font-medium text-white disabled:opacity-60"
+                              disabled={isMutating}
+                              onClick={() => void changePledgeAction(pledge, false)}
+                              type="button"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        ) : null}
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : null}
+              {activeItemOrganizedByMe ? (
+                <div className="mt-3 border-t border-zinc-100 pt-3">
+                  <p className="text-xs font-semibold text-zinc-900">You are organizing this gift</p>
+                  <label className="mt-2 block text-xs text-zinc-700" htmlFor="organizer-payment-instructions">
+                    Payment instructions for contributors
+                  </label>
+                  <div className="mt-1 flex flex-wrap items-start gap-2">
+                    <textarea
+                      className="min-w-0 flex-1 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                      id="organizer-payment-instructions"
+                      maxLength={500}
+                      onChange={(event) => setOrganizerInstructionsInput(event.target.value)}
+                      placeholder="e.g. Venmo @alex, or cash at the party"
+                      rows={2}
+                      value={organizerInstructionsInput}
+                    />
+                    <button
+                      className="rounded-md border border-zinc-300 px-2.5 py-1.5 text-xs font-medium text-zinc-800 disabled:opacity-60"
+                      disabled={isMutating}
+                      onClick={() => void savePaymentInstructionsAction()}
+                      type="button"
+                    >
+                      Save
+                    </button>
+                  </div>
+                  {ledgerEntries.length === 0 ? (
+                    <p className="mt-1 text-xs text-zinc-600">No pledges to collect yet.</p>
+                  ) : (
+                    <ul className="mt-2 space-y-2">
+                      {ledgerEntries.map((entry) => (
+                        <li
+                          className="flex flex-wrap items-center justify-between gap-2 text-xs text-zinc-700"
+                          key={entry.contributionId}
+                        >
+                          <span>
+                            {entry.contributorEmail}: {formatMoney(entry.amountCents, model?.wishlist.currency || "USD")}
+                            {` • ${FULFILLMENT_LABELS[entry.fulfillmentStatus]}`}
+                            {entry.paymentMethod ? ` via ${entry.paymentMethod}` : ""}
+                          </span>
+                          {entry.fulfillmentStatus !== "confirmed" ? (
+                            <button
+                              className="rounded-md border border-zinc-300 px-2.5 py-1 font-medium text-zinc-800 disabled:opacity-60"
+                              disabled={isMutating}
+                              onClick={() => void fulfillmentAction(entry.contributionId, "confirm")}
+                              type="button"
+                            >
+                              Confirm received
+                            </button>
+                          ) : null}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : null}
             </section>
 
             {actionError ? <p className="mt-3 text-sm text-rose-700">{actionError}</p> : null}
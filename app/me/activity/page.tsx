@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 
-import { getAuthenticatedEmail, persistReturnTo } from "@/app/_lib/auth-client";
+import { getAuthenticatedActorHeaders, persistReturnTo } from "@/app/_lib/auth-client";
 
 type ActivityApiResponse =
   | {
@@ -12,17 +12,25 @@ type ActivityApiResponse =
       activities: Array<{
         id: string;
         kind: "reservation" | "contribution" | "visit";
-        action: "reserved" | "unreserved" | "contributed" | "opened_wishlist";
+        action:
+          | "reserved"
+          | "purchased"
+          | "unreserved"
+          | "contributed"
+          | "withdrew_pledge"
+          | "reduced_pledge"
+          | "opened_wishlist";
         wishlistId: string;
         wishlistTitle: string;
         itemId: string | null;
         itemTitle: string | null;
         amountCents: number | null;
-        status: "active" | "released" | null;
+        status: "active" | "purchased" | "released" | null;
         openCount: number | null;
         happenedAt: string;
         openItemPath: string | null;
       }>;
+      nextCursor: string | null;
     }
   | {
       ok: false;
@@ -32,6 +40,8 @@ type ActivityApiResponse =
       };
     };
 
+type StatusFilter = "all" | "active";
+
 function formatMoney(cents: number | null) {
   if (cents === null) return null;
   return `$${(cents / 100).toFixed(2)}`;
@@ -42,17 +52,27 @@ export default function ActivityPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [rows, setRows] = useState<
     Array<{
       id: string;
       kind: "reservation" | "contribution" | "visit";
-      action: "reserved" | "unreserved" | "contributed" | "opened_wishlist";
+      action:
+        | "reserved"
+        | "purchased"
+        | "unreserved"
+        | "contributed"
+        | "withdrew_pledge"
+        | "reduced_pledge"
+        | "opened_wishlist";
       wishlistId: string;
       wishlistTitle: string;
       itemId: string | null;
       itemTitle: string | null;
       amountCents: number | null;
-      status: "active" | "released" | null;
+      status: "active" | "purchased" | "released" | null;
       openCount: number | null;
       happenedAt: string;
       openItemPath: string | null;
@@ -63,8 +83,8 @@ export default function ActivityPage() {
     let cancelled = false;
 
     async function run() {
-      const actorEmail = await getAuthenticatedEmail();
-      if (!actorEmail) {
+      const actorHeaders = await getAuthenticatedActorHeaders();
+      if (!actorHeaders) {
         persistReturnTo("/me/activity");
         router.replace("/login?returnTo=%2Fme%2Factivity");
         return;
@@ -74,10 +94,9 @@ export default function ActivityPage() {
       setError(null);
 
       try {
-        const response = await fetch("/api/me/activity", {
-          headers: {
-            "x-actor-email": actorEmail,
-          },
+        const params = new URLSearchParams({ status: statusFilter });
+        const response = await fetch(`/api/me/activity?${params.toString()}`, {
+          headers: actorHeaders,
         });
 
         const payload = (await response.json()) as ActivityApiResponse;
@@ -87,14 +106,17 @@ export default function ActivityPage() {
           const message = payload && !payload.ok ? payload.error.message : "Unable to load activity.";
           setError(message);
           setRows([]);
+          setNextCursor(null);
           return;
         }
 
         setRows(payload.activities);
+        setNextCursor(payload.nextCursor);
       } catch {
         if (!cancelled) {
           setError("Unable to load activity. Please retry.");
           setRows([]);
+          setNextCursor(null);
         }
       } finally {
         if (!cancelled) setIsLoading(false);
@@ -106,7 +128,40 @@ export default function ActivityPage() {
     return () => {
       cancelled = true;
     };
-  }, [router]);
+  }, [router, statusFilter]);
+
+  async function loadMore() {
+    if (!nextCursor) return;
+    const actorHeaders = await getAuthenticatedActorHeaders();
+    if (!actorHeaders) return;
+
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ status: statusFilter, cursor: nextCursor });
+      const response = await fetch(`/api/me/activity?${params.toString()}`, {
+        headers: actorHeaders,
+      });
+
+      const payload = (await response.json()) as ActivityApiResponse;
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok ? payload.error.message : "Unable to load more activity.";
+        setError(message);
+        return;
+      }
+
+      setRows((current) => {
+        const seen = new Set(current.map((row) => row.id));
+        return [...current, ...payload.activities.filter((row) => !seen.has(row.id))];
+      });
+      setNextCursor(payload.nextCursor);
+    } catch {
+      setError("Unable to load more activity. Please retry.");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }
 
   const filteredRows = useMemo(() => {
     const needle = search.trim().toLowerCase();
@@ -136,15 +191,28 @@ export default function ActivityPage() {
           </Link>
         </div>
 
-        <label className="mt-4 block text-sm">
-          <span className="mb-1 block font-medium text-zinc-800">Search</span>
-          <input
-            className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
-            onChange={(event) => setSearch(event.target.value)}
-            placeholder="Search by wishlist or item"
-            value={search}
-          />
-        </label>
+        <div className="mt-4 grid gap-3 sm:grid-cols-[1fr_auto]">
+          <label className="block text-sm">
+            <span className="mb-1 block font-medium text-zinc-800">Search</span>
+            <input
+              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by wishlist or item"
+              value={search}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="mb-1 block font-medium text-zinc-800">Status</span>
+            <select
+              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+              onChange={(event) => setStatusFilter(event.target.value === "active" ? "active" : "all")}
+              value={statusFilter}
+            >
+              <option value="all">All activity</option>
+              <option value="active">Active reservations and contributions</option>
+            </select>
+          </label>
+        </div>
       </header>
 
       <section className="mt-6 space-y-3">
@@ -171,10 +239,16 @@ export default function ActivityPage() {
                       ? `Opened wishlist${row.openCount && row.openCount > 1 ? ` • ${row.openCount} visits` : ""}`
                       : row.action === "contributed"
                         ? "Contributed"
-                        : row.action === "reserved"
-                          ? "Reserved"
-                          : "Released reservation"}
-                    {row.amountCents !== null ? ` • ${formatMoney(row.amountCents)}` : ""}
+                        : row.action === "withdrew_pledge"
+                          ? "Withdrew pledge"
+                          : row.action === "reduced_pledge"
+                            ? "Reduced pledge"
+                            : row.action === "reserved"
+                              ? "Reserved"
+                              : row.action === "purchased"
+                                ? "Purchased"
+                                : "Released reservation"}
+                    {row.amountCents !== null ? ` • ${formatMoney(Math.abs(row.amountCents))}` : ""}
                     {row.status ? ` • ${row.status}` : ""}
                   </p>
                 </div>
@@ -194,6 +268,19 @@ export default function ActivityPage() {
             </article>
           ))
         )}
+
+        {!isLoading && nextCursor ? (
+          <div className="flex justify-center">
+            <button
+              className="rounded-md border border-zinc-300 bg-white px-4 py-2 text-sm font-medium text-zinc-800 disabled:opacity-60"
+              disabled={isLoadingMore}
+              onClick={() => void loadMore()}
+              type="button"
+            >
+              {isLoadingMore ? "Loading..." : "Load more"}
+            </button>
+          </div>
+        ) : null}
       </section>
     </main>
   );
@@ -0,0 +1,310 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+
+import { getAuthenticatedActorHeaders, persistReturnTo } from "@/app/_lib/auth-client";
+
+type ShoppingListItem = {
+  itemId: string;
+  itemTitle: string;
+  itemUrl: string | null;
+  priceCents: number | null;
+  quantity: number;
+  wishlistId: string;
+  wishlistTitle: string;
+  occasionDate: string | null;
+  status: "active" | "purchased";
+  purchasedAt: string | null;
+  holdExpiresAt: string | null;
+  openItemPath: string | null;
+};
+
+type ShoppingListApiResponse =
+  | {
+      ok: true;
+      items: ShoppingListItem[];
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+      };
+    };
+
+type PurchaseApiResponse =
+  | {
+      ok: true;
+      item: {
+        itemId: string;
+        status: "active" | "purchased";
+        purchasedAt: string | null;
+        holdExpiresAt: string | null;
+      };
+    }
+  | {
+      ok: false;
+      error: {
+        code: string;
+        message: string;
+      };
+    };
+
+type ViewFilter = "to_buy" | "all";
+
+function formatMoney(cents: number | null) {
+  if (cents === null) return null;
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatOccasionDate(value: string | null) {
+  if (!value) return null;
+  const parsed = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toLocaleDateString();
+}
+
+function formatHoldExpiry(value: string | null) {
+  if (!value) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toLocaleString();
+}
+
+export default function ShoppingListPage() {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [viewFilter, setViewFilter] = useState<ViewFilter>("to_buy");
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [pendingItemId, setPendingItemId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      const actorHeaders = await getAuthenticatedActorHeaders();
+      if (!actorHeaders) {
+        persistReturnTo("/me/shopping-list");
+        router.replace("/login?returnTo=%2Fme%2Fshopping-list");
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch("/api/me/shopping-list", {
+          headers: actorHeaders,
+        });
+
+        const payload = (await response.json()) as ShoppingListApiResponse;
+        if (cancelled) return;
+
+        if (!response.ok || !payload.ok) {
+          const message = payload && !payload.ok ? payload.error.message : "Unable to load your shopping list.";
+          setError(message);
+          setItems([]);
+          return;
+        }
+
+        setItems(payload.items);
+      } catch {
+        if (!cancelled) {
+          setError("Unable to load your shopping list. Please retry.");
+          setItems([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  async function updateItem(item: ShoppingListItem, change: { purchased: boolean } | { renewHold: true }) {
+    const actorHeaders = await getAuthenticatedActorHeaders();
+    if (!actorHeaders) {
+      persistReturnTo("/me/shopping-list");
+      router.replace("/login?returnTo=%2Fme%2Fshopping-list");
+      return;
+    }
+
+    setPendingItemId(item.itemId);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/me/shopping-list", {
+        method: "PATCH",
+        headers: {
+          ...actorHeaders,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          itemId: item.itemId,
+          ...change,
+        }),
+      });
+
+      const payload = (await response.json()) as PurchaseApiResponse;
+      if (!response.ok || !payload.ok) {
+        const message = payload && !payload.ok ? payload.error.message : "Unable to update this item.";
+        setError(message);
+        return;
+      }
+
+      setItems((current) =>
+        current.map((entry) =>
+          entry.itemId === payload.item.itemId
+            ? {
+                ...entry,
+                status: payload.item.status,
+                purchasedAt: payload.item.purchasedAt,
+                holdExpiresAt: payload.item.holdExpiresAt,
+              }
+            : entry,
+        ),
+      );
+    } catch {
+      setError("Unable to update this item. Please retry.");
+    } finally {
+      setPendingItemId(null);
+    }
+  }
+
+  const groups = useMemo(() => {
+    const visible = viewFilter === "to_buy" ? items.filter((item) => item.status !== "purchased") : items;
+    const byWishlist = new Map<string, { wishlistTitle: string; occasionDate: string | null; items: ShoppingListItem[] }>();
+    for (const item of visible) {
+      const group = byWishlist.get(item.wishlistId) || {
+        wishlistTitle: item.wishlistTitle,
+        occasionDate: item.occasionDate,
+        items: [],
+      };
+      group.items.push(item);
+      byWishlist.set(item.wishlistId, group);
+    }
+    return Array.from(byWishlist.entries());
+  }, [items, viewFilter]);
+
+  const purchasedCount = items.filter((item) => item.status === "purchased").length;
+
+  return (
+    <main className="mx-auto min-h-screen max-w-4xl px-4 py-8 sm:px-6 sm:py-10">
+      <header className="rounded-2xl border border-zinc-200 bg-white p-5 shadow-sm sm:p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">My shopping list</h1>
+            <p className="mt-1 text-sm text-zinc-600">
+              Gifts you reserved across shared wishlists. Marking one purchased is only visible to you.
+            </p>
+          </div>
+          <Link className="rounded-md border border-zinc-300 px-3 py-2 text-sm font-medium text-zinc-800" href="/me/activity">
+            My activity
+          </Link>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end justify-between gap-3">
+          <p className="text-sm text-zinc-700">
+            {purchasedCount} of {items.length} purchased
+          </p>
+          <label className="block text-sm">
+            <span className="mb-1 block font-medium text-zinc-800">Show</span>
+            <select
+              className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+              onChange={(event) => setViewFilter(event.target.value === "all" ? "all" : "to_buy")}
+              value={viewFilter}
+            >
+              <option value="to_buy">Still to buy</option>
+              <option value="all">All reserved gifts</option>
+            </select>
+          </label>
+        </div>
+      </header>
+
+      <section className="mt-6 space-y-4">
+        {error ? <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-900">{error}</div> : null}
+
+        {isLoading ? (
+          <>
+            <div className="h-24 animate-pulse rounded-xl border border-zinc-200 bg-white" />
+            <div className="h-24 animate-pulse rounded-xl border border-zinc-200 bg-white" />
+          </>
+        ) : groups.length === 0 ? (
+          <div className="rounded-xl border border-dashed border-zinc-300 bg-white p-6 text-center text-sm text-zinc-600">
+            {items.length === 0 ? "You have not reserved any gifts yet." : "Everything on your list is purchased."}
+          </div>
+        ) : (
+          groups.map(([wishlistId, group]) => (
+            <article className="rounded-xl border border-zinc-200 bg-white p-4 shadow-sm" key={wishlistId}>
+              <h2 className="text-sm font-semibold text-zinc-900">{group.wishlistTitle}</h2>
+              {formatOccasionDate(group.occasionDate) ? (
+                <p className="mt-1 text-xs text-zinc-600">Occasion: {formatOccasionDate(group.occasionDate)}</p>
+              ) : null}
+
+              <ul className="mt-3 divide-y divide-zinc-100">
+                {group.items.map((item) => (
+                  <li className="flex flex-wrap items-center justify-between gap-3 py-2" key={item.itemId}>
+                    <label className="flex min-w-0 items-center gap-3 text-sm">
+                      <input
+                        checked={item.status === "purchased"}
+                        disabled={pendingItemId === item.itemId}
+                        onChange={() => void updateItem(item, { purchased: item.status !== "purchased" })}
+                        type="checkbox"
+                      />
+                      <span className={item.status === "purchased" ? "text-zinc-500 line-through" : "text-zinc-900"}>
+                        {item.itemTitle}
+                        {item.quantity > 1 ? ` × ${item.quantity}` : ""}
+                        {formatMoney(item.priceCents) ? ` • ${formatMoney(item.priceCents)}` : ""}
+                      </span>
+                      {formatHoldExpiry(item.holdExpiresAt) ? (
+                        <span className="text-xs text-amber-700">Hold expires {formatHoldExpiry(item.holdExpiresAt)}</span>
+                      ) : null}
+                    </label>
+
+                    <div className="flex gap-2">
+                      {item.holdExpiresAt ? (
+                        <button
+                          className="rounded-md border border-zinc-300 px-3 py-2 text-xs font-medium text-zinc-800 disabled:opacity-50"
+                          disabled={pendingItemId === item.itemId}
+                          onClick={() => void updateItem(item, { renewHold: true })}
+                          type="button"
+                        >
+                          Renew hold
+                        </button>
+                      ) : null}
+                      {item.itemUrl ? (
+                        <a
+                          className="rounded-md border border-zinc-300 px-3 py-2 text-xs font-medium text-zinc-800"
+                          href={item.itemUrl}
+                          rel="noreferrer"
+                          target="_blank"
+                        >
+                          Shop
+                        </a>
+                      ) : null}
+                      {item.openItemPath ? (
+                        <Link
+                          className="rounded-md border border-zinc-300 px-3 py-2 text-xs font-medium text-zinc-800"
+                          href={item.openItemPath}
+                        >
+                          Open item
+                        </Link>
+                      ) : null}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </article>
+          ))
+        )}
+      </section>
+    </main>
+  );
+}
@@ -4,20 +4,40 @@ import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
 
-import { getAuthenticatedEmail, getAuthenticatedOwnerHeaders, persistReturnTo } from "@/app/_lib/auth-client";
-import type { ItemRecord } from "@/app/_lib/item-store";
+import { getAuthenticatedOwnerHeaders, persistReturnTo } from "@/app/_lib/auth-client";
+import type { FundingOverflowMode, ItemRecord, OwnerStreamItem, ShortfallPolicy } from "@/app/_lib/item-store";
 
 type ItemFormValues = {
   description: string;
   url: string;
   imageUrls: string[];
+  quantityDesired: string;
   isGroupFunded: boolean;
   target: string;
+  fundingDeadline: string;
+  shortfallPolicy: ShortfallPolicy;
+  fundingOverflowMode: FundingOverflowMode;
+  fundingOverflowPercent: string;
+  paymentInstructions: string;
 };
 
 type ItemFieldErrors = Partial<
   Record<
-    "title" | "description" | "url" | "priceCents" | "imageUrl" | "imageUrls" | "targetCents" | "imageFile" | "draftText",
+    | "title"
+    | "description"
+    | "url"
+    | "priceCents"
+    | "imageUrl"
+    | "imageUrls"
+    | "quantityDesired"
+    | "targetCents"
+    | "fundingDeadlineAt"
+    | "shortfallPolicy"
+    | "fundingOverflowMode"
+    | "fundingOverflowPercent"
+    | "paymentInstructions"
+    | "imageFile"
+    | "draftText",
     string
   >
 >;
@@ -157,16 +177,24 @@ type WishlistsListResponse =
 
 type ItemAvailability = "available" | "reserved";
 
-type OwnerRealtimeMessage =
+type OwnerStreamMessage =
   | {
       type: "snapshot";
-      items: Array<{
-        id: string;
-        title: string;
-        availability: ItemAvailability;
-        fundedCents: number;
-        contributorCount: number;
-      }>;
+      items: OwnerStreamItem[];
+    }
+  | {
+      type: "item_changed";
+      itemId: string;
+      changes: Partial<OwnerStreamItem>;
+    }
+  | {
+      type: "item_added";
+      index: number;
+      item: OwnerStreamItem;
+    }
+  | {
+      type: "item_removed";
+      itemId: string;
     }
   | {
       type: "heartbeat";
@@ -175,18 +203,27 @@ type OwnerRealtimeMessage =
       type: "not_found";
     };
 
+type ItemQuantitySummary = {
+  desired: number;
+  remaining: number;
+};
+
 type ItemContributionSummary = {
-  fundedCents: number;
-  contributorCount: number;
+  hasContributions: boolean;
+  fundingReached: boolean;
 };
 
+function summarizeContributions(item: ItemRecord): ItemContributionSummary {
+  return {
+    hasContributions: item.contributorCount > 0,
+    fundingReached: item.targetCents !== null && item.fundedCents >= item.targetCents,
+  };
+}
+
 function buildContributionSummaryMap(items: ItemRecord[]): Record<string, ItemContributionSummary> {
   const next: Record<string, ItemContributionSummary> = {};
   for (const item of items) {
-    next[item.id] = {
-      fundedCents: item.fundedCents,
-      contributorCount: item.contributorCount,
-    };
+    next[item.id] = summarizeContributions(item);
   }
   return next;
 }
@@ -201,8 +238,14 @@ const EMPTY_FORM: ItemFormValues = {
   description: "",
   url: "",
   imageUrls: [],
+  quantityDesired: "1",
   isGroupFunded: false,
   target: "",
+  fundingDeadline: "",
+  shortfallPolicy: "owner_decides",
+  fundingOverflowMode: "cap",
+  fundingOverflowPercent: "",
+  paymentInstructions: "",
 };
 
 const CLIENT_MAX_UPLOAD_MB = 10;
@@ -215,6 +258,21 @@ function centsToDisplay(cents: number | null) {
   return (cents / 100).toFixed(2);
 }
 
+function isoToDateTimeInput(value: string | null) {
+  if (!value) return "";
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return "";
+  const local = new Date(parsed.getTime() - parsed.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+function dateTimeInputToIso(value: string) {
+  if (!value.trim()) return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toISOString();
+}
+
 function parseMoneyToCents(value: string): number | null {
   if (!value.trim()) return null;
   const normalized = value.replace(/,/g, "").trim();
@@ -287,8 +345,15 @@ function buildPayload(wishlistId: string, form: ItemFormValues, parsedDraft: Par
     url: form.url.trim() || null,
     priceCents: parsedDraft.priceCents,
     imageUrls: form.imageUrls,
+    quantityDesired: Number(form.quantityDesired.trim() || "1"),
     isGroupFunded: form.isGroupFunded,
     targetCents: form.isGroupFunded ? fallbackTargetCents : null,
+    fundingDeadlineAt: form.isGroupFunded ? dateTimeInputToIso(form.fundingDeadline) : null,
+    shortfallPolicy: form.isGroupFunded ? form.shortfallPolicy : "owner_decides",
+    fundingOverflowMode: form.isGroupFunded ? form.fundingOverflowMode : "cap",
+    fundingOverflowPercent:
+      form.isGroupFunded && form.fundingOverflowMode === "allow_percent" ? Number(form.fundingOverflowPercent.trim()) : null,
+    paymentInstructions: form.isGroupFunded ? form.paymentInstructions.trim() || null : null,
   };
 }
 
@@ -299,24 +364,63 @@ function createIdempotencyKey() {
   return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
 }
 
-function extractShareTokenFromPreview(value: string | null): string | null {
-  if (!value) return null;
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-
-  try {
-    const fallbackOrigin = typeof window !== "undefined" ? window.location.origin : "http://localhost";
-    const parsed = new URL(trimmed, fallbackOrigin);
-    const parts = parsed.pathname.split("/").filter(Boolean);
-    const tokenIndex = parts.findIndex((part) => part === "l");
-    if (tokenIndex >= 0 && parts[tokenIndex + 1]) {
-      return decodeURIComponent(parts[tokenIndex + 1]);
-    }
-    return parts.length > 0 ? decodeURIComponent(parts[parts.length - 1]) : null;
-  } catch {
-    const match = trimmed.match(/\/l\/([^/?#]+)/i);
-    if (match?.[1]) return decodeURIComponent(match[1]);
-    return null;
+function toItemRecord(item: OwnerStreamItem, existing?: ItemRecord): ItemRecord {
+  const {
+    availability: _ignoredAvailability,
+    quantityRemaining: _ignoredQuantityRemaining,
+    hasContributions: _ignoredHasContributions,
+    fundingReached: _ignoredFundingReached,
+    ...record
+  } = item;
+  return {
+    ...record,
+    ownerUserId: existing?.ownerUserId ?? "",
+    fundedCents: existing?.fundedCents ?? 0,
+    contributorCount: existing?.contributorCount ?? 0,
+    updatedAt: existing?.updatedAt ?? record.createdAt,
+  };
+}
+
+function applyOwnerStreamMessage(items: OwnerStreamItem[], message: OwnerStreamMessage): OwnerStreamItem[] {
+  if (message.type === "snapshot") return message.items;
+  if (message.type === "item_removed") return items.filter((item) => item.id !== message.itemId);
+  if (message.type === "item_added") {
+    const next = items.filter((item) => item.id !== message.item.id);
+    next.splice(Math.min(message.index, next.length), 0, message.item);
+    return next;
+  }
+  if (message.type === "item_changed") {
+    return items.map((item) => (item.id === message.itemId ? { ...item, ...message.changes } : item));
+  }
+  return items;
+}
+
+async function readEventStream(body: ReadableStream<Uint8Array>, onData: (data: string) => boolean) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice(6))
+        .join("\n");
+      if (data && !onData(data)) {
+        await reader.cancel();
+        return;
+      }
+    }
   }
 }
 
@@ -335,14 +439,16 @@ function getItemImageUrls(item: Pick<ItemRecord, "imageUrl" | "imageUrls">): str
 
 function uploadFileWithProgress(input: {
   uploadUrl: string;
-  ownerEmail: string;
+  ownerHeaders: Record<string, string>;
   file: File;
   onProgress: (value: number) => void;
 }): Promise<ImageUploadResponse> {
   return new Promise((resolve) => {
     const xhr = new XMLHttpRequest();
     xhr.open("PUT", input.uploadUrl);
-    xhr.setRequestHeader("x-owner-email", input.ownerEmail);
+    for (const [name, value] of Object.entries(input.ownerHeaders)) {
+      xhr.setRequestHeader(name, value);
+    }
     xhr.setRequestHeader("content-type", input.file.type);
 
     xhr.upload.onprogress = (event) => {
@@ -402,6 +508,7 @@ export default function WishlistEditorPage() {
   const [shareLinkError, setShareLinkError] = useState<string | null>(null);
   const [isCopyLinkConfirmed, setIsCopyLinkConfirmed] = useState(false);
   const [availabilityByItemId, setAvailabilityByItemId] = useState<Record<string, ItemAvailability>>({});
+  const [quantityByItemId, setQuantityByItemId] = useState<Record<string, ItemQuantitySummary>>({});
   const [contributionByItemId, setContributionByItemId] = useState<Record<string, ItemContributionSummary>>({});
   const [reservationLiveNotice, setReservationLiveNotice] = useState<string | null>(null);
 
@@ -427,6 +534,9 @@ export default function WishlistEditorPage() {
   const [isLoadingReviewImages, setIsLoadingReviewImages] = useState(false);
   const [shortfallItemId, setShortfallItemId] = useState<string | null>(null);
   const [isResolvingShortfall, setIsResolvingShortfall] = useState(false);
+  const [organizerItemId, setOrganizerItemId] = useState<string | null>(null);
+  const [organizerEmailInput, setOrganizerEmailInput] = useState("");
+  const [isSavingOrganizer, setIsSavingOrganizer] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const pendingImagesRef = useRef<PendingImage[]>([]);
@@ -452,21 +562,11 @@ export default function WishlistEditorPage() {
   );
   const reviewingContributionSummary = useMemo(() => {
     if (!reviewingItem) return null;
-    return (
-      contributionByItemId[reviewingItem.id] || {
-        fundedCents: reviewingItem.fundedCents,
-        contributorCount: reviewingItem.contributorCount,
-      }
-    );
+    return contributionByItemId[reviewingItem.id] || summarizeContributions(reviewingItem);
   }, [contributionByItemId, reviewingItem]);
   const shortfallContributionSummary = useMemo(() => {
     if (!shortfallItem) return null;
-    return (
-      contributionByItemId[shortfallItem.id] || {
-        fundedCents: shortfallItem.fundedCents,
-        contributorCount: shortfallItem.contributorCount,
-      }
-    );
+    return contributionByItemId[shortfallItem.id] || summarizeContributions(shortfallItem);
   }, [contributionByItemId, shortfallItem]);
 
   const duplicateUrlWarning = useMemo(() => {
@@ -493,8 +593,8 @@ export default function WishlistEditorPage() {
     let cancelled = false;
 
     async function loadItems() {
-      const ownerEmail = await getAuthenticatedEmail();
-      if (!ownerEmail) {
+      const ownerHeaders = await getAuthenticatedOwnerHeaders();
+      if (!ownerHeaders) {
         persistReturnTo(`/wishlists/${wishlistId}`);
         router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
         return;
@@ -505,9 +605,7 @@ export default function WishlistEditorPage() {
 
       try {
         const response = await fetch(`/api/items?wishlistId=${encodeURIComponent(wishlistId)}`, {
-          headers: {
-            "x-owner-email": ownerEmail,
-          },
+          headers: ownerHeaders,
         });
 
         const payload = (await response.json()) as
@@ -529,12 +627,6 @@ export default function WishlistEditorPage() {
         setContributionByItemId(buildContributionSummaryMap(payload.items));
 
         try {
-          const ownerHeaders = await getAuthenticatedOwnerHeaders();
-          if (!ownerHeaders) {
-            setShareUrlPreview(null);
-            return;
-          }
-
           const wishlistsResponse = await fetch("/api/wishlists", {
             headers: ownerHeaders,
           });
@@ -574,18 +666,10 @@ export default function WishlistEditorPage() {
   }, [router, wishlistId]);
 
   useEffect(() => {
-    const shareToken = extractShareTokenFromPreview(shareUrlPreview);
-    if (!shareToken) {
-      availabilityByItemIdRef.current = {};
-      setAvailabilityByItemId({});
-      setContributionByItemId({});
-      setReservationLiveNotice(null);
-      return;
-    }
-
     let cancelled = false;
-    let source: EventSource | null = null;
+    let abortController: AbortController | null = null;
     let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let liveItems: OwnerStreamItem[] = [];
 
     const clearReconnect = () => {
       if (!reconnectTimer) return;
@@ -593,85 +677,135 @@ export default function WishlistEditorPage() {
       reconnectTimer = null;
     };
 
-    const connect = () => {
-      if (cancelled) return;
+    const scheduleReconnect = () => {
+      if (cancelled || reconnectTimer) return;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        void connect();
+      }, 3000);
+    };
 
-      if (source) {
-        source.close();
-        source = null;
+    const handleMessage = (message: OwnerStreamMessage) => {
+      if (message.type === "heartbeat" || message.type === "not_found") return;
+
+      liveItems = applyOwnerStreamMessage(liveItems, message);
+
+      const previous = availabilityByItemIdRef.current;
+      const next: Record<string, ItemAvailability> = {};
+      const nextQuantities: Record<string, ItemQuantitySummary> = {};
+      const nextContributions: Record<string, ItemContributionSummary> = {};
+      let newlyReservedTitle: string | null = null;
+
+      for (const item of liveItems) {
+        next[item.id] = item.availability;
+        nextQuantities[item.id] = {
+          desired: item.quantityDesired,
+          remaining: item.quantityRemaining,
+        };
+        nextContributions[item.id] = {
+          hasContributions: item.hasContributions,
+          fundingReached: item.fundingReached,
+        };
+        if (
+          (message.type !== "snapshot" || Object.keys(previous).length > 0) &&
+          item.availability === "reserved" &&
+          previous[item.id] !== "reserved" &&
+          !newlyReservedTitle
+        ) {
+          newlyReservedTitle = item.title;
+        }
       }
 
-      source = new EventSource(`/api/public/${encodeURIComponent(shareToken)}/stream`);
+      availabilityByItemIdRef.current = next;
+      setAvailabilityByItemId(next);
+      setQuantityByItemId(nextQuantities);
+      setContributionByItemId(nextContributions);
 
-      source.onmessage = (event) => {
-        if (cancelled) return;
+      if (message.type === "snapshot") {
+        setItems((current) =>
+          liveItems.map((item) => toItemRecord(item, current.find((existing) => existing.id === item.id))),
+        );
+      } else if (message.type === "item_removed") {
+        setItems((current) => current.filter((item) => item.id !== message.itemId));
+      } else {
+        const itemId = message.type === "item_added" ? message.item.id : message.itemId;
+        const liveItem = liveItems.find((item) => item.id === itemId);
+        if (liveItem) {
+          setItems((current) => {
+            const existing = current.find((item) => item.id === itemId);
+            if (!existing) return [toItemRecord(liveItem), ...current];
+            return current.map((item) => (item.id === itemId ? toItemRecord(liveItem, existing) : item));
+          });
+        }
+      }
 
-        let message: OwnerRealtimeMessage;
-        try {
-          message = JSON.parse(event.data) as OwnerRealtimeMessage;
-        } catch {
-          return;
+      if (newlyReservedTitle) {
+        setReservationLiveNotice(`Reserved now: ${newlyReservedTitle}`);
+        if (reservationNoticeTimerRef.current) {
+          clearTimeout(reservationNoticeTimerRef.current);
         }
+        reservationNoticeTimerRef.current = setTimeout(() => {
+          setReservationLiveNotice(null);
+          reservationNoticeTimerRef.current = null;
+        }, 2400);
+      }
+    };
 
-        if (message.type !== "snapshot") return;
-
-        const previous = availabilityByItemIdRef.current;
-        const next: Record<string, ItemAvailability> = {};
-        const nextContributions: Record<string, ItemContributionSummary> = {};
-        let newlyReservedTitle: string | null = null;
-
-        for (const item of message.items) {
-          next[item.id] = item.availability;
-          nextContributions[item.id] = {
-            fundedCents: item.fundedCents,
-            contributorCount: item.contributorCount,
-          };
-          if (item.availability === "reserved" && previous[item.id] !== "reserved" && !newlyReservedTitle) {
-            newlyReservedTitle = item.title;
-          }
+    const connect = async () => {
+      if (cancelled) return;
+
+      const ownerHeaders = await getAuthenticatedOwnerHeaders();
+      if (cancelled || !ownerHeaders) return;
+
+      abortController?.abort();
+      abortController = new AbortController();
+
+      let reachedEnd = false;
+      try {
+        const response = await fetch(`/api/wishlists/${encodeURIComponent(wishlistId)}/stream`, {
+          headers: ownerHeaders,
+          cache: "no-store",
+          signal: abortController.signal,
+        });
+        if (response.status === 404 || response.status === 403) return;
+        if (!response.ok || !response.body) {
+          scheduleReconnect();
+          return;
         }
 
-        availabilityByItemIdRef.current = next;
-        setAvailabilityByItemId(next);
-        setContributionByItemId(nextContributions);
+        await readEventStream(response.body, (data) => {
+          if (cancelled) return false;
 
-        if (newlyReservedTitle) {
-          setReservationLiveNotice(`Reserved now: ${newlyReservedTitle}`);
-          if (reservationNoticeTimerRef.current) {
-            clearTimeout(reservationNoticeTimerRef.current);
+          let message: OwnerStreamMessage;
+          try {
+            message = JSON.parse(data) as OwnerStreamMessage;
+          } catch {
+            return true;
           }
-          reservationNoticeTimerRef.current = setTimeout(() => {
-            setReservationLiveNotice(null);
-            reservationNoticeTimerRef.current = null;
-          }, 2400);
-        }
-      };
 
-      source.onerror = () => {
-        if (cancelled) return;
+          if (message.type === "not_found") {
+            reachedEnd = true;
+            return false;
+          }
 
-        if (source) {
-          source.close();
-          source = null;
-        }
+          handleMessage(message);
+          return true;
+        });
+      } catch {
+        // Dropped connections reconnect below.
+      }
 
-        if (!reconnectTimer) {
-          reconnectTimer = setTimeout(() => {
-            reconnectTimer = null;
-            connect();
-          }, 3000);
-        }
-      };
+      if (!reachedEnd) scheduleReconnect();
     };
 
-    connect();
+    void connect();
 
     return () => {
       cancelled = true;
       clearReconnect();
-      if (source) source.close();
+      abortController?.abort();
     };
-  }, [shareUrlPreview]);
+  }, [wishlistId]);
 
   useEffect(() => {
     return () => {
@@ -688,8 +822,8 @@ export default function WishlistEditorPage() {
     let cancelled = false;
 
     async function hydratePreviews() {
-      const ownerEmail = await getAuthenticatedEmail();
-      if (!ownerEmail || items.length === 0) {
+      const ownerHeaders = await getAuthenticatedOwnerHeaders();
+      if (!ownerHeaders || items.length === 0) {
         if (!cancelled) setImagePreviewByItemId({});
         return;
       }
@@ -709,7 +843,7 @@ export default function WishlistEditorPage() {
 
           const previewUrl = await fetchSignedPreviewUrl({
             itemId: item.id,
-            ownerEmail,
+            ownerHeaders,
           });
           if (!previewUrl) return;
           next[item.id] = [previewUrl];
@@ -823,7 +957,7 @@ export default function WishlistEditorPage() {
 
   async function fetchSignedPreviewUrl(input: {
     itemId: string;
-    ownerEmail: string;
+    ownerHeaders: Record<string, string>;
     imageIndex?: number;
   }): Promise<string | null> {
     async function requestPreview() {
@@ -832,7 +966,7 @@ export default function WishlistEditorPage() {
           method: "POST",
           headers: {
             "content-type": "application/json",
-            "x-owner-email": input.ownerEmail,
+            ...input.ownerHeaders,
           },
           body: JSON.stringify({
             mode: "preview",
@@ -857,8 +991,8 @@ export default function WishlistEditorPage() {
   }
 
   async function hydratePreviewForItem(itemId: string, imageRefsOverride?: string[]) {
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) return;
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) return;
 
     const fallbackItem = items.find((item) => item.id === itemId) || null;
     const imageRefs =
@@ -882,7 +1016,7 @@ export default function WishlistEditorPage() {
         if (!isStorageImageRef(imageRef)) return imageRef;
         const previewUrl = await fetchSignedPreviewUrl({
           itemId,
-          ownerEmail,
+          ownerHeaders,
           imageIndex,
         });
         return previewUrl || "";
@@ -927,8 +1061,8 @@ export default function WishlistEditorPage() {
       return;
     }
 
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       closeItemReview();
@@ -943,7 +1077,7 @@ export default function WishlistEditorPage() {
 
         const previewUrl = await fetchSignedPreviewUrl({
           itemId: item.id,
-          ownerEmail,
+          ownerHeaders,
           imageIndex,
         });
         if (previewUrl) return previewUrl;
@@ -977,8 +1111,14 @@ export default function WishlistEditorPage() {
       description: draftText || item.description || "",
       url: item.url || "",
       imageUrls: getItemImageUrls(item),
+      quantityDesired: String(item.quantityDesired),
       isGroupFunded: item.isGroupFunded,
       target: centsToDisplay(item.targetCents),
+      fundingDeadline: isoToDateTimeInput(item.fundingDeadlineAt),
+      shortfallPolicy: item.shortfallPolicy,
+      fundingOverflowMode: item.fundingOverflowMode,
+      fundingOverflowPercent: item.fundingOverflowPercent !== null ? String(item.fundingOverflowPercent) : "",
+      paymentInstructions: item.paymentInstructions || "",
     });
     setFieldErrors({});
     setFormError(null);
@@ -1017,7 +1157,16 @@ export default function WishlistEditorPage() {
   function onToggleGroupFunded(checked: boolean) {
     setForm((prev) => {
       if (!checked) {
-        return { ...prev, isGroupFunded: false, target: "" };
+        return {
+          ...prev,
+          isGroupFunded: false,
+          target: "",
+          fundingDeadline: "",
+          shortfallPolicy: "owner_decides",
+          fundingOverflowMode: "cap",
+          fundingOverflowPercent: "",
+          paymentInstructions: "",
+        };
       }
 
       return {
@@ -1028,7 +1177,7 @@ export default function WishlistEditorPage() {
     });
   }
 
-  async function parseDraftTextWithAi(ownerEmail: string, draftText: string): Promise<{
+  async function parseDraftTextWithAi(ownerHeaders: Record<string, string>, draftText: string): Promise<{
     parsed: ParsedDraftFields;
     priceNeedsReview: boolean;
     priceReviewMessage: string | null;
@@ -1039,7 +1188,7 @@ export default function WishlistEditorPage() {
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-owner-email": ownerEmail,
+          ...ownerHeaders,
         },
         body: JSON.stringify({
           draftText,
@@ -1081,7 +1230,7 @@ export default function WishlistEditorPage() {
   }
 
   async function fetchMetadataForUrl(input: {
-    ownerEmail: string;
+    ownerHeaders: Record<string, string>;
     url: string;
     specNotes: string;
   }): Promise<{
@@ -1096,7 +1245,7 @@ export default function WishlistEditorPage() {
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-owner-email": input.ownerEmail,
+          ...input.ownerHeaders,
         },
         body: JSON.stringify({
           url: input.url,
@@ -1209,8 +1358,8 @@ export default function WishlistEditorPage() {
   }
 
   async function uploadImageForItem(itemId: string, file: File) {
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       return { ok: false as const };
@@ -1227,7 +1376,7 @@ export default function WishlistEditorPage() {
         method: "POST",
         headers: {
           "content-type": "application/json",
-          "x-owner-email": ownerEmail,
+          ...ownerHeaders,
         },
         body: JSON.stringify({
           mode: "prepare-upload",
@@ -1256,7 +1405,7 @@ export default function WishlistEditorPage() {
 
     const uploadResult = await uploadFileWithProgress({
       uploadUrl: preparePayload.uploadUrl,
-      ownerEmail,
+      ownerHeaders,
       file,
       onProgress: (next) => setUploadProgress(next),
     });
@@ -1291,8 +1440,8 @@ export default function WishlistEditorPage() {
     setPriceReviewNotice(null);
     setFieldErrors((current) => ({ ...current, imageFile: undefined, description: undefined }));
 
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       return;
@@ -1317,7 +1466,7 @@ export default function WishlistEditorPage() {
     if (normalizedUrl) {
       setMetadataMessage("Importing details from URL before save...");
       const metadataResult = await fetchMetadataForUrl({
-        ownerEmail,
+        ownerHeaders,
         url: normalizedUrl,
         specNotes: draftTextForParsing,
       });
@@ -1365,7 +1514,7 @@ export default function WishlistEditorPage() {
       return;
     }
 
-    const parsedDraftResult = await parseDraftTextWithAi(ownerEmail, draftTextForParsing);
+    const parsedDraftResult = await parseDraftTextWithAi(ownerHeaders, draftTextForParsing);
     if (!parsedDraftResult) {
       setIsSubmitting(false);
       return;
@@ -1389,6 +1538,26 @@ export default function WishlistEditorPage() {
       setFieldErrors({ targetCents: "Target must be greater than 0." });
       return;
     }
+    if (payload.isGroupFunded && payload.shortfallPolicy !== "owner_decides" && !payload.fundingDeadlineAt) {
+      setIsSubmitting(false);
+      setFieldErrors({ fundingDeadlineAt: "Set a funding deadline to use an automatic shortfall policy." });
+      return;
+    }
+    if (!Number.isInteger(payload.quantityDesired) || payload.quantityDesired < 1 || payload.quantityDesired > 999) {
+      setIsSubmitting(false);
+      setFieldErrors({ quantityDesired: "Quantity must be a whole number from 1 to 999." });
+      return;
+    }
+    if (
+      payload.fundingOverflowPercent !== null &&
+      (!Number.isInteger(payload.fundingOverflowPercent) ||
+        payload.fundingOverflowPercent < 1 ||
+        payload.fundingOverflowPercent > 100)
+    ) {
+      setIsSubmitting(false);
+      setFieldErrors({ fundingOverflowPercent: "Overflow percentage must be a whole number from 1 to 100." });
+      return;
+    }
     if (payload.imageUrls.length > CLIENT_MAX_ITEM_IMAGES) {
       setIsSubmitting(false);
       setFieldErrors({ imageFile: `Up to ${CLIENT_MAX_ITEM_IMAGES} images are allowed per item.` });
@@ -1404,7 +1573,7 @@ export default function WishlistEditorPage() {
         method,
         headers: {
           "content-type": "application/json",
-          "x-owner-email": ownerEmail,
+          ...ownerHeaders,
         },
         body: JSON.stringify(payload),
       });
@@ -1482,8 +1651,8 @@ export default function WishlistEditorPage() {
   }
 
   async function onArchive(itemId: string) {
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       return;
@@ -1491,9 +1660,7 @@ export default function WishlistEditorPage() {
 
     const response = await fetch(`/api/items/${itemId}/archive`, {
       method: "POST",
-      headers: {
-        "x-owner-email": ownerEmail,
-      },
+      headers: ownerHeaders,
     });
 
     const payload = (await response.json()) as ItemApiResponse;
@@ -1509,8 +1676,8 @@ export default function WishlistEditorPage() {
   }
 
   async function onRestore(itemId: string) {
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       return;
@@ -1522,9 +1689,7 @@ export default function WishlistEditorPage() {
     try {
       response = await fetch(`/api/items/${itemId}/archive`, {
         method: "DELETE",
-        headers: {
-          "x-owner-email": ownerEmail,
-        },
+        headers: ownerHeaders,
       });
     } catch {
       setIsRestoringItemId(null);
@@ -1589,10 +1754,7 @@ export default function WishlistEditorPage() {
     setItems((current) => current.map((item) => (item.id === payload.item.id ? payload.item : item)));
     setContributionByItemId((current) => ({
       ...current,
-      [payload.item.id]: {
-        fundedCents: payload.item.fundedCents,
-        contributorCount: payload.item.contributorCount,
-      },
+      [payload.item.id]: summarizeContributions(payload.item),
     }));
 
     if (payload.appliedAction === "extend_7d") {
@@ -1612,6 +1774,49 @@ export default function WishlistEditorPage() {
     setShortfallItemId(null);
   }
 
+  async function onSetOrganizer(itemId: string, email: string | null) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
+      persistReturnTo(`/wishlists/${wishlistId}`);
+      router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
+      return;
+    }
+
+    setIsSavingOrganizer(true);
+    setFormError(null);
+    setFormSuccess(null);
+
+    let response: Response;
+    try {
+      response = await fetch(`/api/items/${itemId}/organizer`, {
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+          ...ownerHeaders,
+        },
+        body: JSON.stringify({ email }),
+      });
+    } catch {
+      setIsSavingOrganizer(false);
+      setFormError("Unable to set the organizer right now. Please retry.");
+      return;
+    }
+
+    const payload = (await response.json()) as ItemApiResponse;
+    setIsSavingOrganizer(false);
+
+    if (!response.ok || !payload.ok) {
+      const message = payload && !payload.ok ? payload.error.message : "Unable to set the organizer.";
+      setFormError(message);
+      return;
+    }
+
+    setItems((current) => current.map((item) => (item.id === payload.item.id ? payload.item : item)));
+    setFormSuccess(email ? "Organizer nominated." : "The first contributor will organize this gift.");
+    setOrganizerItemId(null);
+    setOrganizerEmailInput("");
+  }
+
   async function copyShareLink(value: string) {
     if (copyLinkFeedbackTimerRef.current) {
       clearTimeout(copyLinkFeedbackTimerRef.current);
@@ -1647,8 +1852,8 @@ export default function WishlistEditorPage() {
       return;
     }
 
-    const ownerEmail = await getAuthenticatedEmail();
-    if (!ownerEmail) {
+    const ownerHeaders = await getAuthenticatedOwnerHeaders();
+    if (!ownerHeaders) {
       persistReturnTo(`/wishlists/${wishlistId}`);
       router.replace(`/login?returnTo=${encodeURIComponent(`/wishlists/${wishlistId}`)}`);
       return;
@@ -1661,7 +1866,7 @@ export default function WishlistEditorPage() {
     if (!draftTextForParsing && normalizedUrl) {
       setMetadataMessage("Importing details from URL before save...");
       const metadataResult = await fetchMetadataForUrl({
-        ownerEmail,
+        ownerHeaders,
         url: normalizedUrl,
         specNotes: draftTextForParsing,
       });
@@ -1686,7 +1891,7 @@ export default function WishlistEditorPage() {
       return;
     }
 
-    const parsedDraftResult = await parseDraftTextWithAi(ownerEmail, draftTextForParsing);
+    const parsedDraftResult = await parseDraftTextWithAi(ownerHeaders, draftTextForParsing);
     if (!parsedDraftResult) return;
 
     const payload = buildPayload(wishlistId, { ...form, imageUrls: [] }, parsedDraftResult.parsed);
@@ -1707,7 +1912,7 @@ export default function WishlistEditorPage() {
         method: "PATCH",
         headers: {
           "content-type": "application/json",
-          "x-owner-email": ownerEmail,
+          ...ownerHeaders,
         },
         body: JSON.stringify(payload),
       });
@@ -1875,6 +2080,22 @@ export default function WishlistEditorPage() {
                   </p>
                 ) : null}
               </div>
+
+              <div className="mt-3">
+                <label className="mb-1 block text-sm font-medium text-zinc-800" htmlFor="item-quantity">
+                  Quantity wanted
+                </label>
+                <input
+                  className="w-28 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                  id="item-quantity"
+                  inputMode="numeric"
+                  onChange={(event) => setForm((prev) => ({ ...prev, quantityDesired: event.target.value }))}
+                  value={form.quantityDesired}
+                />
+                {fieldErrors.quantityDesired ? (
+                  <p className="mt-1 text-xs text-rose-700">{fieldErrors.quantityDesired}</p>
+                ) : null}
+              </div>
             </section>
 
             <label className="flex items-center gap-2 text-sm text-zinc-800">
@@ -2037,6 +2258,93 @@ export default function WishlistEditorPage() {
                   value={form.target}
                 />
                 {fieldErrors.targetCents ? <p className="mt-1 text-xs text-rose-700">{fieldErrors.targetCents}</p> : null}
+
+                <label className="mb-1 mt-3 block text-sm font-medium text-zinc-800" htmlFor="item-funding-deadline">
+                  Funding deadline (optional)
+                </label>
+                <input
+                  className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                  id="item-funding-deadline"
+                  onChange={(event) => setForm((prev) => ({ ...prev, fundingDeadline: event.target.value }))}
+                  type="datetime-local"
+                  value={form.fundingDeadline}
+                />
+                {fieldErrors.fundingDeadlineAt ? (
+                  <p className="mt-1 text-xs text-rose-700">{fieldErrors.fundingDeadlineAt}</p>
+                ) : null}
+
+                <label className="mb-1 mt-3 block text-sm font-medium text-zinc-800" htmlFor="item-shortfall-policy">
+                  If the target is not reached by the deadline
+                </label>
+                <select
+                  className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                  id="item-shortfall-policy"
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, shortfallPolicy: event.target.value as ShortfallPolicy }))
+                  }
+                  value={form.shortfallPolicy}
+                >
+                  <option value="owner_decides">Let me decide</option>
+                  <option value="auto_extend_7d">Extend the deadline by 7 days</option>
+                  <option value="auto_archive">Archive the item</option>
+                </select>
+                {fieldErrors.shortfallPolicy ? (
+                  <p className="mt-1 text-xs text-rose-700">{fieldErrors.shortfallPolicy}</p>
+                ) : null}
+
+                <label className="mb-1 mt-3 block text-sm font-medium text-zinc-800" htmlFor="item-overflow-mode">
+                  When pledges reach the target
+                </label>
+                <select
+                  className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                  id="item-overflow-mode"
+                  onChange={(event) =>
+                    setForm((prev) => ({ ...prev, fundingOverflowMode: event.target.value as FundingOverflowMode }))
+                  }
+                  value={form.fundingOverflowMode}
+                >
+                  <option value="cap">Stop at the target</option>
+                  <option value="allow_percent">Allow up to a percentage over</option>
+                  <option value="allow">Allow any amount over</option>
+                </select>
+                {fieldErrors.fundingOverflowMode ? (
+                  <p className="mt-1 text-xs text-rose-700">{fieldErrors.fundingOverflowMode}</p>
+                ) : null}
+
+                {form.fundingOverflowMode === "allow_percent" ? (
+                  <>
+                    <label className="mb-1 mt-3 block text-sm font-medium text-zinc-800" htmlFor="item-overflow-percent">
+                      Maximum over target (%)
+                    </label>
+                    <input
+                      className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                      id="item-overflow-percent"
+                      inputMode="numeric"
+                      onChange={(event) => setForm((prev) => ({ ...prev, fundingOverflowPercent: event.target.value }))}
+                      placeholder="10"
+                      value={form.fundingOverflowPercent}
+                    />
+                    {fieldErrors.fundingOverflowPercent ? (
+                      <p className="mt-1 text-xs text-rose-700">{fieldErrors.fundingOverflowPercent}</p>
+                    ) : null}
+                  </>
+                ) : null}
+
+                <label className="mb-1 mt-3 block text-sm font-medium text-zinc-800" htmlFor="item-payment-instructions">
+                  Payment instructions (optional)
+                </label>
+                <textarea
+                  className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                  id="item-payment-instructions"
+                  maxLength={500}
+                  onChange={(event) => setForm((prev) => ({ ...prev, paymentInstructions: event.target.value }))}
+                  placeholder="Shown only to people who pledge. Leave empty to use the wishlist default."
+                  rows={2}
+                  value={form.paymentInstructions}
+                />
+                {fieldErrors.paymentInstructions ? (
+                  <p className="mt-1 text-xs text-rose-700">{fieldErrors.paymentInstructions}</p>
+                ) : null}
               </div>
             ) : null}
 
@@ -2081,15 +2389,10 @@ export default function WishlistEditorPage() {
               const summaryParts: string[] = [];
               if (item.url) summaryParts.push(item.url);
               const liveAvailability = availabilityByItemId[item.id];
-              const contributionSummary = contributionByItemId[item.id] || {
-                fundedCents: item.fundedCents,
-                contributorCount: item.contributorCount,
-              };
-              const shortfallCents =
-                item.isGroupFunded && item.targetCents !== null
-                  ? Math.max(item.targetCents - contributionSummary.fundedCents, 0)
-                  : null;
-              const isUnderTarget = shortfallCents !== null && shortfallCents > 0;
+              const liveQuantity = quantityByItemId[item.id];
+              const contributionSummary = contributionByItemId[item.id] || summarizeContributions(item);
+              const isUnderTarget =
+                item.isGroupFunded && item.targetCents !== null && !contributionSummary.fundingReached;
 
               return (
                 <article className="rounded-xl border border-zinc-200 bg-white p-4 shadow-sm" key={item.id}>
@@ -2126,7 +2429,11 @@ export default function WishlistEditorPage() {
                               : "bg-emerald-100 text-emerald-800"
                           }`}
                         >
-                          {liveAvailability === "reserved" ? "Reserved" : "Available"}
+                          {liveAvailability === "reserved"
+                            ? "Reserved"
+                            : liveQuantity && liveQuantity.desired > 1
+                              ? `${liveQuantity.remaining} of ${liveQuantity.desired} still needed`
+                              : "Available"}
                         </p>
                       ) : null}
                     </div>
@@ -2163,10 +2470,70 @@ export default function WishlistEditorPage() {
                         <>
                           <p className="mt-1 text-xs text-zinc-600">
                             Group-funded target: {item.targetCents !== null ? `$${(item.targetCents / 100).toFixed(2)}` : "Unset"}
+                            {item.fundingOverflowMode === "allow"
+                              ? " • overpledging allowed"
+                              : item.fundingOverflowMode === "allow_percent"
+                                ? ` • up to ${item.fundingOverflowPercent ?? 0}% over`
+                                : " • capped at target"}
                           </p>
-                          {contributionSummary.contributorCount > 0 ? (
+                          {item.fundingDeadlineAt ? (
+                            <p className="mt-1 text-xs text-zinc-600">
+                              Deadline: {new Date(item.fundingDeadlineAt).toLocaleString()}
+                              {item.shortfallPolicy === "auto_extend_7d"
+                                ? " • auto-extends 7 days if short"
+                                : item.shortfallPolicy === "auto_archive"
+                                  ? " • auto-archives if short"
+                                  : ""}
+                            </p>
+                          ) : null}
+                          {contributionSummary.hasContributions ? (
                             <p className="mt-1 text-xs text-zinc-700">Someone has contributed.</p>
                           ) : null}
+                          <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-zinc-600">
+                            <span>
+                              Organizer: {item.organizerUserId ? "nominated by you" : "first contributor"}
+                            </span>
+                            <button
+                              className="font-medium text-zinc-800 underline"
+                              onClick={() => {
+                                setOrganizerItemId(organizerItemId === item.id ? null : item.id);
+                                setOrganizerEmailInput("");
+                              }}
+                              type="button"
+                            >
+                              Change
+                            </button>
+                          </div>
+                          {organizerItemId === item.id ? (
+                            <div className="mt-2 flex flex-wrap items-center gap-2">
+                              <input
+                                aria-label="Organizer email"
+                                className="w-56 rounded-md border border-zinc-300 px-3 py-1.5 text-xs outline-none focus:border-zinc-500"
+                                onChange={(event) => setOrganizerEmailInput(event.target.value)}
+                                placeholder="organizer@example.com"
+                                type="email"
+                                value={organizerEmailInput}
+                              />
+                              <button
+                                className="rounded-md bg-zinc-900 px-2.5 py-1.5 text-xs font-medium text-white disabled:opacity-60"
+                                disabled={isSavingOrganizer || !organizerEmailInput.trim()}
+                                onClick={() => void onSetOrganizer(item.id, organizerEmailInput.trim())}
+                                type="button"
+                              >
+                                Nominate
+                              </button>
+                              {item.organizerUserId ? (
+                                <button
+                                  className="rounded-md border border-zinc-300 px-2.5 py-1.5 text-xs font-medium text-zinc-800 disabled:opacity-60"
+                                  disabled={isSavingOrganizer}
+                                  onClick={() => void onSetOrganizer(item.id, null)}
+                                  type="button"
+                                >
+                                  Use first contributor
+                                </button>
+                              ) : null}
+                            </div>
+                          ) : null}
                           {isUnderTarget ? (
                             <div className="mt-2 flex flex-wrap items-center gap-2">
                               <p className="text-xs font-medium text-amber-700">Target not reached yet.</p>
@@ -2341,7 +2708,7 @@ export default function WishlistEditorPage() {
                       Group-funded target:{" "}
                       {reviewingItem.targetCents !== null ? `$${(reviewingItem.targetCents / 100).toFixed(2)}` : "Unset"}
                     </p>
-                    {(reviewingContributionSummary?.contributorCount || 0) > 0 ? (
+                    {reviewingContributionSummary?.hasContributions ? (
                       <p>Someone has contributed.</p>
                     ) : (
                       <p>No contributions yet.</p>
@@ -2371,7 +2738,7 @@ export default function WishlistEditorPage() {
               <p>
                 Target: {shortfallItem.targetCents !== null ? `$${(shortfallItem.targetCents / 100).toFixed(2)}` : "Unset"}
               </p>
-              {(shortfallContributionSummary?.contributorCount || 0) > 0 ? (
+              {shortfallContributionSummary?.hasContributions ? (
                 <p>Someone has contributed.</p>
               ) : (
                 <p>No contributions yet.</p>
@@ -24,12 +24,16 @@ type WishlistEditDraft = {
   title: string;
   occasionDate: string;
   occasionNote: string;
+  reservationHoldDays: string;
+  paymentInstructions: string;
 };
 
 type WishlistEditFieldErrors = Partial<Record<keyof WishlistEditDraft, string>>;
 
 const TITLE_MAX = 80;
 const NOTE_MAX = 200;
+const HOLD_DAYS_MAX = 90;
+const PAYMENT_INSTRUCTIONS_MAX = 500;
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
 function WishlistsContent() {
@@ -47,6 +51,8 @@ function WishlistsContent() {
     title: "",
     occasionDate: "",
     occasionNote: "",
+    reservationHoldDays: "",
+    paymentInstructions: "",
   });
   const [editFieldErrors, setEditFieldErrors] = useState<WishlistEditFieldErrors>({});
   const [editError, setEditError] = useState<string | null>(null);
@@ -181,6 +187,7 @@ function WishlistsContent() {
     const title = draft.title.trim();
     const occasionDate = draft.occasionDate.trim();
     const occasionNote = draft.occasionNote.trim();
+    const holdDays = draft.reservationHoldDays.trim();
 
     if (!title) errors.title = "Wishlist title is required.";
     if (title.length > TITLE_MAX) errors.title = `Title must be ${TITLE_MAX} characters or less.`;
@@ -190,6 +197,12 @@ function WishlistsContent() {
     if (occasionNote.length > NOTE_MAX) {
       errors.occasionNote = `Occasion note must be ${NOTE_MAX} characters or less.`;
     }
+    if (holdDays && (!/^\d+$/.test(holdDays) || Number(holdDays) < 1 || Number(holdDays) > HOLD_DAYS_MAX)) {
+      errors.reservationHoldDays = `Reservation hold must be 1 to ${HOLD_DAYS_MAX} days, or blank for no limit.`;
+    }
+    if (draft.paymentInstructions.trim().length > PAYMENT_INSTRUCTIONS_MAX) {
+      errors.paymentInstructions = `Payment instructions must be ${PAYMENT_INSTRUCTIONS_MAX} characters or less.`;
+    }
 
     return errors;
   }
@@ -202,6 +215,8 @@ function WishlistsContent() {
       title: item.title,
       occasionDate: item.occasionDate || "",
       occasionNote: item.occasionNote || "",
+      reservationHoldDays: item.reservationHoldDays !== null ? String(item.reservationHoldDays) : "",
+      paymentInstructions: item.paymentInstructions || "",
     });
   }
 
@@ -213,6 +228,8 @@ function WishlistsContent() {
       title: "",
       occasionDate: "",
       occasionNote: "",
+      reservationHoldDays: "",
+      paymentInstructions: "",
     });
   }
 
@@ -322,6 +339,8 @@ function WishlistsContent() {
           title: editDraft.title.trim(),
           occasionDate: editDraft.occasionDate.trim() || null,
           occasionNote: editDraft.occasionNote.trim() || null,
+          reservationHoldDays: editDraft.reservationHoldDays.trim() ? Number(editDraft.reservationHoldDays.trim()) : null,
+          paymentInstructions: editDraft.paymentInstructions.trim() || null,
         }),
       });
     } catch {
@@ -582,6 +601,51 @@ function WishlistsContent() {
                       ) : null}
                     </div>
 
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-zinc-700" htmlFor={`wishlist-hold-${item.id}`}>
+                        Reservation hold (days)
+                      </label>
+                      <input
+                        className="w-32 rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                        id={`wishlist-hold-${item.id}`}
+                        inputMode="numeric"
+                        onChange={(event) =>
+                          setEditDraft((current) => ({ ...current, reservationHoldDays: event.target.value }))
+                        }
+                        placeholder="No limit"
+                        value={editDraft.reservationHoldDays}
+                      />
+                      <p className="mt-1 text-xs text-zinc-600">
+                        Reservations not marked purchased or renewed within this window are released automatically.
+                      </p>
+                      {editFieldErrors.reservationHoldDays ? (
+                        <p className="mt-1 text-xs text-rose-700">{editFieldErrors.reservationHoldDays}</p>
+                      ) : null}
+                    </div>
+
+                    <div>
+                      <label className="mb-1 block text-xs font-medium text-zinc-700" htmlFor={`wishlist-payment-${item.id}`}>
+                        Payment handoff for group gifts
+                      </label>
+                      <textarea
+                        className="w-full rounded-md border border-zinc-300 px-3 py-2 text-sm outline-none focus:border-zinc-500"
+                        id={`wishlist-payment-${item.id}`}
+                        maxLength={PAYMENT_INSTRUCTIONS_MAX}
+                        onChange={(event) =>
+                          setEditDraft((current) => ({ ...current, paymentInstructions: event.target.value }))
+                        }
+                        placeholder="e.g. Venmo @sam-gifts, or give cash at the party"
+                        rows={2}
+                        value={editDraft.paymentInstructions}
+                      />
+                      <p className="mt-1 text-xs text-zinc-600">
+                        Shown only to signed-in gifters after they pledge. Items can override this.
+                      </p>
+                      {editFieldErrors.paymentInstructions ? (
+                        <p className="mt-1 text-xs text-rose-700">{editFieldErrors.paymentInstructions}</p>
+                      ) : null}
+                    </div>
+
                     {editError ? <p className="text-sm text-rose-700">{editError}</p> : null}
 
                     <div className="flex flex-wrap items-center gap-2">
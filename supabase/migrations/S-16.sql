@@ -0,0 +1,7 @@
+-- S-16: audit_events lookups by entity type for admin queries and retention purge (idempotent)
+
+create index if not exists audit_events_entity_created_idx
+  on public.audit_events (entity_type, created_at desc);
+
+create index if not exists audit_events_action_created_idx
+  on public.audit_events (action, created_at desc);
@@ -0,0 +1,7 @@
+-- S-17: indexes backing the scheduled retention purge (idempotent)
+
+create index if not exists archive_notifications_status_seen_idx
+  on public.archive_notifications (status, seen_at);
+
+create index if not exists wishlist_opens_last_opened_idx
+  on public.wishlist_opens (last_opened_at);
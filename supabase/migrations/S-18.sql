@@ -0,0 +1,7 @@
+-- S-18: index for the automatic group-funding deadline sweeper (idempotent)
+
+create index if not exists items_funding_deadline_sweep_idx
+  on public.items (funding_deadline_at, id)
+  where is_group_funded = true
+    and archived_at is null
+    and shortfall_policy in ('auto_extend_7d', 'auto_archive');
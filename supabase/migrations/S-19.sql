@@ -0,0 +1,23 @@
+-- S-19: admin role on profiles (idempotent)
+
+alter table public.profiles
+  add column if not exists role text not null default 'user';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'profiles_role_check'
+  ) then
+    alter table public.profiles
+      add constraint profiles_role_check
+      check (role in ('user', 'admin'));
+  end if;
+end $$;
+
+create index if not exists profiles_admin_role_idx
+  on public.profiles (user_id)
+  where role = 'admin';
+
+-- Bootstrap the first admin once, then manage roles from /admin/abuse:
+-- insert into public.profiles (user_id, role) values ('<auth user id>', 'admin')
+--   on conflict (user_id) do update set role = 'admin';
@@ -0,0 +1,33 @@
+-- S-20: profiles mirror auth email for id/email lookups without listUsers (idempotent)
+
+alter table public.profiles
+  add column if not exists email text null;
+
+create unique index if not exists profiles_email_unique_idx
+  on public.profiles (email)
+  where email is not null;
+
+create or replace function public.sync_profile_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (user_id, email)
+  values (new.id, lower(new.email))
+  on conflict (user_id) do update set email = excluded.email;
+  return new;
+end;
+$$;
+
+drop trigger if exists auth_users_sync_profile_email on auth.users;
+create trigger auth_users_sync_profile_email
+  after insert or update of email on auth.users
+  for each row execute function public.sync_profile_email();
+
+insert into public.profiles (user_id, email)
+select id, lower(email)
+from auth.users
+where email is not null
+on conflict (user_id) do update set email = excluded.email;
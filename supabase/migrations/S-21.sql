@@ -0,0 +1,28 @@
+-- S-21: durable idempotency keys for public mutations and share-link rotation (idempotent)
+
+create table if not exists public.idempotency_keys (
+  scope text not null,
+  actor_user_id uuid not null references auth.users(id) on delete cascade,
+  key text not null,
+  payload_hash text not null,
+  status text not null default 'pending',
+  response_status integer null,
+  response_body jsonb null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  primary key (scope, actor_user_id, key)
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'idempotency_keys_status_check'
+  ) then
+    alter table public.idempotency_keys
+      add constraint idempotency_keys_status_check
+      check (status in ('pending', 'completed'));
+  end if;
+end $$;
+
+create index if not exists idempotency_keys_expires_idx
+  on public.idempotency_keys (expires_at);
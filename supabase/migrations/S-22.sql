@@ -0,0 +1,76 @@
+-- S-22: shared sliding-window rate limiter and recorded limit hits (idempotent)
+
+create table if not exists public.rate_limit_hits (
+  id bigint generated always as identity primary key,
+  bucket_key text not null,
+  hit_at timestamptz not null default now()
+);
+
+create index if not exists rate_limit_hits_bucket_idx
+  on public.rate_limit_hits (bucket_key, hit_at);
+
+create index if not exists rate_limit_hits_hit_at_idx
+  on public.rate_limit_hits (hit_at);
+
+create table if not exists public.rate_limit_events (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null,
+  subject_kind text not null,
+  subject_label text not null,
+  actor_user_id uuid null references auth.users(id) on delete set null,
+  ip_address text null,
+  share_token_hint text null,
+  limit_count integer not null,
+  window_sec integer not null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'rate_limit_events_subject_kind_check'
+  ) then
+    alter table public.rate_limit_events
+      add constraint rate_limit_events_subject_kind_check
+      check (subject_kind in ('actor', 'ip', 'share_token'));
+  end if;
+end $$;
+
+create index if not exists rate_limit_events_created_idx
+  on public.rate_limit_events (created_at desc);
+
+create or replace function public.consume_rate_limit(p_bucket text, p_limit integer, p_window_ms integer)
+returns table (allowed boolean, retry_after_ms integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_window interval := make_interval(secs => p_window_ms / 1000.0);
+  v_count integer;
+  v_oldest timestamptz;
+begin
+  perform pg_advisory_xact_lock(hashtextextended(p_bucket, 0));
+
+  delete from public.rate_limit_hits
+  where bucket_key = p_bucket
+    and hit_at <= v_now - v_window;
+
+  select count(*), min(hit_at)
+  into v_count, v_oldest
+  from public.rate_limit_hits
+  where bucket_key = p_bucket;
+
+  if v_count >= p_limit then
+    return query
+      select false, greatest(1, ceil(extract(epoch from (v_oldest + v_window - v_now)) * 1000)::integer);
+    return;
+  end if;
+
+  insert into public.rate_limit_hits (bucket_key, hit_at) values (p_bucket, v_now);
+  return query select true, 0;
+end;
+$$;
+
+revoke all on function public.consume_rate_limit(text, integer, integer) from public, anon, authenticated;
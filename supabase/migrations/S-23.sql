@@ -0,0 +1,113 @@
+-- S-23: atomic reserve/unreserve with item version bump (idempotent)
+
+create or replace function public.reserve_item(p_wishlist_id uuid, p_item_id uuid, p_user_id uuid)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_active public.reservations%rowtype;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at;
+    return;
+  end if;
+
+  select * into v_active
+  from public.reservations
+  where item_id = p_item_id
+    and status = 'active';
+
+  if found then
+    if v_active.user_id = p_user_id then
+      return query select 'ALREADY_ACTIVE'::text, v_active.id, v_item.updated_at;
+    else
+      return query select 'ALREADY_RESERVED'::text, null::uuid, v_item.updated_at;
+    end if;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'active', updated_at = v_now
+  where id = (
+    select id from public.reservations
+    where item_id = p_item_id
+      and user_id = p_user_id
+      and status = 'released'
+    order by updated_at desc
+    limit 1
+  )
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    insert into public.reservations (wishlist_id, item_id, user_id, status, created_at, updated_at)
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'active', v_now, v_now)
+    returning id into v_reservation_id;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RESERVED'::text, v_reservation_id, v_now;
+end;
+$$;
+
+create or replace function public.unreserve_item(p_wishlist_id uuid, p_item_id uuid, p_user_id uuid)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'released', updated_at = v_now
+  where item_id = p_item_id
+    and user_id = p_user_id
+    and status = 'active'
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    return query select 'NO_ACTIVE_RESERVATION'::text, null::uuid, v_item.updated_at;
+    return;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RELEASED'::text, v_reservation_id, v_now;
+end;
+$$;
+
+revoke all on function public.reserve_item(uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.unreserve_item(uuid, uuid, uuid) from public, anon, authenticated;
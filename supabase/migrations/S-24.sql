@@ -0,0 +1,113 @@
+-- S-24: group-funding overflow modes and capped pledges (idempotent)
+
+-- Items that predate overflow modes keep accepting pledges past target; new items default to capped.
+alter table public.items
+  add column if not exists funding_overflow_mode text not null default 'allow',
+  add column if not exists funding_overflow_percent integer null;
+
+alter table public.items
+  alter column funding_overflow_mode set default 'cap';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'items_funding_overflow_mode_check'
+  ) then
+    alter table public.items
+      add constraint items_funding_overflow_mode_check
+      check (funding_overflow_mode in ('cap', 'allow', 'allow_percent'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'items_funding_overflow_percent_check'
+  ) then
+    alter table public.items
+      add constraint items_funding_overflow_percent_check
+      check (
+        (funding_overflow_mode = 'allow_percent' and funding_overflow_percent between 1 and 100)
+        or (funding_overflow_mode <> 'allow_percent' and funding_overflow_percent is null)
+      );
+  end if;
+end $$;
+
+create or replace function public.contribute_to_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_amount_cents integer
+)
+returns table (outcome text, contribution_id uuid, created_at timestamptz, max_allowed_cents integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_target integer;
+  v_cap integer;
+  v_funded integer;
+  v_max_allowed integer;
+  v_contribution_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if not v_item.is_group_funded then
+    return query select 'NOT_GROUP_FUNDED'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if p_amount_cents is null or p_amount_cents < 100 then
+    return query select 'INVALID_AMOUNT'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  v_target := case
+    when v_item.target_cents > 0 then v_item.target_cents
+    when v_item.price_cents > 0 then v_item.price_cents
+    else null
+  end;
+
+  v_cap := case
+    when v_target is null then null
+    when v_item.funding_overflow_mode = 'cap' then v_target
+    when v_item.funding_overflow_mode = 'allow_percent' then v_target + (v_target * v_item.funding_overflow_percent) / 100
+    else null
+  end;
+
+  if v_cap is not null then
+    select coalesce(sum(c.amount_cents), 0)::integer into v_funded
+    from public.contributions c
+    where c.item_id = p_item_id;
+
+    v_max_allowed := greatest(v_cap - v_funded, 0);
+    if p_amount_cents > v_max_allowed then
+      return query select 'OVER_TARGET'::text, null::uuid, null::timestamptz, v_max_allowed;
+      return;
+    end if;
+  end if;
+
+  insert into public.contributions (item_id, user_id, amount_cents, created_at)
+  values (p_item_id, p_user_id, p_amount_cents, v_now)
+  returning id into v_contribution_id;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'CONTRIBUTED'::text, v_contribution_id, v_now, null::integer;
+end;
+$$;
+
+revoke all on function public.contribute_to_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
@@ -0,0 +1,123 @@
+-- S-25: multi-quantity items and quantity-claiming reservations (idempotent)
+
+alter table public.items
+  add column if not exists quantity_desired integer not null default 1;
+
+alter table public.reservations
+  add column if not exists quantity integer not null default 1;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'items_quantity_desired_check'
+  ) then
+    alter table public.items
+      add constraint items_quantity_desired_check
+      check (quantity_desired between 1 and 999);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservations_quantity_check'
+  ) then
+    alter table public.reservations
+      add constraint reservations_quantity_check
+      check (quantity >= 1);
+  end if;
+end $$;
+
+-- Several gifters may now hold the same item; each keeps at most one active claim.
+drop index if exists public.reservations_one_active_item_idx;
+
+create unique index if not exists reservations_one_active_actor_item_idx
+  on public.reservations (item_id, user_id)
+  where status = 'active';
+
+drop function if exists public.reserve_item(uuid, uuid, uuid);
+
+create or replace function public.reserve_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_quantity integer default 1
+)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz, quantity_remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_own public.reservations%rowtype;
+  v_claimed integer;
+  v_remaining integer;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at, null::integer;
+    return;
+  end if;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status = 'active';
+
+  v_remaining := greatest(v_item.quantity_desired - v_claimed, 0);
+
+  select * into v_own
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.user_id = p_user_id
+    and r.status = 'active';
+
+  if found then
+    return query select 'ALREADY_ACTIVE'::text, v_own.id, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  if v_remaining = 0 then
+    return query select 'ALREADY_RESERVED'::text, null::uuid, v_item.updated_at, 0;
+    return;
+  end if;
+
+  if p_quantity > v_remaining then
+    return query select 'QUANTITY_UNAVAILABLE'::text, null::uuid, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'active', quantity = p_quantity, updated_at = v_now
+  where id = (
+    select r.id from public.reservations r
+    where r.item_id = p_item_id
+      and r.user_id = p_user_id
+      and r.status = 'released'
+    order by r.updated_at desc
+    limit 1
+  )
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    insert into public.reservations (wishlist_id, item_id, user_id, status, quantity, created_at, updated_at)
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'active', p_quantity, v_now, v_now)
+    returning id into v_reservation_id;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RESERVED'::text, v_reservation_id, v_now, v_remaining - p_quantity;
+end;
+$$;
+
+revoke all on function public.reserve_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
@@ -0,0 +1,155 @@
+-- S-26: purchased reservations for the gifter shopping list (idempotent)
+
+alter table public.reservations
+  add column if not exists purchased_at timestamptz;
+
+alter table public.reservations
+  drop constraint if exists reservations_status_check;
+
+alter table public.reservations
+  add constraint reservations_status_check
+  check (status in ('active', 'purchased', 'released'));
+
+-- Purchased reservations still hold their quantity on the item.
+drop index if exists public.reservations_one_active_actor_item_idx;
+
+create unique index if not exists reservations_one_held_actor_item_idx
+  on public.reservations (item_id, user_id)
+  where status in ('active', 'purchased');
+
+create index if not exists reservations_user_held_idx
+  on public.reservations (user_id, updated_at desc)
+  where status in ('active', 'purchased');
+
+create or replace function public.reserve_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_quantity integer default 1
+)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz, quantity_remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_own public.reservations%rowtype;
+  v_claimed integer;
+  v_remaining integer;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at, null::integer;
+    return;
+  end if;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status in ('active', 'purchased');
+
+  v_remaining := greatest(v_item.quantity_desired - v_claimed, 0);
+
+  select * into v_own
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.user_id = p_user_id
+    and r.status in ('active', 'purchased');
+
+  if found then
+    return query select 'ALREADY_ACTIVE'::text, v_own.id, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  if v_remaining = 0 then
+    return query select 'ALREADY_RESERVED'::text, null::uuid, v_item.updated_at, 0;
+    return;
+  end if;
+
+  if p_quantity > v_remaining then
+    return query select 'QUANTITY_UNAVAILABLE'::text, null::uuid, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'active', quantity = p_quantity, purchased_at = null, updated_at = v_now
+  where id = (
+    select r.id from public.reservations r
+    where r.item_id = p_item_id
+      and r.user_id = p_user_id
+      and r.status = 'released'
+    order by r.updated_at desc
+    limit 1
+  )
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    insert into public.reservations (wishlist_id, item_id, user_id, status, quantity, created_at, updated_at)
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'active', p_quantity, v_now, v_now)
+    returning id into v_reservation_id;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RESERVED'::text, v_reservation_id, v_now, v_remaining - p_quantity;
+end;
+$$;
+
+create or replace function public.unreserve_item(p_wishlist_id uuid, p_item_id uuid, p_user_id uuid)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'released', purchased_at = null, updated_at = v_now
+  where item_id = p_item_id
+    and user_id = p_user_id
+    and status in ('active', 'purchased')
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    return query select 'NO_ACTIVE_RESERVATION'::text, null::uuid, v_item.updated_at;
+    return;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RELEASED'::text, v_reservation_id, v_now;
+end;
+$$;
+
+revoke all on function public.reserve_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
+revoke all on function public.unreserve_item(uuid, uuid, uuid) from public, anon, authenticated;
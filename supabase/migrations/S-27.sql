@@ -0,0 +1,193 @@
+-- S-27: per-wishlist reservation hold windows with reminders and automatic release (idempotent)
+
+alter table public.wishlists
+  add column if not exists reservation_hold_days integer;
+
+alter table public.reservations
+  add column if not exists hold_expires_at timestamptz;
+
+alter table public.reservations
+  add column if not exists hold_reminded_at timestamptz;
+
+alter table public.archive_notifications
+  add column if not exists kind text not null default 'archived';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'wishlists_reservation_hold_days_check'
+  ) then
+    alter table public.wishlists
+      add constraint wishlists_reservation_hold_days_check
+      check (reservation_hold_days is null or reservation_hold_days between 1 and 90);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'archive_notifications_kind_check'
+  ) then
+    alter table public.archive_notifications
+      add constraint archive_notifications_kind_check
+      check (kind in ('archived', 'hold_reminder', 'hold_released'));
+  end if;
+end $$;
+
+create index if not exists reservations_active_hold_expiry_idx
+  on public.reservations (hold_expires_at)
+  where status = 'active' and hold_expires_at is not null;
+
+create or replace function public.reserve_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_quantity integer default 1
+)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz, quantity_remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_own public.reservations%rowtype;
+  v_claimed integer;
+  v_remaining integer;
+  v_reservation_id uuid;
+  v_hold_days integer;
+  v_hold_expires_at timestamptz;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at, null::integer;
+    return;
+  end if;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status in ('active', 'purchased');
+
+  v_remaining := greatest(v_item.quantity_desired - v_claimed, 0);
+
+  select * into v_own
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.user_id = p_user_id
+    and r.status in ('active', 'purchased');
+
+  if found then
+    return query select 'ALREADY_ACTIVE'::text, v_own.id, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  if v_remaining = 0 then
+    return query select 'ALREADY_RESERVED'::text, null::uuid, v_item.updated_at, 0;
+    return;
+  end if;
+
+  if p_quantity > v_remaining then
+    return query select 'QUANTITY_UNAVAILABLE'::text, null::uuid, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  select w.reservation_hold_days into v_hold_days
+  from public.wishlists w
+  where w.id = v_item.wishlist_id;
+
+  v_hold_expires_at := case when v_hold_days is null then null else v_now + make_interval(days => v_hold_days) end;
+
+  update public.reservations
+  set status = 'active',
+    quantity = p_quantity,
+    purchased_at = null,
+    hold_expires_at = v_hold_expires_at,
+    hold_reminded_at = null,
+    updated_at = v_now
+  where id = (
+    select r.id from public.reservations r
+    where r.item_id = p_item_id
+      and r.user_id = p_user_id
+      and r.status = 'released'
+    order by r.updated_at desc
+    limit 1
+  )
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    insert into public.reservations (
+      wishlist_id, item_id, user_id, status, quantity, hold_expires_at, created_at, updated_at
+    )
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'active', p_quantity, v_hold_expires_at, v_now, v_now)
+    returning id into v_reservation_id;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RESERVED'::text, v_reservation_id, v_now, v_remaining - p_quantity;
+end;
+$$;
+
+create or replace function public.release_expired_reservation_hold(p_reservation_id uuid, p_now timestamptz)
+returns table (
+  outcome text,
+  wishlist_id uuid,
+  item_id uuid,
+  user_id uuid,
+  item_title text,
+  item_price_cents integer,
+  item_updated_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_item public.items%rowtype;
+begin
+  select * into v_reservation
+  from public.reservations r
+  where r.id = p_reservation_id;
+
+  if not found then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::uuid, null::text, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_item
+  from public.items i
+  where i.id = v_reservation.item_id
+  for update;
+
+  -- Re-read under the item lock: the gifter may have renewed or purchased since the sweep listed this row.
+  update public.reservations r
+  set status = 'released', hold_reminded_at = null, updated_at = p_now
+  where r.id = p_reservation_id
+    and r.status = 'active'
+    and r.hold_expires_at is not null
+    and r.hold_expires_at <= p_now;
+
+  if not found then
+    return query select 'SKIPPED'::text, v_reservation.wishlist_id, v_reservation.item_id, v_reservation.user_id,
+      v_item.title, v_item.price_cents, v_item.updated_at;
+    return;
+  end if;
+
+  update public.items set updated_at = p_now where id = v_reservation.item_id;
+
+  return query select 'RELEASED'::text, v_reservation.wishlist_id, v_reservation.item_id, v_reservation.user_id,
+    v_item.title, v_item.price_cents, p_now;
+end;
+$$;
+
+revoke all on function public.reserve_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
+revoke all on function public.release_expired_reservation_hold(uuid, timestamptz) from public, anon, authenticated;
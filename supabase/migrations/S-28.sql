@@ -0,0 +1,335 @@
+-- S-28: reservation waitlist with a head-start window for the first waiting gifter (idempotent)
+
+create table if not exists public.reservation_waitlist (
+  id uuid primary key default gen_random_uuid(),
+  wishlist_id uuid not null references public.wishlists(id) on delete cascade,
+  item_id uuid not null references public.items(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'waiting',
+  notified_at timestamptz null,
+  head_start_expires_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservation_waitlist_status_check'
+  ) then
+    alter table public.reservation_waitlist
+      add constraint reservation_waitlist_status_check
+      check (status in ('waiting', 'notified', 'fulfilled', 'cancelled', 'expired'));
+  end if;
+
+  if exists (
+    select 1 from pg_constraint
+    where conname = 'archive_notifications_kind_check'
+      and pg_get_constraintdef(oid) not like '%waitlist_available%'
+  ) then
+    alter table public.archive_notifications drop constraint archive_notifications_kind_check;
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'archive_notifications_kind_check'
+  ) then
+    alter table public.archive_notifications
+      add constraint archive_notifications_kind_check
+      check (kind in ('archived', 'hold_reminder', 'hold_released', 'waitlist_available'));
+  end if;
+end $$;
+
+create unique index if not exists reservation_waitlist_open_item_user_idx
+  on public.reservation_waitlist (item_id, user_id)
+  where status in ('waiting', 'notified');
+
+create index if not exists reservation_waitlist_item_queue_idx
+  on public.reservation_waitlist (item_id, status, created_at);
+
+create index if not exists reservation_waitlist_user_idx
+  on public.reservation_waitlist (user_id, wishlist_id)
+  where status in ('waiting', 'notified');
+
+create or replace function public.reserve_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_quantity integer default 1
+)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz, quantity_remaining integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_own public.reservations%rowtype;
+  v_claimed integer;
+  v_head_starts integer;
+  v_remaining integer;
+  v_reservation_id uuid;
+  v_hold_days integer;
+  v_hold_expires_at timestamptz;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at, null::integer;
+    return;
+  end if;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status in ('active', 'purchased');
+
+  -- A running head start holds one unit for the waitlisted gifter it was granted to.
+  select count(*)::integer into v_head_starts
+  from public.reservation_waitlist w
+  where w.item_id = p_item_id
+    and w.status = 'notified'
+    and w.head_start_expires_at > v_now
+    and w.user_id <> p_user_id;
+
+  v_remaining := greatest(v_item.quantity_desired - v_claimed - v_head_starts, 0);
+
+  select * into v_own
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.user_id = p_user_id
+    and r.status in ('active', 'purchased');
+
+  if found then
+    return query select 'ALREADY_ACTIVE'::text, v_own.id, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  if v_remaining = 0 then
+    return query select 'ALREADY_RESERVED'::text, null::uuid, v_item.updated_at, 0;
+    return;
+  end if;
+
+  if p_quantity > v_remaining then
+    return query select 'QUANTITY_UNAVAILABLE'::text, null::uuid, v_item.updated_at, v_remaining;
+    return;
+  end if;
+
+  select w.reservation_hold_days into v_hold_days
+  from public.wishlists w
+  where w.id = v_item.wishlist_id;
+
+  v_hold_expires_at := case when v_hold_days is null then null else v_now + make_interval(days => v_hold_days) end;
+
+  update public.reservations
+  set status = 'active',
+    quantity = p_quantity,
+    purchased_at = null,
+    hold_expires_at = v_hold_expires_at,
+    hold_reminded_at = null,
+    updated_at = v_now
+  where id = (
+    select r.id from public.reservations r
+    where r.item_id = p_item_id
+      and r.user_id = p_user_id
+      and r.status = 'released'
+    order by r.updated_at desc
+    limit 1
+  )
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    insert into public.reservations (
+      wishlist_id, item_id, user_id, status, quantity, hold_expires_at, created_at, updated_at
+    )
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'active', p_quantity, v_hold_expires_at, v_now, v_now)
+    returning id into v_reservation_id;
+  end if;
+
+  update public.reservation_waitlist
+  set status = 'fulfilled', updated_at = v_now
+  where item_id = p_item_id
+    and user_id = p_user_id
+    and status in ('waiting', 'notified');
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  return query select 'RESERVED'::text, v_reservation_id, v_now, v_remaining - p_quantity;
+end;
+$$;
+
+create or replace function public.join_reservation_waitlist(p_wishlist_id uuid, p_item_id uuid, p_user_id uuid)
+returns table (outcome text, waitlist_id uuid, waitlist_position integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_entry public.reservation_waitlist%rowtype;
+  v_claimed integer;
+  v_head_starts integer;
+  v_now timestamptz := now();
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::integer;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, null::integer;
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.reservations r
+    where r.item_id = p_item_id
+      and r.user_id = p_user_id
+      and r.status in ('active', 'purchased')
+  ) then
+    return query select 'ALREADY_ACTIVE'::text, null::uuid, null::integer;
+    return;
+  end if;
+
+  select * into v_entry
+  from public.reservation_waitlist w
+  where w.item_id = p_item_id
+    and w.user_id = p_user_id
+    and w.status in ('waiting', 'notified');
+
+  if not found then
+    select coalesce(sum(r.quantity), 0)::integer into v_claimed
+    from public.reservations r
+    where r.item_id = p_item_id
+      and r.status in ('active', 'purchased');
+
+    select count(*)::integer into v_head_starts
+    from public.reservation_waitlist w
+    where w.item_id = p_item_id
+      and w.status = 'notified'
+      and w.head_start_expires_at > v_now;
+
+    if v_item.quantity_desired - v_claimed - v_head_starts > 0 then
+      return query select 'AVAILABLE'::text, null::uuid, null::integer;
+      return;
+    end if;
+
+    insert into public.reservation_waitlist (wishlist_id, item_id, user_id, status, created_at, updated_at)
+    values (v_item.wishlist_id, p_item_id, p_user_id, 'waiting', v_now, v_now)
+    returning * into v_entry;
+  end if;
+
+  return query
+  select
+    case when v_entry.created_at = v_now then 'WAITLISTED' else 'ALREADY_WAITLISTED' end::text,
+    v_entry.id,
+    (
+      select count(*)::integer
+      from public.reservation_waitlist w
+      where w.item_id = p_item_id
+        and w.status = 'waiting'
+        and w.created_at <= v_entry.created_at
+    );
+end;
+$$;
+
+create or replace function public.grant_waitlist_head_start(
+  p_item_id uuid,
+  p_now timestamptz,
+  p_head_start_minutes integer
+)
+returns table (
+  waitlist_id uuid,
+  wishlist_id uuid,
+  item_id uuid,
+  user_id uuid,
+  item_title text,
+  item_price_cents integer,
+  head_start_expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_entry public.reservation_waitlist%rowtype;
+  v_claimed integer;
+  v_head_starts integer;
+  v_free integer;
+  v_expires_at timestamptz := p_now + make_interval(mins => p_head_start_minutes);
+begin
+  select * into v_item
+  from public.items i
+  where i.id = p_item_id
+  for update;
+
+  if not found or v_item.archived_at is not null then
+    return;
+  end if;
+
+  update public.reservation_waitlist w
+  set status = 'expired', updated_at = p_now
+  where w.item_id = p_item_id
+    and w.status = 'notified'
+    and w.head_start_expires_at <= p_now;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status in ('active', 'purchased');
+
+  select count(*)::integer into v_head_starts
+  from public.reservation_waitlist w
+  where w.item_id = p_item_id
+    and w.status = 'notified';
+
+  v_free := greatest(v_item.quantity_desired - v_claimed - v_head_starts, 0);
+  if v_free = 0 then
+    return;
+  end if;
+
+  for v_entry in
+    select w.* from public.reservation_waitlist w
+    where w.item_id = p_item_id
+      and w.status = 'waiting'
+      and not exists (
+        select 1 from public.reservations r
+        where r.item_id = w.item_id
+          and r.user_id = w.user_id
+          and r.status in ('active', 'purchased')
+      )
+    order by w.created_at, w.id
+    limit v_free
+    for update
+  loop
+    update public.reservation_waitlist w
+    set status = 'notified', notified_at = p_now, head_start_expires_at = v_expires_at, updated_at = p_now
+    where w.id = v_entry.id;
+
+    return query select v_entry.id, v_entry.wishlist_id, v_entry.item_id, v_entry.user_id,
+      v_item.title, v_item.price_cents, v_expires_at;
+  end loop;
+
+  if found then
+    update public.items i set updated_at = p_now where i.id = p_item_id;
+  end if;
+end;
+$$;
+
+revoke all on function public.reserve_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
+revoke all on function public.join_reservation_waitlist(uuid, uuid, uuid) from public, anon, authenticated;
+revoke all on function public.grant_waitlist_head_start(uuid, timestamptz, integer) from public, anon, authenticated;
@@ -0,0 +1,137 @@
+-- S-29: pledge withdrawal and reduction through append-only reversal rows (idempotent)
+
+alter table public.contributions
+  add column if not exists reverses_contribution_id uuid null references public.contributions(id) on delete cascade;
+
+alter table public.contributions
+  add column if not exists reversal_kind text null;
+
+do $$
+begin
+  if exists (
+    select 1 from pg_constraint
+    where conname = 'contributions_amount_check'
+      and pg_get_constraintdef(oid) not like '%reverses_contribution_id%'
+  ) then
+    alter table public.contributions drop constraint contributions_amount_check;
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'contributions_amount_check'
+  ) then
+    alter table public.contributions
+      add constraint contributions_amount_check
+      check (
+        (reverses_contribution_id is null and amount_cents >= 100)
+        or (reverses_contribution_id is not null and amount_cents < 0)
+      );
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'contributions_reversal_kind_check'
+  ) then
+    alter table public.contributions
+      add constraint contributions_reversal_kind_check
+      check (
+        (reverses_contribution_id is null and reversal_kind is null)
+        or (reverses_contribution_id is not null and reversal_kind in ('withdraw', 'reduce'))
+      );
+  end if;
+end $$;
+
+create index if not exists contributions_reverses_idx
+  on public.contributions (reverses_contribution_id)
+  where reverses_contribution_id is not null;
+
+create or replace function public.reverse_contribution(
+  p_wishlist_id uuid,
+  p_contribution_id uuid,
+  p_user_id uuid,
+  p_new_amount_cents integer,
+  p_window_minutes integer
+)
+returns table (
+  outcome text,
+  reversal_id uuid,
+  item_id uuid,
+  amount_cents integer,
+  remaining_cents integer,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_original public.contributions%rowtype;
+  v_item public.items%rowtype;
+  v_net integer;
+  v_reversal_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_original
+  from public.contributions c
+  where c.id = p_contribution_id
+    and c.user_id = p_user_id
+    and c.reverses_contribution_id is null;
+
+  if not found then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_item
+  from public.items i
+  where i.id = v_original.item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.id, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  if v_original.created_at + make_interval(mins => p_window_minutes) <= v_now then
+    return query select 'WINDOW_CLOSED'::text, null::uuid, v_item.id, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  select v_original.amount_cents + coalesce(sum(c.amount_cents), 0)::integer into v_net
+  from public.contributions c
+  where c.reverses_contribution_id = p_contribution_id;
+
+  if v_net <= 0 then
+    return query select 'ALREADY_WITHDRAWN'::text, null::uuid, v_item.id, null::integer, 0, null::timestamptz;
+    return;
+  end if;
+
+  if p_new_amount_cents is null
+    or p_new_amount_cents < 0
+    or p_new_amount_cents >= v_net
+    or (p_new_amount_cents > 0 and p_new_amount_cents < 100) then
+    return query select 'INVALID_AMOUNT'::text, null::uuid, v_item.id, null::integer, v_net, null::timestamptz;
+    return;
+  end if;
+
+  insert into public.contributions (item_id, user_id, amount_cents, reverses_contribution_id, reversal_kind, created_at)
+  values (
+    v_item.id,
+    p_user_id,
+    p_new_amount_cents - v_net,
+    p_contribution_id,
+    case when p_new_amount_cents = 0 then 'withdraw' else 'reduce' end,
+    v_now
+  )
+  returning id into v_reversal_id;
+
+  update public.items i set updated_at = v_now where i.id = v_item.id;
+
+  return query select 'REVERSED'::text, v_reversal_id, v_item.id, p_new_amount_cents - v_net, p_new_amount_cents, v_now;
+end;
+$$;
+
+revoke all on function public.reverse_contribution(uuid, uuid, uuid, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,248 @@
+-- S-30: pledge fulfillment status (pledged -> paid -> confirmed) and group-gift organizers (idempotent)
+
+alter table public.contributions
+  add column if not exists fulfillment_status text not null default 'pledged',
+  add column if not exists payment_method text null,
+  add column if not exists paid_at timestamptz null,
+  add column if not exists confirmed_at timestamptz null,
+  add column if not exists confirmed_by uuid null references auth.users(id) on delete set null;
+
+alter table public.items
+  add column if not exists organizer_user_id uuid null references auth.users(id) on delete set null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'contributions_fulfillment_status_check'
+  ) then
+    alter table public.contributions
+      add constraint contributions_fulfillment_status_check
+      check (fulfillment_status in ('pledged', 'paid', 'confirmed'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'contributions_payment_method_check'
+  ) then
+    alter table public.contributions
+      add constraint contributions_payment_method_check
+      check (payment_method is null or char_length(payment_method) <= 200);
+  end if;
+end $$;
+
+-- The nominated organizer, or else the earliest contributor whose pledge is not fully withdrawn.
+create or replace function public.item_organizer_user_id(p_item_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select i.organizer_user_id from public.items i where i.id = p_item_id),
+    (
+      select c.user_id
+      from public.contributions c
+      where c.item_id = p_item_id
+        and c.reverses_contribution_id is null
+        and c.amount_cents + coalesce((
+          select sum(r.amount_cents) from public.contributions r where r.reverses_contribution_id = c.id
+        ), 0) > 0
+      order by c.created_at, c.id
+      limit 1
+    )
+  );
+$$;
+
+create or replace function public.set_contribution_fulfillment(
+  p_wishlist_id uuid,
+  p_contribution_id uuid,
+  p_user_id uuid,
+  p_action text,
+  p_payment_method text default null
+)
+returns table (outcome text, item_id uuid, fulfillment_status text, item_updated_at timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_contribution public.contributions%rowtype;
+  v_item public.items%rowtype;
+  v_net integer;
+  v_now timestamptz := now();
+begin
+  select * into v_contribution
+  from public.contributions c
+  where c.id = p_contribution_id
+    and c.reverses_contribution_id is null;
+
+  if not found then
+    return query select 'NOT_FOUND'::text, null::uuid, null::text, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_item
+  from public.items i
+  where i.id = v_contribution.item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::text, null::timestamptz;
+    return;
+  end if;
+
+  if p_action = 'mark_paid' and v_contribution.user_id <> p_user_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::text, null::timestamptz;
+    return;
+  end if;
+
+  if p_action = 'confirm' and public.item_organizer_user_id(v_item.id) is distinct from p_user_id then
+    return query select 'FORBIDDEN'::text, v_item.id, v_contribution.fulfillment_status, v_item.updated_at;
+    return;
+  end if;
+
+  if p_action not in ('mark_paid', 'confirm') then
+    return query select 'INVALID_ACTION'::text, v_item.id, v_contribution.fulfillment_status, v_item.updated_at;
+    return;
+  end if;
+
+  select v_contribution.amount_cents + coalesce(sum(c.amount_cents), 0)::integer into v_net
+  from public.contributions c
+  where c.reverses_contribution_id = p_contribution_id;
+
+  if v_net <= 0 then
+    return query select 'WITHDRAWN'::text, v_item.id, v_contribution.fulfillment_status, v_item.updated_at;
+    return;
+  end if;
+
+  if v_contribution.fulfillment_status = 'confirmed' then
+    return query select 'ALREADY_CONFIRMED'::text, v_item.id, v_contribution.fulfillment_status, v_item.updated_at;
+    return;
+  end if;
+
+  if p_action = 'mark_paid' then
+    update public.contributions c
+    set fulfillment_status = 'paid',
+      payment_method = nullif(btrim(coalesce(p_payment_method, '')), ''),
+      paid_at = v_now
+    where c.id = p_contribution_id;
+  else
+    update public.contributions c
+    set fulfillment_status = 'confirmed',
+      paid_at = coalesce(c.paid_at, v_now),
+      confirmed_at = v_now,
+      confirmed_by = p_user_id
+    where c.id = p_contribution_id;
+  end if;
+
+  update public.items i set updated_at = v_now where i.id = v_item.id;
+
+  return query select 'UPDATED'::text, v_item.id,
+    case when p_action = 'mark_paid' then 'paid' else 'confirmed' end::text, v_now;
+end;
+$$;
+
+create or replace function public.reverse_contribution(
+  p_wishlist_id uuid,
+  p_contribution_id uuid,
+  p_user_id uuid,
+  p_new_amount_cents integer,
+  p_window_minutes integer
+)
+returns table (
+  outcome text,
+  reversal_id uuid,
+  item_id uuid,
+  amount_cents integer,
+  remaining_cents integer,
+  created_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_original public.contributions%rowtype;
+  v_item public.items%rowtype;
+  v_net integer;
+  v_reversal_id uuid;
+  v_now timestamptz := now();
+begin
+  select * into v_original
+  from public.contributions c
+  where c.id = p_contribution_id
+    and c.user_id = p_user_id
+    and c.reverses_contribution_id is null;
+
+  if not found then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  select * into v_item
+  from public.items i
+  where i.id = v_original.item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.id, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  -- Re-read under the item lock so a concurrent mark-paid wins over a late withdrawal.
+  select c.fulfillment_status into v_original.fulfillment_status
+  from public.contributions c
+  where c.id = p_contribution_id;
+
+  if v_original.fulfillment_status <> 'pledged' then
+    return query select 'ALREADY_PAID'::text, null::uuid, v_item.id, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  if v_original.created_at + make_interval(mins => p_window_minutes) <= v_now then
+    return query select 'WINDOW_CLOSED'::text, null::uuid, v_item.id, null::integer, null::integer, null::timestamptz;
+    return;
+  end if;
+
+  select v_original.amount_cents + coalesce(sum(c.amount_cents), 0)::integer into v_net
+  from public.contributions c
+  where c.reverses_contribution_id = p_contribution_id;
+
+  if v_net <= 0 then
+    return query select 'ALREADY_WITHDRAWN'::text, null::uuid, v_item.id, null::integer, 0, null::timestamptz;
+    return;
+  end if;
+
+  if p_new_amount_cents is null
+    or p_new_amount_cents < 0
+    or p_new_amount_cents >= v_net
+    or (p_new_amount_cents > 0 and p_new_amount_cents < 100) then
+    return query select 'INVALID_AMOUNT'::text, null::uuid, v_item.id, null::integer, v_net, null::timestamptz;
+    return;
+  end if;
+
+  insert into public.contributions (item_id, user_id, amount_cents, reverses_contribution_id, reversal_kind, created_at)
+  values (
+    v_item.id,
+    p_user_id,
+    p_new_amount_cents - v_net,
+    p_contribution_id,
+    case when p_new_amount_cents = 0 then 'withdraw' else 'reduce' end,
+    v_now
+  )
+  returning id into v_reversal_id;
+
+  update public.items i set updated_at = v_now where i.id = v_item.id;
+
+  return query select 'REVERSED'::text, v_reversal_id, v_item.id, p_new_amount_cents - v_net, p_new_amount_cents, v_now;
+end;
+$$;
+
+revoke all on function public.item_organizer_user_id(uuid) from public, anon, authenticated;
+revoke all on function public.set_contribution_fulfillment(uuid, uuid, uuid, text, text) from public, anon, authenticated;
+revoke all on function public.reverse_contribution(uuid, uuid, uuid, integer, integer) from public, anon, authenticated;
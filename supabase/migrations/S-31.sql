@@ -0,0 +1,26 @@
+-- S-31: payment handoff instructions for group-funded items and wishlists (idempotent)
+
+alter table public.items
+  add column if not exists payment_instructions text null;
+
+alter table public.wishlists
+  add column if not exists payment_instructions text null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'items_payment_instructions_check'
+  ) then
+    alter table public.items
+      add constraint items_payment_instructions_check
+      check (payment_instructions is null or char_length(payment_instructions) <= 500);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'wishlists_payment_instructions_check'
+  ) then
+    alter table public.wishlists
+      add constraint wishlists_payment_instructions_check
+      check (payment_instructions is null or char_length(payment_instructions) <= 500);
+  end if;
+end $$;
@@ -0,0 +1,75 @@
+-- S-32: wishlist change signals for push-based public streams (idempotent)
+
+create table if not exists public.wishlist_change_signals (
+  wishlist_id uuid primary key,
+  changed_at timestamptz not null default now()
+);
+
+alter table public.wishlist_change_signals enable row level security;
+
+revoke all on table public.wishlist_change_signals from public, anon, authenticated;
+
+create or replace function public.signal_wishlist_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wishlist_id uuid;
+begin
+  if tg_table_name = 'wishlists' then
+    if tg_op = 'DELETE' then
+      delete from public.wishlist_change_signals s where s.wishlist_id = old.id;
+      perform pg_notify('wishlist_changes', old.id::text);
+      return old;
+    end if;
+    v_wishlist_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_wishlist_id := old.wishlist_id;
+  else
+    v_wishlist_id := new.wishlist_id;
+  end if;
+
+  insert into public.wishlist_change_signals (wishlist_id, changed_at)
+  select v_wishlist_id, clock_timestamp()
+  where exists (select 1 from public.wishlists w where w.id = v_wishlist_id)
+  on conflict (wishlist_id) do update set changed_at = excluded.changed_at;
+
+  perform pg_notify('wishlist_changes', v_wishlist_id::text);
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function public.signal_wishlist_change() from public, anon, authenticated;
+
+drop trigger if exists items_signal_wishlist_change on public.items;
+create trigger items_signal_wishlist_change
+  after insert or update or delete on public.items
+  for each row execute function public.signal_wishlist_change();
+
+drop trigger if exists wishlists_signal_wishlist_change on public.wishlists;
+create trigger wishlists_signal_wishlist_change
+  after update or delete on public.wishlists
+  for each row execute function public.signal_wishlist_change();
+
+do $$
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'wishlist_change_signals'
+  ) then
+    alter publication supabase_realtime add table public.wishlist_change_signals;
+  end if;
+end $$;
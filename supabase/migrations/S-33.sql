@@ -0,0 +1,14 @@
+-- S-33: lock profiles so clients cannot write role or email (idempotent)
+
+alter table public.profiles enable row level security;
+
+revoke insert, update, delete on table public.profiles from public, anon, authenticated;
+
+revoke select on table public.profiles from public, anon;
+
+drop policy if exists profiles_select_own on public.profiles;
+create policy profiles_select_own
+  on public.profiles
+  for select
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,7 @@
+-- S-34: activity paging on immutable timestamps (idempotent)
+
+create index if not exists reservations_user_created_idx
+  on public.reservations (user_id, created_at desc, id desc);
+
+create index if not exists wishlist_opens_user_first_opened_idx
+  on public.wishlist_opens (user_id, first_opened_at desc, id desc);
@@ -0,0 +1,55 @@
+-- S-35: check every rate-limit bucket before recording any hit; replaces consume_rate_limit (idempotent)
+
+create or replace function public.consume_rate_limits(p_buckets text[], p_limits integer[], p_window_ms integer)
+returns table (allowed boolean, denied_index integer, retry_after_ms integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_window interval := make_interval(secs => p_window_ms / 1000.0);
+  v_count integer;
+  v_oldest timestamptz;
+  v_index integer;
+begin
+  if coalesce(array_length(p_buckets, 1), 0) = 0 then
+    return query select true, null::integer, 0;
+    return;
+  end if;
+
+  for v_index in 1 .. array_length(p_buckets, 1) loop
+    perform pg_advisory_xact_lock(hashtextextended(p_buckets[v_index], 0));
+  end loop;
+
+  for v_index in 1 .. array_length(p_buckets, 1) loop
+    delete from public.rate_limit_hits
+    where bucket_key = p_buckets[v_index]
+      and hit_at <= v_now - v_window;
+
+    select count(*), min(hit_at)
+    into v_count, v_oldest
+    from public.rate_limit_hits
+    where bucket_key = p_buckets[v_index];
+
+    if v_count >= p_limits[v_index] then
+      return query
+        select
+          false,
+          v_index - 1,
+          greatest(1, ceil(extract(epoch from (v_oldest + v_window - v_now)) * 1000)::integer);
+      return;
+    end if;
+  end loop;
+
+  insert into public.rate_limit_hits (bucket_key, hit_at)
+  select bucket, v_now
+  from unnest(p_buckets) as bucket;
+
+  return query select true, null::integer, 0;
+end;
+$$;
+
+revoke all on function public.consume_rate_limits(text[], integer[], integer) from public, anon, authenticated;
+
+drop function if exists public.consume_rate_limit(text, integer, integer);
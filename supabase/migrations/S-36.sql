@@ -0,0 +1,92 @@
+-- S-36: lapsed waitlist head starts reopen items and pass to the next waiter (idempotent)
+
+create index if not exists reservation_waitlist_head_start_expiry_idx
+  on public.reservation_waitlist (head_start_expires_at)
+  where status = 'notified';
+
+create or replace function public.grant_waitlist_head_start(
+  p_item_id uuid,
+  p_now timestamptz,
+  p_head_start_minutes integer
+)
+returns table (
+  waitlist_id uuid,
+  wishlist_id uuid,
+  item_id uuid,
+  user_id uuid,
+  item_title text,
+  item_price_cents integer,
+  head_start_expires_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_entry public.reservation_waitlist%rowtype;
+  v_claimed integer;
+  v_head_starts integer;
+  v_free integer;
+  v_expired integer;
+  v_granted boolean := false;
+  v_expires_at timestamptz := p_now + make_interval(mins => p_head_start_minutes);
+begin
+  select * into v_item
+  from public.items i
+  where i.id = p_item_id
+  for update;
+
+  if not found or v_item.archived_at is not null then
+    return;
+  end if;
+
+  update public.reservation_waitlist w
+  set status = 'expired', updated_at = p_now
+  where w.item_id = p_item_id
+    and w.status = 'notified'
+    and w.head_start_expires_at <= p_now;
+  get diagnostics v_expired = row_count;
+
+  select coalesce(sum(r.quantity), 0)::integer into v_claimed
+  from public.reservations r
+  where r.item_id = p_item_id
+    and r.status in ('active', 'purchased');
+
+  select count(*)::integer into v_head_starts
+  from public.reservation_waitlist w
+  where w.item_id = p_item_id
+    and w.status = 'notified';
+
+  v_free := greatest(v_item.quantity_desired - v_claimed - v_head_starts, 0);
+
+  for v_entry in
+    select w.* from public.reservation_waitlist w
+    where w.item_id = p_item_id
+      and w.status = 'waiting'
+      and not exists (
+        select 1 from public.reservations r
+        where r.item_id = w.item_id
+          and r.user_id = w.user_id
+          and r.status in ('active', 'purchased')
+      )
+    order by w.created_at, w.id
+    limit v_free
+    for update
+  loop
+    update public.reservation_waitlist w
+    set status = 'notified', notified_at = p_now, head_start_expires_at = v_expires_at, updated_at = p_now
+    where w.id = v_entry.id;
+    v_granted := true;
+
+    return query select v_entry.id, v_entry.wishlist_id, v_entry.item_id, v_entry.user_id,
+      v_item.title, v_item.price_cents, v_expires_at;
+  end loop;
+
+  if v_granted or v_expired > 0 then
+    update public.items i set updated_at = p_now where i.id = p_item_id;
+  end if;
+end;
+$$;
+
+revoke all on function public.grant_waitlist_head_start(uuid, timestamptz, integer) from public, anon, authenticated;
@@ -0,0 +1,30 @@
+-- S-37: the wishlist owner never becomes an item's fallback organizer (idempotent)
+
+-- The nominated organizer, or else the earliest non-owner contributor whose pledge is not fully withdrawn.
+create or replace function public.item_organizer_user_id(p_item_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select i.organizer_user_id from public.items i where i.id = p_item_id),
+    (
+      select c.user_id
+      from public.contributions c
+      join public.items i on i.id = c.item_id
+      join public.wishlists w on w.id = i.wishlist_id
+      where c.item_id = p_item_id
+        and c.user_id <> w.owner_id
+        and c.reverses_contribution_id is null
+        and c.amount_cents + coalesce((
+          select sum(r.amount_cents) from public.contributions r where r.reverses_contribution_id = c.id
+        ), 0) > 0
+      order by c.created_at, c.id
+      limit 1
+    )
+  );
+$$;
+
+revoke all on function public.item_organizer_user_id(uuid) from public, anon, authenticated;
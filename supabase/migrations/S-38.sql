@@ -0,0 +1,36 @@
+-- S-38: wishlist change signals go through Realtime only (idempotent)
+
+create or replace function public.signal_wishlist_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_wishlist_id uuid;
+begin
+  if tg_table_name = 'wishlists' then
+    if tg_op = 'DELETE' then
+      delete from public.wishlist_change_signals s where s.wishlist_id = old.id;
+      return old;
+    end if;
+    v_wishlist_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_wishlist_id := old.wishlist_id;
+  else
+    v_wishlist_id := new.wishlist_id;
+  end if;
+
+  insert into public.wishlist_change_signals (wishlist_id, changed_at)
+  select v_wishlist_id, clock_timestamp()
+  where exists (select 1 from public.wishlists w where w.id = v_wishlist_id)
+  on conflict (wishlist_id) do update set changed_at = excluded.changed_at;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+  return new;
+end;
+$$;
+
+revoke all on function public.signal_wishlist_change() from public, anon, authenticated;
@@ -0,0 +1,4 @@
+-- S-39: stable newest-first item order per wishlist (idempotent)
+
+create index if not exists items_wishlist_created_idx
+  on public.items (wishlist_id, created_at desc, id desc);
@@ -0,0 +1,173 @@
+-- S-40: grant waitlist head starts inside the transaction that frees the unit (idempotent)
+
+drop function if exists public.unreserve_item(uuid, uuid, uuid);
+
+create or replace function public.unreserve_item(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_head_start_minutes integer
+)
+returns table (outcome text, reservation_id uuid, item_updated_at timestamptz, head_starts jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_reservation_id uuid;
+  v_now timestamptz := now();
+  v_head_starts jsonb;
+begin
+  select * into v_item
+  from public.items
+  where id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, null::uuid, null::timestamptz, '[]'::jsonb;
+    return;
+  end if;
+
+  if v_item.archived_at is not null then
+    return query select 'ARCHIVED'::text, null::uuid, v_item.updated_at, '[]'::jsonb;
+    return;
+  end if;
+
+  update public.reservations
+  set status = 'released', purchased_at = null, updated_at = v_now
+  where item_id = p_item_id
+    and user_id = p_user_id
+    and status in ('active', 'purchased')
+  returning id into v_reservation_id;
+
+  if v_reservation_id is null then
+    return query select 'NO_ACTIVE_RESERVATION'::text, null::uuid, v_item.updated_at, '[]'::jsonb;
+    return;
+  end if;
+
+  update public.items set updated_at = v_now where id = p_item_id;
+
+  select coalesce(jsonb_agg(to_jsonb(g)), '[]'::jsonb) into v_head_starts
+  from public.grant_waitlist_head_start(p_item_id, v_now, p_head_start_minutes) g;
+
+  return query select 'RELEASED'::text, v_reservation_id, v_now, v_head_starts;
+end;
+$$;
+
+drop function if exists public.release_expired_reservation_hold(uuid, timestamptz);
+
+create or replace function public.release_expired_reservation_hold(
+  p_reservation_id uuid,
+  p_now timestamptz,
+  p_head_start_minutes integer
+)
+returns table (
+  outcome text,
+  wishlist_id uuid,
+  item_id uuid,
+  user_id uuid,
+  item_title text,
+  item_price_cents integer,
+  item_updated_at timestamptz,
+  head_starts jsonb
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation public.reservations%rowtype;
+  v_item public.items%rowtype;
+  v_head_starts jsonb;
+begin
+  select * into v_reservation
+  from public.reservations r
+  where r.id = p_reservation_id;
+
+  if not found then
+    return query select 'NOT_FOUND'::text, null::uuid, null::uuid, null::uuid, null::text, null::integer,
+      null::timestamptz, '[]'::jsonb;
+    return;
+  end if;
+
+  select * into v_item
+  from public.items i
+  where i.id = v_reservation.item_id
+  for update;
+
+  -- Re-read under the item lock: the gifter may have renewed or purchased since the sweep listed this row.
+  update public.reservations r
+  set status = 'released', hold_reminded_at = null, updated_at = p_now
+  where r.id = p_reservation_id
+    and r.status = 'active'
+    and r.hold_expires_at is not null
+    and r.hold_expires_at <= p_now;
+
+  if not found then
+    return query select 'SKIPPED'::text, v_reservation.wishlist_id, v_reservation.item_id, v_reservation.user_id,
+      v_item.title, v_item.price_cents, v_item.updated_at, '[]'::jsonb;
+    return;
+  end if;
+
+  update public.items set updated_at = p_now where id = v_reservation.item_id;
+
+  select coalesce(jsonb_agg(to_jsonb(g)), '[]'::jsonb) into v_head_starts
+  from public.grant_waitlist_head_start(v_reservation.item_id, p_now, p_head_start_minutes) g;
+
+  return query select 'RELEASED'::text, v_reservation.wishlist_id, v_reservation.item_id, v_reservation.user_id,
+    v_item.title, v_item.price_cents, p_now, v_head_starts;
+end;
+$$;
+
+create or replace function public.leave_reservation_waitlist(
+  p_wishlist_id uuid,
+  p_item_id uuid,
+  p_user_id uuid,
+  p_head_start_minutes integer
+)
+returns table (outcome text, head_starts jsonb)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_entry public.reservation_waitlist%rowtype;
+  v_now timestamptz := now();
+  v_head_starts jsonb := '[]'::jsonb;
+begin
+  select * into v_item
+  from public.items i
+  where i.id = p_item_id
+  for update;
+
+  if not found or v_item.wishlist_id <> p_wishlist_id then
+    return query select 'NOT_FOUND'::text, '[]'::jsonb;
+    return;
+  end if;
+
+  update public.reservation_waitlist w
+  set status = 'cancelled', updated_at = v_now
+  where w.item_id = p_item_id
+    and w.user_id = p_user_id
+    and w.status in ('waiting', 'notified')
+  returning * into v_entry;
+
+  if not found then
+    return query select 'NOT_WAITLISTED'::text, '[]'::jsonb;
+    return;
+  end if;
+
+  if v_entry.head_start_expires_at is not null and v_entry.head_start_expires_at > v_now then
+    select coalesce(jsonb_agg(to_jsonb(g)), '[]'::jsonb) into v_head_starts
+    from public.grant_waitlist_head_start(p_item_id, v_now, p_head_start_minutes) g;
+  end if;
+
+  return query select 'CANCELLED'::text, v_head_starts;
+end;
+$$;
+
+revoke all on function public.unreserve_item(uuid, uuid, uuid, integer) from public, anon, authenticated;
+revoke all on function public.release_expired_reservation_hold(uuid, timestamptz, integer) from public, anon, authenticated;
+revoke all on function public.leave_reservation_waitlist(uuid, uuid, uuid, integer) from public, anon, authenticated;
@@ -0,0 +1,38 @@
+-- S-42: funding-deadline sweep lists only unfunded items, paged by deadline and id (idempotent)
+
+create index if not exists items_auto_shortfall_deadline_idx
+  on public.items (funding_deadline_at, id)
+  where is_group_funded and archived_at is null and shortfall_policy in ('auto_extend_7d', 'auto_archive');
+
+create or replace function public.list_unfunded_items_past_deadline(
+  p_now timestamptz,
+  p_after_deadline_at timestamptz,
+  p_after_id uuid,
+  p_limit integer
+)
+returns setof public.items
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.*
+  from public.items i
+  where i.is_group_funded
+    and i.archived_at is null
+    and i.shortfall_policy in ('auto_extend_7d', 'auto_archive')
+    and i.funding_deadline_at <= p_now
+    and i.target_cents > 0
+    and (
+      p_after_deadline_at is null
+      or (i.funding_deadline_at, i.id) > (p_after_deadline_at, p_after_id)
+    )
+    and coalesce((
+      select sum(c.amount_cents) from public.contributions c where c.item_id = i.id
+    ), 0) < i.target_cents
+  order by i.funding_deadline_at, i.id
+  limit p_limit;
+$$;
+
+revoke all on function public.list_unfunded_items_past_deadline(timestamptz, timestamptz, uuid, integer)
+  from public, anon, authenticated;
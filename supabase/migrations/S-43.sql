@@ -0,0 +1,48 @@
+-- S-43: auto-archive re-checks the deadline and funding under the item lock (idempotent)
+
+create or replace function public.auto_archive_unfunded_item(
+  p_item_id uuid,
+  p_funding_deadline_at timestamptz,
+  p_now timestamptz
+)
+returns table (outcome text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item public.items%rowtype;
+  v_funded integer;
+begin
+  select * into v_item
+  from public.items i
+  where i.id = p_item_id
+  for update;
+
+  if not found
+    or v_item.archived_at is not null
+    or v_item.shortfall_policy <> 'auto_archive'
+    or v_item.funding_deadline_at is distinct from p_funding_deadline_at
+    or v_item.funding_deadline_at > p_now then
+    return query select 'CONFLICT'::text;
+    return;
+  end if;
+
+  select coalesce(sum(c.amount_cents), 0)::integer into v_funded
+  from public.contributions c
+  where c.item_id = p_item_id;
+
+  if v_item.target_cents is null or v_item.target_cents <= 0 or v_funded >= v_item.target_cents then
+    return query select 'FUNDED'::text;
+    return;
+  end if;
+
+  update public.items
+  set archived_at = p_now, updated_at = p_now
+  where id = p_item_id;
+
+  return query select 'ARCHIVED'::text;
+end;
+$$;
+
+revoke all on function public.auto_archive_unfunded_item(uuid, timestamptz, timestamptz) from public, anon, authenticated;
@@ -0,0 +1,5 @@
+-- S-44: scrub account emails from stored audit payloads; actors and targets are kept by user id (idempotent)
+
+update public.audit_events
+set after = after - 'actorEmail' - 'targetEmail'
+where after ?| array['actorEmail', 'targetEmail'];